@@ -1,8 +1,25 @@
 // src/analysis/deepseekAnalyzer.ts
 // DeepSeek AI 分析器 - 调用DeepSeek API进行深度技术分析
 
-import { setGlobalDispatcher, ProxyAgent } from 'undici';
 import * as dotenv from 'dotenv';
+import { FetchTransport } from '../transport/fetchTransport';
+import { HttpTransport } from '../transport/types';
+import { FundingMetrics } from '../indicators/funding';
+import { PositioningIndicators } from '../indicators/positioning';
+import { OpenInterestMetrics } from '../indicators/openInterest';
+import { OrderBookMetrics } from '../indicators/orderBook';
+import {
+    AccumulationDistribution, ChaikinMoneyFlow, FlowTrend, OnBalanceVolume, TakerPressure, ValueAreaPosition,
+    VolumeProfile, VolumeProfileBin, VolumeStats, VWAPBands
+} from '../indicators/volume';
+import { VolatilityIndicators } from '../indicators/basicIndicators';
+import { CCIResult, MFIResult, OscillatorState, StochasticResult, WilliamsRResult } from '../indicators/oscillators';
+import { DirectionalMovement, IchimokuCloud, ParabolicSAR, SuperTrend, TrendState } from '../indicators/trend';
+import { Divergence, DivergenceSource, DivergenceType } from '../indicators/divergence';
+import { CandlestickPattern, CandlestickPatternType } from '../indicators/candlestickPatterns';
+import { LevelSource, PriceLevel, SupportResistanceLevels } from '../indicators/supportResistance';
+import { formatIndicatorField, IndicatorResult } from '../indicators/registry';
+import { CORE_INDICATOR_IDS } from '../indicators/builtinIndicators';
 
 dotenv.config();
 
@@ -13,11 +30,36 @@ type TradingSignalType = 'STRONG_BUY' | 'BUY' | 'HOLD' | 'SELL' | 'STRONG_SELL';
 interface IndicatorAnalysis {
     currentPrice: number;
     macd: any;
-    volume: any;
-    rsi: number;
+    volume?: VolumeStats;
+    obv?: OnBalanceVolume;
+    accumulationDistribution?: AccumulationDistribution;
+    cmf?: ChaikinMoneyFlow;
+    vwap?: VWAPBands;
+    anchoredVwap?: VWAPBands;
+    volumeProfile?: VolumeProfile;
+    rsi?: number;
+    stochastic?: StochasticResult;
+    stochRsi?: StochasticResult;
+    williamsR?: WilliamsRResult;
+    cci?: CCIResult;
+    mfi?: MFIResult;
     ma: any;
+    adx?: DirectionalMovement;
+    superTrend?: SuperTrend;
+    ichimoku?: IchimokuCloud;
+    parabolicSar?: ParabolicSAR;
     bollingerBands: any;
+    volatility?: VolatilityIndicators;
+    takerPressure?: TakerPressure;
+    indicatorResults?: IndicatorResult[];   // 注册表输出 (核心指标之外的扩展指标单独成节)
     priceData?: any;
+    funding?: FundingMetrics;
+    positioning?: PositioningIndicators;
+    openInterest?: OpenInterestMetrics;
+    orderBook?: OrderBookMetrics;
+    divergences?: Divergence[];             // 价格摆动点与RSI/MACD柱状图/OBV的背离
+    candlestickPatterns?: CandlestickPattern[]; // 最近K线形态及其位置
+    supportResistance?: SupportResistanceLevels; // 支撑/阻力位和枢轴点 (与报告使用同一组价位)
 }
 
 // DeepSeek API 响应接口
@@ -29,16 +71,27 @@ interface DeepSeekResponse {
     }>;
 }
 
-// 配置代理
-const dispatcher = new ProxyAgent("http://127.0.0.1:7890");
-setGlobalDispatcher(dispatcher);
+// DeepSeek 分析器配置
+export interface DeepSeekAnalyzerOptions {
+    transport?: HttpTransport;   // HTTP传输层 (默认直连，代理通过传输层配置)
+    baseURL?: string;            // API地址 (默认 https://api.deepseek.com/v1)
+    quoteAsset?: string;         // 名义价值的计价资产 (默认 USDT，COIN-M为USD)
+}
 
 export class DeepSeekAnalyzer {
     private apiKey: string;
-    private baseURL: string = 'https://api.deepseek.com/v1/chat/completions';
+    private baseURL: string = 'https://api.deepseek.com/v1';
+    private transport: HttpTransport;
+    private readonly quoteAsset: string;
 
-    constructor(apiKey: string) {
+    constructor(apiKey: string, options: DeepSeekAnalyzerOptions = {}) {
         this.apiKey = apiKey;
+        if (options.baseURL) {
+            this.baseURL = options.baseURL.replace(/\/+$/, '');
+        }
+        // 大模型响应较慢，默认超时时间比行情接口更长
+        this.transport = options.transport || new FetchTransport({ timeoutMs: 120000 });
+        this.quoteAsset = options.quoteAsset ?? 'USDT';
     }
 
     /**
@@ -108,7 +161,8 @@ export class DeepSeekAnalyzer {
         }
 
         try {
-            const response = await fetch(this.baseURL, {
+            const response = await this.transport.request({
+                url: `${this.baseURL}/chat/completions`,
                 method: 'POST',
                 headers: {
                     'Authorization': `Bearer ${this.apiKey}`,
@@ -188,17 +242,20 @@ export class DeepSeekAnalyzer {
 - **MACD值**: ${macd?.macd?.toFixed(6) || 'N/A'}
 - **信号线**: ${macd?.signal?.toFixed(6) || 'N/A'}
 - **柱状图**: ${macd?.histogram?.toFixed(6) || 'N/A'}
-${this.analyzeMACDStatus(macd)}
+${this.analyzeMACDStatus(macd, indicators.divergences)}
 
 ### 📊 移动平均线系统分析
-- **MA5 (5日)**: ${ma?.ma5?.toFixed(8) || 'N/A'} ${this.getMAPosition(currentPrice, ma?.ma5)}
-- **MA10 (10日)**: ${ma?.ma10?.toFixed(8) || 'N/A'} ${this.getMAPosition(currentPrice, ma?.ma10)}
-- **MA20 (20日)**: ${ma?.ma20?.toFixed(8) || 'N/A'} ${this.getMAPosition(currentPrice, ma?.ma20)}
-${ma?.ma50 ? `- **MA50 (50日)**: ${ma.ma50.toFixed(8)} ${this.getMAPosition(currentPrice, ma.ma50)}` : ''}
+- **MA${ma?.periods?.short ?? ''} (${ma?.periods?.short ?? '-'}周期)**: ${ma?.short?.toFixed(8) || 'N/A'} ${this.getMAPosition(currentPrice, ma?.short)}
+- **MA${ma?.periods?.medium ?? ''} (${ma?.periods?.medium ?? '-'}周期)**: ${ma?.medium?.toFixed(8) || 'N/A'} ${this.getMAPosition(currentPrice, ma?.medium)}
+- **MA${ma?.periods?.long ?? ''} (${ma?.periods?.long ?? '-'}周期)**: ${ma?.long?.toFixed(8) || 'N/A'} ${this.getMAPosition(currentPrice, ma?.long)}
+${ma?.trend ? `- **MA${ma.periods.trend} (${ma.periods.trend}周期)**: ${ma.trend.toFixed(8)} ${this.getMAPosition(currentPrice, ma.trend)}` : ''}
 
 **均线排列分析**:
 ${this.analyzeMAArrangement(currentPrice, ma)}
 
+### 🧭 趋势强度
+${this.analyzeTrendStrength(indicators)}
+
 ### 📉 布林带指标分析
 - **上轨(压力)**: $${bollingerBands?.upper?.toFixed(8) || 'N/A'}
 - **中轨(趋势)**: $${bollingerBands?.middle?.toFixed(8) || 'N/A'}
@@ -208,17 +265,46 @@ ${this.analyzeMAArrangement(currentPrice, ma)}
 
 ${this.analyzeBollingerStatus(currentPrice, bollingerBands)}
 
+### 🕯️ K线形态
+${this.analyzeCandlestickPatterns(indicators.candlestickPatterns)}
+
+### 🌪️ 波动率指标
+${this.analyzeVolatilityStatus(indicators.volatility)}
+
 ### 📊 成交量分析
 - **当前成交量**: ${volume?.currentVolume?.toFixed(2) || 'N/A'}
 - **平均成交量**: ${volume?.averageVolume?.toFixed(2) || 'N/A'}
 - **成交量比率**: ${volume?.volumeRatio?.toFixed(2) || 'N/A'}
-- **成交量趋势**: ${volume?.volumeTrend?.toFixed(4) || 'N/A'}
+- **成交量趋势**: ${volume ? `${(volume.volumeTrend * 100).toFixed(2)}% 均量/K线` : 'N/A'}
+- **主动买入占比**: ${this.formatTakerPressure(indicators.takerPressure)}
 
 ${this.analyzeVolumeStatus(volume)}
 
+### 📶 成交量分布
+${this.analyzeVolumeProfile(indicators.volumeProfile, volume)}
+
+### 💧 资金流向
+${this.analyzeMoneyFlow(indicators)}
+
 ### 🔄 RSI 相对强弱指数
 - **RSI值**: ${rsi?.toFixed(2) || 'N/A'}
-${this.analyzeRSIStatus(rsi)}
+${this.analyzeRSIStatus(rsi, indicators.divergences)}
+
+### 🎚️ 振荡指标
+${this.analyzeOscillators(indicators)}
+
+### 💰 资金费率与基差
+${this.analyzeFundingStatus(indicators.funding)}
+
+### 👥 多空持仓结构
+${this.analyzePositioningStatus(indicators.positioning)}
+
+### 📦 持仓量变化
+${this.analyzeOpenInterestStatus(indicators.openInterest)}
+
+### 📚 盘口流动性
+${this.analyzeOrderBookStatus(indicators.orderBook)}
+${this.formatCustomIndicators(indicators.indicatorResults)}
 
 ## 🎯 关键位置分析
 ${supportResistance}
@@ -239,11 +325,11 @@ ${supportResistance}
 - 入场前的确认信号
 
 ### 3️⃣ **风险管理**
-- **止损位设置**: 基于最近低点或技术支撑位下方2-3%
-- **止盈目标**:
-  - 第一目标位（阻力位1）
-  - 第二目标位（阻力位2）
-  - 极限目标位（关键技术阻力）
+- **止损位设置**: 基于上方列出的支撑位S1/S2或ATR止损参考
+- **止盈目标** (使用上方列出的阻力位价格):
+  - 第一目标位（阻力位R1）
+  - 第二目标位（阻力位R2）
+  - 极限目标位（阻力位R3或枢轴点）
 - **止损点至入场点的风险**
 - **预期收益与风险的比率**（建议>1.5:1）
 
@@ -301,7 +387,9 @@ ${supportResistance}
         }
 
         // RSI 评分
-        if (rsi >= 50 && rsi < 70) {
+        if (rsi === undefined) {
+            // 未计算RSI时不计分
+        } else if (rsi >= 50 && rsi < 70) {
             bullishScore += 1;
         } else if (rsi >= 70) {
             bearishScore += 1; // 超买风险
@@ -319,7 +407,7 @@ ${supportResistance}
         }
 
         // 成交量评分
-        if (volume?.volumeRatio > 1.2) {
+        if ((volume?.volumeRatio ?? 0) > 1.2) {
             if (indicators.macd?.histogram > 0) {
                 bullishScore += 1;
             } else {
@@ -340,12 +428,32 @@ ${supportResistance}
     /**
      * 分析MACD状态
      */
-    private analyzeMACDStatus(macd: any): string {
+    private analyzeMACDStatus(macd: any, divergences?: Divergence[]): string {
         if (!macd) return '';
         const status = macd.macd > macd.signal ? '🟢 看涨金叉' : macd.macd < macd.signal ? '🔴 看跌死叉' : '⚪ 中性整理';
         const trend = macd.histogram > 0 ? '🟢 多头动能增强' : '🔴 空头动能增强';
         return `**当前状态**: ${status}
-**柱状图趋势**: ${trend}`;
+**柱状图趋势**: ${trend}
+${this.formatDivergences(divergences, 'MACD')}`;
+    }
+
+    /**
+     * 某一指标与价格摆动点的背离 (类型、强度、距今K线数)
+     */
+    private formatDivergences(divergences: Divergence[] | undefined, source: DivergenceSource): string {
+        const typeLabels: Record<DivergenceType, string> = {
+            REGULAR_BULLISH: '🟢 常规看涨背离 (价格新低、指标抬高，提示反转向上)',
+            HIDDEN_BULLISH: '🟢 隐藏看涨背离 (价格低点抬高、指标新低，上涨趋势延续)',
+            REGULAR_BEARISH: '🔴 常规看跌背离 (价格新高、指标走低，提示反转向下)',
+            HIDDEN_BEARISH: '🔴 隐藏看跌背离 (价格高点降低、指标新高，下跌趋势延续)'
+        };
+        const matching = (divergences || []).filter(divergence => divergence.source === source);
+        if (matching.length === 0) {
+            return `**${source}背离**: ⚪ 近期无背离`;
+        }
+        return matching
+            .map(divergence => `**${source}背离**: ${typeLabels[divergence.type]}，强度 ${divergence.strength.toFixed(2)}，${divergence.barsAgo}根K线前确认`)
+            .join('\n');
     }
 
     /**
@@ -366,29 +474,30 @@ ${supportResistance}
     private analyzeMAArrangement(currentPrice: number, ma: any): string {
         if (!ma) return '⚪ **数据不足**: 无法进行均线排列分析';
 
-        const { ma5, ma10, ma20, ma50 } = ma;
+        const { short, medium, long, trend, periods } = ma;
+        const [s, m, l, t] = [`MA${periods.short}`, `MA${periods.medium}`, `MA${periods.long}`, `MA${periods.trend}`];
 
         // 检查多头排列
-        if (currentPrice > ma5 && ma5 > ma10 && ma10 > ma20) {
-            if (ma50 && ma20 > ma50) {
-                return '🟢 **完美多头排列**: 价格 > MA5 > MA10 > MA20 > MA50，趋势强劲';
+        if (currentPrice > short && short > medium && medium > long) {
+            if (trend && long > trend) {
+                return `🟢 **完美多头排列**: 价格 > ${s} > ${m} > ${l} > ${t}，趋势强劲`;
             }
-            return '🟢 **强势多头排列**: 价格 > MA5 > MA10 > MA20，短期均线呈多头排列';
+            return `🟢 **强势多头排列**: 价格 > ${s} > ${m} > ${l}，短期均线呈多头排列`;
         }
 
         // 检查空头排列
-        if (currentPrice < ma5 && ma5 < ma10 && ma10 < ma20) {
-            if (ma50 && ma20 < ma50) {
-                return '🔴 **完美空头排列**: 价格 < MA5 < MA10 < MA20 < MA50，趋势疲弱';
+        if (currentPrice < short && short < medium && medium < long) {
+            if (trend && long < trend) {
+                return `🔴 **完美空头排列**: 价格 < ${s} < ${m} < ${l} < ${t}，趋势疲弱`;
             }
-            return '🔴 **强势空头排列**: 价格 < MA5 < MA10 < MA20，短期均线呈空头排列';
+            return `🔴 **强势空头排列**: 价格 < ${s} < ${m} < ${l}，短期均线呈空头排列`;
         }
 
-        if (currentPrice > ma5 && currentPrice > ma10) {
+        if (currentPrice > short && currentPrice > medium) {
             return '🟡 **偏多震荡**: 价格在短期均线之上，但均线排列不完整';
         }
 
-        if (currentPrice < ma5 && currentPrice < ma10) {
+        if (currentPrice < short && currentPrice < medium) {
             return '🟠 **偏空震荡**: 价格在短期均线之下，但均线排列不完整';
         }
 
@@ -424,13 +533,45 @@ ${supportResistance}
         return `**布林带状态**: ${status}`;
     }
 
+    /**
+     * 最近K线形态 (方向、距今K线数、相对布林带和均线的位置)
+     */
+    private analyzeCandlestickPatterns(patterns?: CandlestickPattern[]): string {
+        if (!patterns) return '- K线形态数据不可用';
+        if (patterns.length === 0) return '- 最近K线未出现典型形态';
+
+        const patternLabels: Record<CandlestickPatternType, string> = {
+            BULLISH_ENGULFING: '看涨吞没', BEARISH_ENGULFING: '看跌吞没',
+            HAMMER: '锤子线', SHOOTING_STAR: '射击之星',
+            DOJI: '十字星',
+            MORNING_STAR: '早晨之星', EVENING_STAR: '黄昏之星',
+            THREE_WHITE_SOLDIERS: '红三兵', THREE_BLACK_CROWS: '三只乌鸦',
+            INSIDE_BAR: '内包线', BULLISH_OUTSIDE_BAR: '看涨外包线', BEARISH_OUTSIDE_BAR: '看跌外包线',
+            BULLISH_PIN_BAR: '看涨Pin Bar', BEARISH_PIN_BAR: '看跌Pin Bar'
+        };
+        const biasLabels = { BULLISH: '🟢 看涨', BEARISH: '🔴 看跌', NEUTRAL: '⚪ 中性' };
+        const kindLabels = { REVERSAL: '反转', CONTINUATION: '持续', INDECISION: '犹豫' };
+        const bandLabels = { UPPER_BAND: '触及布林上轨', LOWER_BAND: '触及布林下轨', INSIDE_BANDS: '布林带内' };
+        const maLabels = { ABOVE: '均线上方', BELOW: '均线下方', TESTING: '回踩均线' };
+
+        return patterns.map(pattern => {
+            const location = [
+                pattern.bollinger ? bandLabels[pattern.bollinger] : undefined,
+                pattern.movingAverage ? maLabels[pattern.movingAverage] : undefined
+            ].filter(Boolean).join('，') || '位置未知';
+            const when = pattern.barsAgo === 0 ? '最新K线' : `${pattern.barsAgo}根K线前`;
+            const confirmation = pattern.confirmed ? '✅ 位置确认' : '⚠️ 位置未确认';
+            return `- **${patternLabels[pattern.pattern]}** (${when}): ${biasLabels[pattern.bias]}${kindLabels[pattern.kind]}，${location}，${confirmation}`;
+        }).join('\n');
+    }
+
     /**
      * 分析成交量状态
      */
-    private analyzeVolumeStatus(volume: any): string {
+    private analyzeVolumeStatus(volume?: VolumeStats): string {
         if (!volume) return '';
 
-        const { volumeRatio, volumeTrend } = volume;
+        const { volumeRatio } = volume;
 
         if (volumeRatio > 1.5) {
             return '**成交量状态**: 📈 **放量交易**: 成交量大幅放大，市场热度高';
@@ -443,21 +584,351 @@ ${supportResistance}
         }
     }
 
+    /**
+     * 分析成交量分布 (POC、价值区、高/低成交量节点) 及价格相对价值区的位置
+     */
+    private analyzeVolumeProfile(profile?: VolumeProfile, volume?: VolumeStats): string {
+        if (!profile) return '- 成交量分布数据不可用';
+
+        const formatNodes = (nodes: VolumeProfileBin[]) => (nodes.length > 0
+            ? nodes.map(node => `$${node.low.toFixed(8)} - $${node.high.toFixed(8)}`).join('，')
+            : '无');
+        const expanding = (volume?.volumeRatio ?? 0) > 1.2;
+        const positionText: Record<ValueAreaPosition, string> = {
+            ABOVE_VALUE: expanding
+                ? '🟢 **价值区上方 (放量)** - 接受更高价格，倾向突破延续'
+                : '🟡 **价值区上方 (缩量)** - 突破缺乏量能，存在回归价值区/POC的可能',
+            IN_VALUE: '⚪ **价值区内** - 价格处于公允区间，倾向区间震荡，可在价值区上下沿做均值回归',
+            BELOW_VALUE: expanding
+                ? '🔴 **价值区下方 (放量)** - 接受更低价格，倾向下破延续'
+                : '🟡 **价值区下方 (缩量)** - 下破缺乏量能，存在回归价值区/POC的可能'
+        };
+
+        return `- **POC (成交量最大价位)**: $${profile.poc.toFixed(8)}
+- **价值区 (${profile.valueAreaPercent.toFixed(1)}%成交量)**: $${profile.valueAreaLow.toFixed(8)} - $${profile.valueAreaHigh.toFixed(8)}
+- **高成交量节点 (HVN, 支撑/阻力)**: ${formatNodes(profile.highVolumeNodes)}
+- **低成交量节点 (LVN, 价格易快速穿越)**: ${formatNodes(profile.lowVolumeNodes)}
+- **统计范围**: 最近${profile.candles}根K线
+**价值区位置**: ${positionText[profile.position]}`;
+    }
+
+    /**
+     * 分析资金流向 (OBV、A/D线、CMF、VWAP及标准差带)
+     */
+    private analyzeMoneyFlow(indicators: IndicatorAnalysis): string {
+        const { obv, accumulationDistribution, cmf, vwap, anchoredVwap, currentPrice } = indicators;
+        const trendLabels: Record<FlowTrend, string> = { RISING: '🟢 上升', FALLING: '🔴 下降', FLAT: '⚪ 走平' };
+        const cmfLabels = { ACCUMULATION: '🟢 吸筹', DISTRIBUTION: '🔴 派发', NEUTRAL: '⚪ 中性' };
+        const lines: string[] = [];
+
+        if (obv) {
+            lines.push(`- **OBV能量潮**: 斜率 ${obv.slope.toFixed(2)} 均量/K线 → ${trendLabels[obv.trend]}`);
+        }
+        if (accumulationDistribution) {
+            lines.push(`- **A/D线**: 斜率 ${accumulationDistribution.slope.toFixed(2)} 均量/K线 → ${trendLabels[accumulationDistribution.trend]}`);
+        }
+        if (cmf) {
+            lines.push(`- **CMF资金流**: ${cmf.cmf.toFixed(4)} → ${cmfLabels[cmf.state]}`);
+        }
+        const formatVwap = (label: string, bands: VWAPBands) => {
+            const side = currentPrice >= bands.vwap ? '上方' : '下方';
+            return `- **${label}**: $${bands.vwap.toFixed(8)} (±1σ $${bands.lower1.toFixed(8)} - $${bands.upper1.toFixed(8)}, ±2σ $${bands.lower2.toFixed(8)} - $${bands.upper2.toFixed(8)})，价格在${side} ${bands.deviation.toFixed(2)}σ`;
+        };
+        if (vwap) lines.push(formatVwap('当日VWAP', vwap));
+        if (anchoredVwap) lines.push(formatVwap(`锚定VWAP (${anchoredVwap.candles}根K线)`, anchoredVwap));
+
+        if (obv && accumulationDistribution && obv.trend !== accumulationDistribution.trend) {
+            lines.push('**资金流向**: 🟡 OBV与A/D线方向不一致，资金流向信号存在分歧');
+        }
+        if (obv) {
+            lines.push(this.formatDivergences(indicators.divergences, 'OBV'));
+        }
+
+        return lines.length > 0 ? lines.join('\n') : '- 资金流向数据不可用';
+    }
+
     /**
      * 分析RSI状态
      */
-    private analyzeRSIStatus(rsi: number): string {
+    private analyzeRSIStatus(rsi?: number, divergences?: Divergence[]): string {
+        if (rsi === undefined) {
+            return '**RSI状态**: ⚪ 未计算';
+        }
+
+        let status: string;
         if (rsi >= 70) {
-            return `**RSI状态**: 🔴 **超买区域 (${rsi.toFixed(1)})** - RSI高于70，市场过热，短期回调风险大`;
+            status = `🔴 **超买区域 (${rsi.toFixed(1)})** - RSI高于70，市场过热，短期回调风险大`;
         } else if (rsi >= 60) {
-            return `**RSI状态**: 🟡 **强势区域 (${rsi.toFixed(1)})** - RSI在60-70，多头占优但接近超买`;
+            status = `🟡 **强势区域 (${rsi.toFixed(1)})** - RSI在60-70，多头占优但接近超买`;
         } else if (rsi >= 40) {
-            return `**RSI状态**: ⚪ **平衡区域 (${rsi.toFixed(1)})** - RSI在40-60，多空力量相对平衡`;
+            status = `⚪ **平衡区域 (${rsi.toFixed(1)})** - RSI在40-60，多空力量相对平衡`;
         } else if (rsi >= 30) {
-            return `**RSI状态**: 🟠 **弱势区域 (${rsi.toFixed(1)})** - RSI在30-40，空头占优但接近超卖`;
+            status = `🟠 **弱势区域 (${rsi.toFixed(1)})** - RSI在30-40，空头占优但接近超卖`;
+        } else {
+            status = `🟢 **超卖区域 (${rsi.toFixed(1)})** - RSI低于30，市场超卖，存在反弹机会`;
+        }
+        return `**RSI状态**: ${status}
+${this.formatDivergences(divergences, 'RSI')}`;
+    }
+
+    /**
+     * 分析振荡指标 (随机指标、StochRSI、威廉指标、CCI、MFI) 的超买超卖共振
+     */
+    private analyzeOscillators(indicators: IndicatorAnalysis): string {
+        const { stochastic, stochRsi, williamsR, cci, mfi } = indicators;
+        const stateLabels: Record<OscillatorState, string> = { OVERBOUGHT: '🔴 超买', OVERSOLD: '🟢 超卖', NEUTRAL: '⚪ 中性' };
+        const lines: string[] = [];
+        const states: OscillatorState[] = [];
+
+        if (stochastic) {
+            lines.push(`- **随机指标 (Stochastic)**: %K ${stochastic.k.toFixed(2)}, %D ${stochastic.d.toFixed(2)} → ${stateLabels[stochastic.state]}`);
+            states.push(stochastic.state);
+        }
+        if (stochRsi) {
+            lines.push(`- **StochRSI**: %K ${stochRsi.k.toFixed(2)}, %D ${stochRsi.d.toFixed(2)} → ${stateLabels[stochRsi.state]}`);
+            states.push(stochRsi.state);
+        }
+        if (williamsR) {
+            lines.push(`- **威廉指标 (%R)**: ${williamsR.value.toFixed(2)} → ${stateLabels[williamsR.state]}`);
+            states.push(williamsR.state);
+        }
+        if (cci) {
+            lines.push(`- **CCI**: ${cci.value.toFixed(2)} → ${stateLabels[cci.state]}`);
+            states.push(cci.state);
+        }
+        if (mfi) {
+            lines.push(`- **资金流量指数 (MFI)**: ${mfi.value.toFixed(2)} → ${stateLabels[mfi.state]}`);
+            states.push(mfi.state);
+        }
+        if (lines.length === 0) return '- 振荡指标数据不可用';
+
+        const overbought = states.filter(state => state === 'OVERBOUGHT').length;
+        const oversold = states.filter(state => state === 'OVERSOLD').length;
+        let agreement = '⚪ 振荡指标未出现极值';
+        if (overbought > 0 && overbought >= states.length / 2) {
+            agreement = `🔴 **超买共振**: ${overbought}/${states.length} 个振荡指标超买，回调风险较高`;
+        } else if (oversold > 0 && oversold >= states.length / 2) {
+            agreement = `🟢 **超卖共振**: ${oversold}/${states.length} 个振荡指标超卖，存在反弹机会`;
+        } else if (overbought > 0 || oversold > 0) {
+            agreement = `🟡 **信号分歧**: 超买 ${overbought} 个 / 超卖 ${oversold} 个，单一指标极值不足以判断反转`;
+        }
+
+        return `${lines.join('\n')}
+**共振判断**: ${agreement}`;
+    }
+
+    /**
+     * 分析资金费率状态
+     */
+    private analyzeFundingStatus(funding?: FundingMetrics): string {
+        if (!funding) return '- 资金费率数据不可用';
+
+        const trendMap: Record<FundingMetrics['fundingTrend'], string> = {
+            'RISING': '📈 上升',
+            'FALLING': '📉 下降',
+            'FLAT': '➖ 平稳'
+        };
+
+        let status = '⚪ **费率中性**: 多空力量相对均衡';
+        if (funding.predictedFundingRate >= 0.0005) {
+            status = '🔴 **多头拥挤**: 资金费率过高，多头持仓成本高，警惕多头踩踏';
+        } else if (funding.predictedFundingRate >= 0.0002) {
+            status = '🟡 **偏多**: 资金费率为正，多头愿意支付溢价';
+        } else if (funding.predictedFundingRate <= -0.0005) {
+            status = '🟢 **空头拥挤**: 资金费率深度为负，存在轧空可能';
+        } else if (funding.predictedFundingRate <= -0.0002) {
+            status = '🟠 **偏空**: 资金费率为负，空头愿意支付溢价';
+        }
+
+        return `- **上期结算费率**: ${(funding.currentFundingRate * 100).toFixed(4)}%
+- **预测下期费率**: ${(funding.predictedFundingRate * 100).toFixed(4)}% (年化 ${funding.annualizedFundingPercent.toFixed(2)}%)
+- **近期平均费率**: ${(funding.averageFundingRate * 100).toFixed(4)}%
+- **费率趋势**: ${trendMap[funding.fundingTrend]}
+- **标记价格/指数价格**: $${funding.markPrice.toFixed(8)} / $${funding.indexPrice.toFixed(8)} (基差 ${funding.basisPercent.toFixed(4)}%)
+**资金费率状态**: ${status}`;
+    }
+
+    /**
+     * 格式化K线主动买入占比
+     */
+    private formatTakerPressure(takerPressure?: TakerPressure): string {
+        if (!takerPressure) return 'N/A';
+
+        const pressureMap: Record<TakerPressure['pressure'], string> = {
+            'BUY': '🟢 买压占优',
+            'SELL': '🔴 卖压占优',
+            'NEUTRAL': '⚪ 买卖均衡'
+        };
+        return `最新K线 ${(takerPressure.takerBuyRatio * 100).toFixed(1)}%，近期平均 ${(takerPressure.averageTakerBuyRatio * 100).toFixed(1)}% ${pressureMap[takerPressure.pressure]}`;
+    }
+
+    /**
+     * 分析多空持仓结构
+     */
+    private analyzePositioningStatus(positioning?: PositioningIndicators): string {
+        if (!positioning) return '- 多空持仓数据不可用';
+
+        const crowdingMap: Record<PositioningIndicators['crowding'], string> = {
+            'CROWDED_LONG': '🔴 多头拥挤',
+            'CROWDED_SHORT': '🟢 空头拥挤',
+            'BALANCED': '⚪ 多空均衡'
+        };
+        const aggressionMap: Record<PositioningIndicators['takerAggression'], string> = {
+            'BUYERS': '🟢 主动买盘占优',
+            'SELLERS': '🔴 主动卖盘占优',
+            'NEUTRAL': '⚪ 买卖均衡'
+        };
+
+        let status = '⚪ **结构中性**: 持仓与主动成交没有明显偏向';
+        if (positioning.crowding === 'CROWDED_LONG' && positioning.takerAggression !== 'BUYERS') {
+            status = '🔴 **杠杆驱动**: 多头拥挤但主动买盘不足，上涨主要由杠杆多头推动，警惕多头平仓';
+        } else if (positioning.takerAggression === 'BUYERS' && positioning.crowding !== 'CROWDED_LONG') {
+            status = '🟢 **真实买盘**: 主动买入占优且多头未过度拥挤，上涨有真实资金支撑';
+        } else if (positioning.crowding === 'CROWDED_SHORT' && positioning.takerAggression === 'BUYERS') {
+            status = '🟢 **轧空风险**: 空头拥挤且主动买盘增强，可能出现空头回补';
+        } else if (positioning.takerAggression === 'SELLERS') {
+            status = '🟠 **卖压主导**: 主动卖出占优';
+        }
+
+        return `- **全市场多空账户比**: ${positioning.globalLongShortRatio.toFixed(2)} (多头账户 ${positioning.longAccountPercent.toFixed(1)}%，周期内变化 ${positioning.longShortRatioChange.toFixed(2)}%)
+- **大户持仓多空比**: ${positioning.topTraderLongShortRatio.toFixed(2)}
+- **拥挤度**: ${crowdingMap[positioning.crowding]} (评分 ${positioning.crowdingScore.toFixed(2)})
+- **主动买卖比**: ${positioning.takerBuySellRatio.toFixed(2)} ${aggressionMap[positioning.takerAggression]} (变化 ${positioning.takerRatioChange.toFixed(2)}%)
+**持仓结构状态**: ${status}`;
+    }
+
+    /**
+     * 分析持仓量与价格的变化关系
+     */
+    private analyzeOpenInterestStatus(openInterest?: OpenInterestMetrics): string {
+        if (!openInterest) return '- 持仓量历史数据不可用';
+
+        const quadrantMap: Record<OpenInterestMetrics['quadrant'], string> = {
+            'NEW_LONGS': '🟢 **增仓上涨**: 新多头入场，趋势有新资金支撑',
+            'SHORT_COVERING': '🟡 **减仓上涨**: 空头回补推动，缺乏新资金，上涨持续性存疑',
+            'NEW_SHORTS': '🔴 **增仓下跌**: 新空头入场，下跌趋势有资金推动',
+            'LONG_LIQUIDATION': '🟠 **减仓下跌**: 多头平仓离场，抛压可能逐步衰竭',
+            'NEUTRAL': '⚪ **持仓稳定**: 持仓量变化不明显'
+        };
+
+        return `- **当前持仓价值**: ${(openInterest.openInterestValue / 1000000).toFixed(2)}M ${this.quoteAsset}
+- **近${openInterest.periods}个周期持仓变化**: ${openInterest.oiChangePercent.toFixed(2)}% (同期价格变化 ${openInterest.priceChangePercent.toFixed(2)}%)
+- **持仓/24h成交额**: ${openInterest.oiToVolumeRatio.toFixed(2)}
+**持仓状态**: ${quadrantMap[openInterest.quadrant]}`;
+    }
+
+    /**
+     * 分析趋势强度 (ADX/DMI、SuperTrend、一目均衡表、抛物线SAR)
+     */
+    private analyzeTrendStrength(indicators: IndicatorAnalysis): string {
+        const { adx, superTrend, ichimoku, parabolicSar } = indicators;
+        if (!adx && !superTrend && !ichimoku && !parabolicSar) return '- 趋势强度数据不可用';
+
+        const stateLabels: Record<TrendState, string> = {
+            STRONG_UPTREND: '🟢 强势上涨',
+            UPTREND: '🟢 上涨',
+            RANGING: '⚪ 震荡',
+            DOWNTREND: '🔴 下跌',
+            STRONG_DOWNTREND: '🔴 强势下跌'
+        };
+        const positionLabels = { ABOVE_CLOUD: '云上', IN_CLOUD: '云中', BELOW_CLOUD: '云下' };
+        const lines: string[] = [];
+
+        if (adx) {
+            lines.push(`- **ADX/DMI**: ADX ${adx.adx.toFixed(2)}, +DI ${adx.plusDI.toFixed(2)}, -DI ${adx.minusDI.toFixed(2)} → ${stateLabels[adx.trendState]}`);
+        }
+        if (superTrend) {
+            const flip = superTrend.flipped ? ' (本根K线翻转)' : ` (已持续${superTrend.barsInTrend}根K线)`;
+            lines.push(`- **SuperTrend**: $${superTrend.value.toFixed(8)} → ${stateLabels[superTrend.trendState]}${flip}`);
+        }
+        if (ichimoku) {
+            lines.push(`- **一目均衡表**: 转换线 $${ichimoku.tenkan.toFixed(8)}, 基准线 $${ichimoku.kijun.toFixed(8)}, 云层 $${ichimoku.cloudBottom.toFixed(8)} - $${ichimoku.cloudTop.toFixed(8)} (${positionLabels[ichimoku.pricePosition]}) → ${stateLabels[ichimoku.trendState]}`);
+        }
+        if (parabolicSar) {
+            const flip = parabolicSar.flipped ? ' (本根K线翻转)' : '';
+            lines.push(`- **抛物线SAR**: $${parabolicSar.sar.toFixed(8)} (加速因子 ${parabolicSar.accelerationFactor}) → ${stateLabels[parabolicSar.trendState]}${flip}`);
+        }
+        if (adx?.trendState === 'RANGING') {
+            lines.push('**趋势判断**: ADX偏低，市场处于震荡，均线和MACD的趋势信号可靠性下降');
+        }
+
+        return lines.join('\n');
+    }
+
+    /**
+     * 分析波动率 (ATR、肯特纳/唐奇安通道、%B、挤压和已实现波动率)
+     */
+    private analyzeVolatilityStatus(volatility?: VolatilityIndicators): string {
+        if (!volatility) return '- 波动率数据不可用';
+
+        let status: string;
+        if (volatility.squeeze) {
+            status = '🟡 **波动率挤压**: 布林带收窄至肯特纳通道内，可能酝酿方向性突破';
+        } else if (volatility.percentB > 1) {
+            status = '🔴 **突破上轨**: %B > 1，价格在布林带上轨之外';
+        } else if (volatility.percentB < 0) {
+            status = '🟢 **跌破下轨**: %B < 0，价格在布林带下轨之外';
         } else {
-            return `**RSI状态**: 🟢 **超卖区域 (${rsi.toFixed(1)})** - RSI低于30，市场超卖，存在反弹机会`;
+            status = '⚪ **波动正常**: 价格在布林带内运行';
         }
+
+        return `- **ATR**: ${volatility.atr.toFixed(8)} (${volatility.atrPercent.toFixed(2)}% 价格)
+- **肯特纳通道**: $${volatility.keltnerLower.toFixed(8)} / $${volatility.keltnerMiddle.toFixed(8)} / $${volatility.keltnerUpper.toFixed(8)}
+- **唐奇安通道**: $${volatility.donchianLower.toFixed(8)} / $${volatility.donchianMiddle.toFixed(8)} / $${volatility.donchianUpper.toFixed(8)}
+- **布林带 %B**: ${volatility.percentB.toFixed(2)}
+- **已实现波动率 (年化)**: 收盘价 ${volatility.historicalVolatility.toFixed(1)}% / Parkinson ${volatility.parkinsonVolatility.toFixed(1)}%
+**波动率状态**: ${status}`;
+    }
+
+    /**
+     * 分析盘口流动性
+     */
+    private analyzeOrderBookStatus(orderBook?: OrderBookMetrics): string {
+        if (!orderBook) return '- 盘口数据不可用';
+
+        const formatSlippage = (bps: number | null) => (bps === null ? '深度不足' : `${bps.toFixed(1)}bps`);
+        const formatNotional = (notional: number) => `${(notional / 1000).toFixed(1)}K`;
+
+        const imbalanceLines = orderBook.imbalances
+            .map(band => `  - ±${band.bandPercent}%: 买盘 ${formatNotional(band.bidNotional)} / 卖盘 ${formatNotional(band.askNotional)} ${this.quoteAsset} (失衡 ${band.imbalance.toFixed(2)})`)
+            .join('\n');
+        const wallLines = orderBook.walls.length > 0
+            ? orderBook.walls
+                .map(wall => `  - ${wall.side === 'BID' ? '🟢 买墙' : '🔴 卖墙'} $${wall.price} (${formatNotional(wall.notional)} ${this.quoteAsset}, 距离 ${wall.distancePercent.toFixed(2)}%, ${wall.sizeMultiple.toFixed(1)}倍)`)
+                .join('\n')
+            : '  - 附近无明显挂单墙';
+        const status = orderBook.isThinBook
+            ? `🔴 **盘口稀薄**: ${orderBook.thinBookReasons.join('; ')}，信号执行风险高`
+            : '🟢 **流动性充足**: 价差和滑点在正常范围';
+
+        return `- **买一/卖一**: $${orderBook.bestBid} / $${orderBook.bestAsk} (价差 ${orderBook.spreadBps.toFixed(2)}bps)
+- **${formatNotional(orderBook.referenceNotional)} ${this.quoteAsset} 市价滑点**: 买入 ${formatSlippage(orderBook.buySlippageBps)} / 卖出 ${formatSlippage(orderBook.sellSlippageBps)}
+- **深度失衡**:
+${imbalanceLines}
+- **挂单墙**:
+${wallLines}
+**流动性状态**: ${status}`;
+    }
+
+    /**
+     * 注册表中的扩展指标 (核心指标已有专门章节)，没有扩展指标时不输出该节
+     */
+    private formatCustomIndicators(results?: IndicatorResult[]): string {
+        const custom = (results || []).filter(result => !CORE_INDICATOR_IDS.includes(result.id));
+        if (custom.length === 0) return '';
+
+        const lines = custom.map(result => {
+            const values = result.outputs
+                .map(field => `${field.label} ${formatIndicatorField(field, result.value?.[field.key])}`)
+                .join(', ');
+            const warmup = result.warmedUp ? '' : ` ⚠️ 数据不足${result.warmup}根K线，仅供参考`;
+            return `- **${result.name}**: ${values}${warmup}`;
+        });
+
+        return `
+### 🧩 扩展指标
+${lines.join('\n')}
+`;
     }
 
     /**
@@ -482,7 +953,7 @@ ${supportResistance}
 **交易信号**: ${signalMap[signal] || signal}
 
 ### 技术面评价
-${this.analyzeMACDStatus(indicators.macd)}
+${this.analyzeMACDStatus(indicators.macd, indicators.divergences)}
 
 ${this.analyzeMAArrangement(indicators.currentPrice, indicators.ma)}
 
@@ -490,7 +961,7 @@ ${this.analyzeBollingerStatus(indicators.currentPrice, indicators.bollingerBands
 
 ${this.analyzeVolumeStatus(indicators.volume)}
 
-${this.analyzeRSIStatus(indicators.rsi)}
+${this.analyzeRSIStatus(indicators.rsi, indicators.divergences)}
 
 **备注**: 本分析基于技术指标自动生成，建议结合其他信息进行综合判断。
         `;
@@ -504,7 +975,9 @@ ${this.analyzeRSIStatus(indicators.rsi)}
         let riskScore = 0;
 
         // RSI上的风险
-        if (rsi >= 70 || rsi <= 30) {
+        if (rsi === undefined) {
+            // 未计算RSI时不计入风险
+        } else if (rsi >= 70 || rsi <= 30) {
             riskScore += 2; // 超买或超卖
         } else if (rsi >= 65 || rsi <= 35) {
             riskScore += 1; // 接近超买或超卖
@@ -517,8 +990,21 @@ ${this.analyzeRSIStatus(indicators.rsi)}
             riskScore += 1; // 波动率高，抖动大
         }
 
+        // 已实现波动率和ATR上的风险 (年化波动率)
+        const volatility = indicators.volatility;
+        if (volatility) {
+            if (volatility.historicalVolatility > 150 || volatility.parkinsonVolatility > 150) {
+                riskScore += 2; // 极端波动，止损容易被扫
+            } else if (volatility.historicalVolatility > 100 || volatility.parkinsonVolatility > 100) {
+                riskScore += 1;
+            }
+            if (volatility.squeeze) {
+                riskScore += 1; // 波动率收缩，突破方向未定
+            }
+        }
+
         // 成交量上的风险
-        if (volume?.volumeRatio < 0.5) {
+        if (volume && volume.volumeRatio < 0.5) {
             riskScore += 1; // 成交量不足，流动性风险
         }
 
@@ -527,6 +1013,11 @@ ${this.analyzeRSIStatus(indicators.rsi)}
             riskScore += 1; // 接近零轴，信号不明确
         }
 
+        // 盘口流动性上的风险
+        if (indicators.orderBook?.isThinBook) {
+            riskScore += 2; // 盘口稀薄，价差大或滑点高
+        }
+
         if (riskScore >= 5) return '极高 🔴';
         if (riskScore >= 4) return '较高 🟠';
         if (riskScore >= 2) return '中低 🟡';
@@ -534,36 +1025,80 @@ ${this.analyzeRSIStatus(indicators.rsi)}
     }
 
     /**
-     * 计算支撑位和阻力位
+     * 支撑位和阻力位 (摆动点聚类、枢轴点、整数关口)，按距离当前价格由近到远编号
      */
     private calculateSupportResistance(indicators: IndicatorAnalysis): string {
-        const { currentPrice, bollingerBands, ma } = indicators;
+        const { currentPrice, supportResistance } = indicators;
+        const atrStops = this.formatAtrStops(currentPrice, indicators.volatility);
+        if (!supportResistance) {
+            return `- 支撑/阻力位数据不可用\n${atrStops}`;
+        }
 
-        let support1 = bollingerBands?.lower || 0;
-        let support2 = ma?.ma20 || 0;
-        let resistance1 = bollingerBands?.upper || 0;
-        let resistance2 = ma?.ma50 || 0;
+        const { supports, resistances, pivots } = supportResistance;
+        const nearestSupport = supports[0];
+        const nearestResistance = resistances[0];
+        let position: string;
+        if (nearestSupport && nearestResistance) {
+            position = `位于 S1 $${nearestSupport.price.toFixed(8)} 与 R1 $${nearestResistance.price.toFixed(8)} 之间`;
+        } else if (nearestSupport) {
+            position = '上方无已识别阻力位';
+        } else if (nearestResistance) {
+            position = '下方无已识别支撑位';
+        } else {
+            position = '上下方均无已识别支撑/阻力位';
+        }
 
-        // 低位推计（基于布林带和均线）
-        const supportDistance = ((currentPrice - support1) / currentPrice * 100);
-        const resistanceDistance = ((resistance1 - currentPrice) / currentPrice * 100);
+        const pivotLines = pivots ? `
+### 枢轴点 (上一根${pivots.interval}K线: 高 $${pivots.high.toFixed(8)} / 低 $${pivots.low.toFixed(8)} / 收 $${pivots.close.toFixed(8)})
+- **经典**: PP $${pivots.classic.pivot.toFixed(8)} | R1 $${pivots.classic.r1.toFixed(8)} | R2 $${pivots.classic.r2.toFixed(8)} | S1 $${pivots.classic.s1.toFixed(8)} | S2 $${pivots.classic.s2.toFixed(8)}
+- **斐波那契**: R1 $${pivots.fibonacci.r1.toFixed(8)} | R2 $${pivots.fibonacci.r2.toFixed(8)} | S1 $${pivots.fibonacci.s1.toFixed(8)} | S2 $${pivots.fibonacci.s2.toFixed(8)}
+- **Camarilla**: H4 $${pivots.camarilla.h4.toFixed(8)} | H3 $${pivots.camarilla.h3.toFixed(8)} | L3 $${pivots.camarilla.l3.toFixed(8)} | L4 $${pivots.camarilla.l4.toFixed(8)}` : '';
 
         return `### 支撑位分析
-- **第一支撑位最近**: $${support1.toFixed(8)} (下降 ${supportDistance.toFixed(2)}%)
-- **第二支撑位**: $${support2.toFixed(8)}
+${this.formatLevels(supports, 'S')}
 
 ### 阻力位分析
-- **第一阻力位最近**: $${resistance1.toFixed(8)} (上涨 ${resistanceDistance.toFixed(2)}%)
-- **第二阻力位**: $${resistance2.toFixed(8)}
+${this.formatLevels(resistances, 'R')}
+${pivotLines}
 
 ### 位置账户
-- **当前价格位置**: $${currentPrice.toFixed(8)} (位于支撑-阻力之间)`;
+- **当前价格位置**: $${currentPrice.toFixed(8)} (${position})
+${atrStops}`;
+    }
+
+    /**
+     * 价位列表: 编号、价格、距离、强度 (0-100)、触及次数和来源
+     */
+    private formatLevels(levels: PriceLevel[], prefix: 'S' | 'R'): string {
+        if (levels.length === 0) return '- 未识别到有效价位';
+
+        const sourceLabels: Record<LevelSource, string> = {
+            SWING_HIGH: '摆动高点', SWING_LOW: '摆动低点', PIVOT: '经典枢轴', FIBONACCI: '斐波那契枢轴',
+            CAMARILLA: 'Camarilla', ROUND_NUMBER: '整数关口'
+        };
+        return levels.map((level, i) =>
+            `- **${prefix}${i + 1}**: $${level.price.toFixed(8)} (${level.distancePercent > 0 ? '+' : ''}${level.distancePercent.toFixed(2)}%)，强度 ${level.strength}/100，触及 ${level.touches} 次，来源: ${level.sources.map(source => sourceLabels[source]).join('/')} (${level.labels.join(', ')})`
+        ).join('\n');
+    }
+
+    /**
+     * 基于ATR的止损参考位 (1.5倍 / 2倍ATR)
+     */
+    private formatAtrStops(currentPrice: number, volatility?: VolatilityIndicators): string {
+        if (!volatility || volatility.atr <= 0) return '';
+
+        const { atr } = volatility;
+        return `
+### ATR止损参考 (ATR ${atr.toFixed(8)}, ${volatility.atrPercent.toFixed(2)}%)
+- **做多止损**: 1.5×ATR $${(currentPrice - 1.5 * atr).toFixed(8)} / 2×ATR $${(currentPrice - 2 * atr).toFixed(8)}
+- **做空止损**: 1.5×ATR $${(currentPrice + 1.5 * atr).toFixed(8)} / 2×ATR $${(currentPrice + 2 * atr).toFixed(8)}
+- **通道边界**: 唐奇安 $${volatility.donchianLower.toFixed(8)} - $${volatility.donchianUpper.toFixed(8)}`;
     }
 
     /**
      * 分析成交量质量
      */
-    private analyzeVolumeQuality(volume: any, priceData: any): string {
+    private analyzeVolumeQuality(volume: VolumeStats | undefined, priceData: any): string {
         if (!volume) return '数据不足 💤';
 
         const { volumeRatio, volumeTrend } = volume;
@@ -9,6 +9,8 @@ export interface SimplifiedSummary {
     currentPrice: number;
     signal: string;
     confidence: number;
+    support?: number;       // 最近的支撑位 (S1)
+    resistance?: number;    // 最近的阻力位 (R1)
     timestamp: number;
 }
 
@@ -30,12 +32,14 @@ export class SimplifiedReporter {
         content += `## 📋 交易对信号列表\n\n`;
 
         // 创建Markdown表格
-        content += `| 序号 | 交易对 | 当前价格 | 交易信号 | 置信度 |\n`;
-        content += `|------|--------|----------|----------|--------|\n`;
+        content += `| 序号 | 交易对 | 当前价格 | 支撑位 | 阻力位 | 交易信号 | 置信度 |\n`;
+        content += `|------|--------|----------|--------|--------|----------|--------|\n`;
 
         sorted.forEach((summary, index) => {
             const signalEmoji = this.getSignalEmoji(summary.signal);
-            content += `| ${index + 1} | ${summary.symbol} | ${summary.currentPrice.toFixed(8)} | ${signalEmoji} ${summary.signal} | ${summary.confidence.toFixed(1)}% |\n`;
+            const support = summary.support?.toFixed(8) ?? '-';
+            const resistance = summary.resistance?.toFixed(8) ?? '-';
+            content += `| ${index + 1} | ${summary.symbol} | ${summary.currentPrice.toFixed(8)} | ${support} | ${resistance} | ${signalEmoji} ${summary.signal} | ${summary.confidence.toFixed(1)}% |\n`;
         });
 
         // 添加统计部分
@@ -1,45 +1,132 @@
 // src/binance/client.ts
-import { setGlobalDispatcher, ProxyAgent } from 'undici';
 import {
     OpenInterestStatisticsParams,
     OpenInterestData,
     PriceData,
-    Kline
+    Kline,
+    MarkPriceData,
+    FundingRateParams,
+    FundingRateData,
+    FuturesDataParams,
+    LongShortRatioData,
+    TakerVolumeData,
+    OrderBookDepth,
+    KlineHistoryParams,
+    ExchangeInfo,
+    ExchangeSymbolInfo
 } from './types';
+import { intervalToMs } from './intervals';
+import { getEndpointWeight, RateLimitUsage, RequestWeightLimiter } from './rateLimiter';
+import { KlineStore } from '../storage/klineStore';
+import { FetchTransport } from '../transport/fetchTransport';
+import { HttpResponse, HttpTransport } from '../transport/types';
+import { ExchangeClient } from '../exchanges/types';
 
-// Set up proxy if needed
-const dispatcher = new ProxyAgent("http://127.0.0.1:7890");
-setGlobalDispatcher(dispatcher);
+// Binance returns at most 1500 klines per request
+const MAX_KLINES_PER_REQUEST = 1500;
 
-export class BinanceClient {
+// USDⓈ-M (fapi) lists USDT- and USDC-margined contracts; COIN-M (dapi) lists inverse contracts
+export type BinanceMarket = 'usdm' | 'coinm';
+
+const MARKET_ENDPOINTS: Record<BinanceMarket, { baseURL: string; apiPrefix: string }> = {
+    usdm: { baseURL: 'https://fapi.binance.com', apiPrefix: '/fapi/v1' },
+    coinm: { baseURL: 'https://dapi.binance.com', apiPrefix: '/dapi/v1' }
+};
+
+export interface BinanceClientOptions {
+    market?: BinanceMarket;     // Default usdm
+    transport?: HttpTransport;  // Defaults to a direct FetchTransport (no proxy)
+    baseURL?: string;           // e.g. https://testnet.binancefuture.com or a mirror endpoint
+    klineStore?: KlineStore;    // Local candle store consulted before hitting the API
+    rateLimiter?: RequestWeightLimiter; // Pass the same limiter to share one weight budget between clients
+    contractSpecTtlMs?: number; // How long COIN-M contract specs are reused, default 1 hour
+}
+
+export class BinanceClient implements ExchangeClient {
+    readonly exchange = 'binance' as const;
     private readonly maxRetries: number = 5;
     private readonly baseRetryDelay: number = 1000;
     private readonly rateLimitRetryDelay: number = 60000; // 1 minute for rate limiting
-    private baseURL = 'https://fapi.binance.com';
+    readonly market: BinanceMarket;
+    private baseURL: string;
+    private readonly apiPrefix: string;
+    private readonly transport: HttpTransport;
+    private contractSpecs: Map<string, ExchangeSymbolInfo> | null = null; // COIN-M pair / contract size lookup
+    private contractSpecsFetchedAt = 0;
+    private contractSpecsRequest: Promise<ExchangeInfo> | null = null;
+    private readonly contractSpecTtlMs: number;
+    private readonly klineStore?: KlineStore;
+    private readonly rateLimiter: RequestWeightLimiter;
+
+    constructor(options: BinanceClientOptions = {}) {
+        this.market = options.market || 'usdm';
+        this.baseURL = options.baseURL
+            ? options.baseURL.replace(/\/+$/, '')
+            : MARKET_ENDPOINTS[this.market].baseURL;
+        this.apiPrefix = MARKET_ENDPOINTS[this.market].apiPrefix;
+        this.transport = options.transport || new FetchTransport();
+        this.klineStore = options.klineStore;
+        this.rateLimiter = options.rateLimiter || new RequestWeightLimiter();
+        this.contractSpecTtlMs = options.contractSpecTtlMs ?? 60 * 60 * 1000;
+    }
 
     /**
      * Fetch data with retry mechanism
+     * Requests wait for the weight budget; 429 and 418 responses pause the limiter for Retry-After.
      */
-    async fetchWithRetry(url: string, retries = 3, delay = 1000): Promise<Response> {
+    async fetchWithRetry(url: string, retries = 3, delay = 1000): Promise<HttpResponse> {
+        const weight = getEndpointWeight(url);
+
         for (let i = 0; i < retries; i++) {
+            let response: HttpResponse;
             try {
-                const response = await fetch(url);
-                if (response.ok) return response;
-
-                if (response.status === 429) { // Rate limited
-                    await this.delay(delay * (i + 1));
-                    continue;
-                }
-
-                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+                await this.rateLimiter.acquire(weight);
+                response = await this.transport.request({ url });
             } catch (error) {
                 if (i === retries - 1) throw error;
                 await this.delay(delay * (i + 1));
+                continue;
+            }
+
+            this.rateLimiter.updateFromHeaders(response.headers);
+            if (response.ok) return response;
+
+            if (response.status === 418) { // IP banned, retrying would extend the ban
+                const banMs = this.getRetryAfterMs(response) ?? this.rateLimitRetryDelay;
+                this.rateLimiter.pause(banMs);
+                throw new Error(`HTTP 418: IP banned by Binance, requests paused for ${Math.ceil(banMs / 1000)}s`);
+            }
+
+            if (response.status === 429) { // Rate limited
+                const retryAfterMs = this.getRetryAfterMs(response) ?? this.rateLimitRetryDelay;
+                console.warn(`⚠️  Rate limited by Binance, pausing requests for ${Math.ceil(retryAfterMs / 1000)}s`);
+                this.rateLimiter.pause(retryAfterMs);
+                continue;
+            }
+
+            if (i === retries - 1) {
+                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
             }
+            await this.delay(delay * (i + 1));
         }
         throw new Error('Max retries exceeded');
     }
 
+    /**
+     * Get current request weight usage
+     */
+    getRateLimitUsage(): RateLimitUsage {
+        return this.rateLimiter.getUsage();
+    }
+
+    /**
+     * Parse the Retry-After header (seconds) into milliseconds
+     */
+    private getRetryAfterMs(response: HttpResponse): number | null {
+        const retryAfter = parseInt(response.headers.get('retry-after') || '', 10);
+        return isNaN(retryAfter) ? null : retryAfter * 1000;
+    }
+
     /**
      * Delay utility
      */
@@ -47,11 +134,50 @@ export class BinanceClient {
         return new Promise(resolve => setTimeout(resolve, ms));
     }
 
+    /**
+     * COIN-M contract spec (pair, contract type, USD per contract) from the cached exchangeInfo
+     */
+    private async getContractSpec(symbol: string): Promise<ExchangeSymbolInfo> {
+        const spec = (await this.loadContractSpecs([symbol])).get(symbol);
+        if (!spec) {
+            throw new Error(`Unknown COIN-M contract: ${symbol}`);
+        }
+        return spec;
+    }
+
+    /**
+     * Reload exchangeInfo when the specs are expired or miss one of the symbols
+     * (listed after the last load, or a quarterly that rolled over). Concurrent callers share one request.
+     */
+    private async loadContractSpecs(symbols: string[]): Promise<Map<string, ExchangeSymbolInfo>> {
+        const expired = !this.contractSpecs || Date.now() - this.contractSpecsFetchedAt >= this.contractSpecTtlMs;
+        if (expired || symbols.some(symbol => !this.contractSpecs!.has(symbol))) {
+            if (!this.contractSpecsRequest) {
+                this.contractSpecsRequest = this.getExchangeInfo().finally(() => {
+                    this.contractSpecsRequest = null;
+                });
+            }
+            await this.contractSpecsRequest;
+        }
+        return this.contractSpecs!;
+    }
+
+    /**
+     * USD notional of a COIN-M contract quantity
+     */
+    private contractsToNotional(contracts: number, spec: ExchangeSymbolInfo): number {
+        return contracts * (spec.contractSize ?? 1);
+    }
+
     /**
      * Get open interest statistics
      * https://developers.binance.com/docs/zh-CN/derivatives/usds-margined-futures/market-data/rest-api/Open-Interest-Statistics#http%E8%AF%B7%E6%B1%82
      */
     async getOpenInterestStatistics(params: OpenInterestStatisticsParams): Promise<OpenInterestData[]> {
+        if (this.market === 'coinm') {
+            return this.getCoinMarginedOpenInterest(params);
+        }
+
         const queryParams = new URLSearchParams();
         queryParams.append('symbol', params.symbol);
         queryParams.append('period', params.period);
@@ -72,21 +198,202 @@ export class BinanceClient {
         }
     }
 
+    /**
+     * COIN-M open interest is queried by pair and contract type and reported in contracts;
+     * values are converted to USD notional so OI thresholds apply the same way as on USDⓈ-M
+     * https://developers.binance.com/docs/derivatives/coin-margined-futures/market-data/rest-api/Open-Interest-Statistics
+     */
+    private async getCoinMarginedOpenInterest(params: OpenInterestStatisticsParams): Promise<OpenInterestData[]> {
+        const spec = await this.getContractSpec(params.symbol);
+        const queryParams = new URLSearchParams();
+        queryParams.append('pair', spec.pair);
+        queryParams.append('contractType', spec.contractType);
+        queryParams.append('period', params.period);
+
+        if (params.startTime) queryParams.append('startTime', params.startTime.toString());
+        if (params.endTime) queryParams.append('endTime', params.endTime.toString());
+        if (params.limit) queryParams.append('limit', params.limit.toString());
+
+        const url = `${this.baseURL}/futures/data/openInterestHist?${queryParams}`;
+
+        try {
+            const response = await this.fetchWithRetry(url);
+            const rawData: any[] = await response.json();
+
+            return rawData.map(data => ({
+                symbol: params.symbol,
+                sumOpenInterest: data.sumOpenInterest,
+                sumOpenInterestValue: this.contractsToNotional(parseFloat(data.sumOpenInterest), spec).toString(),
+                timestamp: data.timestamp
+            }));
+        } catch (error) {
+            console.error('Failed to fetch open interest statistics:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get the long/short account ratio of all traders
+     * https://developers.binance.com/docs/derivatives/usds-margined-futures/market-data/rest-api/Long-Short-Ratio
+     */
+    async getGlobalLongShortAccountRatio(params: FuturesDataParams): Promise<LongShortRatioData[]> {
+        return this.getLongShortRatio('/futures/data/globalLongShortAccountRatio', params);
+    }
+
+    /**
+     * Get the long/short position ratio of top traders
+     * https://developers.binance.com/docs/derivatives/usds-margined-futures/market-data/rest-api/Top-Trader-Long-Short-Ratio
+     */
+    async getTopLongShortPositionRatio(params: FuturesDataParams): Promise<LongShortRatioData[]> {
+        return this.getLongShortRatio('/futures/data/topLongShortPositionRatio', params);
+    }
+
+    /**
+     * Get taker buy/sell volume
+     * https://developers.binance.com/docs/derivatives/usds-margined-futures/market-data/rest-api/Taker-BuySell-Volume
+     */
+    async getTakerLongShortRatio(params: FuturesDataParams): Promise<TakerVolumeData[]> {
+        // COIN-M publishes the same data as takerBuySellVol (per pair and contract type)
+        const path = this.market === 'coinm' ? '/futures/data/takerBuySellVol' : '/futures/data/takerlongshortRatio';
+        const url = `${this.baseURL}${path}?${await this.buildFuturesDataQuery(params, true)}`;
+
+        try {
+            const response = await this.fetchWithRetry(url);
+            const rawData: any[] = await response.json();
+
+            return rawData.map(data => {
+                const buyVolume = parseFloat(data.buyVol ?? data.takerBuyVol);
+                const sellVolume = parseFloat(data.sellVol ?? data.takerSellVol);
+                return {
+                    buySellRatio: data.buySellRatio !== undefined
+                        ? parseFloat(data.buySellRatio)
+                        : (sellVolume > 0 ? buyVolume / sellVolume : 1),
+                    buyVolume,
+                    sellVolume,
+                    timestamp: data.timestamp
+                };
+            });
+        } catch (error) {
+            console.error('Failed to fetch taker buy/sell volume:', error);
+            throw error;
+        }
+    }
+
+    private async getLongShortRatio(path: string, params: FuturesDataParams): Promise<LongShortRatioData[]> {
+        const url = `${this.baseURL}${path}?${await this.buildFuturesDataQuery(params)}`;
+
+        try {
+            const response = await this.fetchWithRetry(url);
+            const rawData: any[] = await response.json();
+
+            // COIN-M top trader ratios report longPosition/shortPosition instead of longAccount/shortAccount
+            return rawData.map(data => ({
+                symbol: data.symbol ?? params.symbol,
+                longShortRatio: parseFloat(data.longShortRatio),
+                longShare: parseFloat(data.longAccount ?? data.longPosition),
+                shortShare: parseFloat(data.shortAccount ?? data.shortPosition),
+                timestamp: data.timestamp
+            }));
+        } catch (error) {
+            console.error(`Failed to fetch long/short ratio (${path}):`, error);
+            throw error;
+        }
+    }
+
+    private async buildFuturesDataQuery(params: FuturesDataParams, withContractType = false): Promise<URLSearchParams> {
+        const queryParams = new URLSearchParams();
+        if (this.market === 'coinm') {
+            const spec = await this.getContractSpec(params.symbol);
+            queryParams.append('pair', spec.pair);
+            if (withContractType) queryParams.append('contractType', spec.contractType);
+        } else {
+            queryParams.append('symbol', params.symbol);
+        }
+        queryParams.append('period', params.period);
+
+        if (params.startTime) queryParams.append('startTime', params.startTime.toString());
+        if (params.endTime) queryParams.append('endTime', params.endTime.toString());
+        if (params.limit) queryParams.append('limit', params.limit.toString());
+
+        return queryParams;
+    }
+
+    /**
+     * Get mark price, index price and the predicted funding rate
+     * https://developers.binance.com/docs/derivatives/usds-margined-futures/market-data/rest-api/Mark-Price
+     */
+    async getPremiumIndex(symbol: string): Promise<MarkPriceData> {
+        const url = `${this.baseURL}${this.apiPrefix}/premiumIndex?symbol=${symbol}`;
+
+        try {
+            const response = await this.fetchWithRetry(url);
+            const body: any = await response.json();
+            // COIN-M returns a list even when a symbol is given
+            const data = Array.isArray(body) ? body[0] : body;
+
+            return {
+                symbol: data.symbol,
+                markPrice: parseFloat(data.markPrice),
+                indexPrice: parseFloat(data.indexPrice),
+                estimatedSettlePrice: parseFloat(data.estimatedSettlePrice),
+                fundingRate: parseFloat(data.lastFundingRate),
+                nextFundingTime: data.nextFundingTime,
+                timestamp: data.time
+            };
+        } catch (error) {
+            console.error('Failed to fetch premium index:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get funding rate history (oldest first)
+     * https://developers.binance.com/docs/derivatives/usds-margined-futures/market-data/rest-api/Get-Funding-Rate-History
+     */
+    async getFundingRateHistory(params: FundingRateParams): Promise<FundingRateData[]> {
+        const queryParams = new URLSearchParams();
+        queryParams.append('symbol', params.symbol);
+
+        if (params.startTime) queryParams.append('startTime', params.startTime.toString());
+        if (params.endTime) queryParams.append('endTime', params.endTime.toString());
+        if (params.limit) queryParams.append('limit', params.limit.toString());
+
+        const url = `${this.baseURL}${this.apiPrefix}/fundingRate?${queryParams}`;
+
+        try {
+            const response = await this.fetchWithRetry(url);
+            const rawData: any[] = await response.json();
+
+            return rawData.map(data => ({
+                symbol: data.symbol,
+                fundingRate: parseFloat(data.fundingRate),
+                fundingTime: data.fundingTime,
+                markPrice: data.markPrice ? parseFloat(data.markPrice) : undefined
+            }));
+        } catch (error) {
+            console.error('Failed to fetch funding rate history:', error);
+            throw error;
+        }
+    }
+
     /**
      * Get 24hr ticker data
      */
     async get24hrTicker(symbol: string): Promise<PriceData> {
-        const url = `${this.baseURL}/fapi/v1/ticker/24hr?symbol=${symbol}`;
+        const url = `${this.baseURL}${this.apiPrefix}/ticker/24hr?symbol=${symbol}`;
 
         try {
             const response = await this.fetchWithRetry(url);
-            const data: any = await response.json();
+            const body: any = await response.json();
+            // COIN-M returns a list even when a symbol is given
+            const data = Array.isArray(body) ? body[0] : body;
+            const spec = this.market === 'coinm' ? await this.getContractSpec(data.symbol) : undefined;
 
             return {
                 symbol: data.symbol,
                 price: parseFloat(data.lastPrice),
                 priceChangePercent: parseFloat(data.priceChangePercent),
-                quoteVolume: parseFloat(data.quoteVolume),
+                quoteVolume: this.getQuoteVolume(data, spec),
                 timestamp: data.closeTime
             };
         } catch (error) {
@@ -95,22 +402,110 @@ export class BinanceClient {
         }
     }
 
+    /**
+     * Get contract metadata and trading rules for all symbols
+     * https://developers.binance.com/docs/derivatives/usds-margined-futures/market-data/rest-api/Exchange-Information
+     */
+    async getExchangeInfo(): Promise<ExchangeInfo> {
+        const url = `${this.baseURL}${this.apiPrefix}/exchangeInfo`;
+
+        try {
+            const response = await this.fetchWithRetry(url);
+            const data: any = await response.json();
+
+            const symbols: ExchangeSymbolInfo[] = data.symbols.map((item: any) => {
+                const filter = (type: string) => (item.filters || []).find((f: any) => f.filterType === type) || {};
+                return {
+                    symbol: item.symbol,
+                    pair: item.pair,
+                    contractType: item.contractType,
+                    status: item.status ?? item.contractStatus, // COIN-M uses contractStatus
+                    baseAsset: item.baseAsset,
+                    quoteAsset: item.quoteAsset,
+                    marginAsset: item.marginAsset,
+                    pricePrecision: item.pricePrecision,
+                    quantityPrecision: item.quantityPrecision,
+                    onboardDate: item.onboardDate,
+                    deliveryDate: item.deliveryDate,
+                    tickSize: parseFloat(filter('PRICE_FILTER').tickSize ?? '0'),
+                    stepSize: parseFloat(filter('LOT_SIZE').stepSize ?? '0'),
+                    minQty: parseFloat(filter('LOT_SIZE').minQty ?? '0'),
+                    minNotional: parseFloat(filter('MIN_NOTIONAL').notional ?? '0'),
+                    contractSize: item.contractSize
+                };
+            });
+
+            if (this.market === 'coinm') {
+                this.contractSpecs = new Map(symbols.map(item => [item.symbol, item]));
+                this.contractSpecsFetchedAt = Date.now();
+            }
+
+            return { serverTime: data.serverTime, symbols };
+        } catch (error) {
+            console.error('Failed to fetch exchange info:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get an order book snapshot
+     * Valid limits: 5, 10, 20, 50, 100, 500, 1000
+     * https://developers.binance.com/docs/derivatives/usds-margined-futures/market-data/rest-api/Order-Book
+     */
+    async getDepth(symbol: string, limit: number = 100): Promise<OrderBookDepth> {
+        const url = `${this.baseURL}${this.apiPrefix}/depth?symbol=${symbol}&limit=${limit}`;
+
+        try {
+            const response = await this.fetchWithRetry(url);
+            const data: any = await response.json();
+            // COIN-M sizes are in contracts; convert them to base asset so notionals match USDⓈ-M
+            const spec = this.market === 'coinm' ? await this.getContractSpec(symbol) : null;
+            const toLevels = (levels: [string, string][]) => levels.map(([price, quantity]) => ({
+                price: parseFloat(price),
+                quantity: spec
+                    ? this.contractsToNotional(parseFloat(quantity), spec) / parseFloat(price)
+                    : parseFloat(quantity)
+            }));
+
+            return {
+                symbol,
+                lastUpdateId: data.lastUpdateId,
+                bids: toLevels(data.bids),
+                asks: toLevels(data.asks),
+                timestamp: data.T
+            };
+        } catch (error) {
+            console.error('Failed to fetch order book depth:', error);
+            throw error;
+        }
+    }
+
     /**
      * Get all 24hr tickers
      */
     async getAll24hrTickers(): Promise<PriceData[]> {
-        const url = `${this.baseURL}/fapi/v1/ticker/24hr`;
+        const url = `${this.baseURL}${this.apiPrefix}/ticker/24hr`;
 
         try {
             const response = await this.fetchWithRetry(url);
-            const rawData: any[] = await response.json();
+            let rawData: any[] = await response.json();
+
+            // COIN-M volumes need the contract size; tickers still missing from exchangeInfo are skipped
+            const specs = this.market === 'coinm' ? await this.loadContractSpecs(rawData.map(data => data.symbol)) : null;
+            if (specs) {
+                const unknown = rawData.filter(data => !specs.has(data.symbol));
+                if (unknown.length > 0) {
+                    console.warn(`⚠️  Skipping ${unknown.length} tickers without a COIN-M contract spec: ${unknown.map(data => data.symbol).join(', ')}`);
+                    rawData = rawData.filter(data => specs.has(data.symbol));
+                }
+            }
 
             return rawData.map(data => ({
                 symbol: data.symbol,
                 price: parseFloat(data.lastPrice),
                 priceChangePercent: parseFloat(data.priceChangePercent), ///24小时价格变动百分比
                 volume: parseFloat(data.volume), 
-                quoteVolume: parseFloat(data.quoteVolume), ///24小时成交金额
+                quoteVolume: this.getQuoteVolume(data, specs?.get(data.symbol)), ///24小时成交金额
                 timestamp: data.closeTime
             }));
         } catch (error) {
@@ -121,9 +516,110 @@ export class BinanceClient {
 
     /**
      * Get Klines data
+     * When a kline store is configured, only candles newer than the last stored
+     * close time are requested and stored candles are served if the API fails.
+     * Gaps longer than one page, and stores holding fewer than `limit` candles, are filled page by page.
      */
     async getKlines(symbol: string, interval: string = '15m', limit: number = 200): Promise<Kline[]> {
-        const url = `${this.baseURL}/fapi/v1/klines?symbol=${symbol}&interval=${interval}&limit=${limit}`;
+        if (!this.klineStore) {
+            return this.fetchKlines(symbol, interval, { limit });
+        }
+
+        const stored = this.klineStore.load(symbol, interval);
+        const intervalMs = intervalToMs(interval);
+        const now = Date.now();
+
+        let fresh: Kline[];
+        try {
+            if (stored.length === 0) {
+                fresh = await this.fetchKlines(symbol, interval, { limit });
+            } else {
+                const lastCloseTime = stored[stored.length - 1].date + intervalMs - 1;
+                const missing = Math.ceil((now - lastCloseTime) / intervalMs) + 1;
+
+                if (stored.length < limit || missing > MAX_KLINES_PER_REQUEST) {
+                    // Page in everything after the last stored candle, and older candles when the store
+                    // holds fewer than `limit`, so the store never keeps a hole or a short history (merged once below)
+                    const windowStart = (Math.floor(now / intervalMs) - limit + 1) * intervalMs;
+                    const startTime = stored.length < limit ? Math.min(windowStart, lastCloseTime + 1) : lastCloseTime + 1;
+                    fresh = await this.fetchKlineHistory({ symbol, interval, startTime, endTime: now });
+                } else {
+                    fresh = await this.fetchKlines(symbol, interval, { startTime: lastCloseTime + 1, limit: missing });
+                }
+            }
+        } catch (error) {
+            if (stored.length === 0) throw error;
+            console.warn(`⚠️  ${symbol} ${interval}: API unavailable, serving ${stored.length} stored klines`);
+            return stored.slice(-limit);
+        }
+
+        // Only closed candles are persisted; the in-progress candle is returned but not stored
+        const closed = fresh.filter(k => k.date + intervalMs <= now);
+        const merged = this.klineStore.merge(symbol, interval, closed);
+        const open = fresh.filter(k => k.date + intervalMs > now);
+
+        return [...merged, ...open].slice(-limit);
+    }
+
+    /**
+     * Get all klines between startTime and endTime (oldest first), paging past the 1500-candle limit.
+     * Closed candles are merged into the kline store when one is configured.
+     */
+    async getKlineHistory(params: KlineHistoryParams): Promise<Kline[]> {
+        const { symbol, interval } = params;
+        const klines = await this.fetchKlineHistory(params);
+
+        if (this.klineStore) {
+            const now = Date.now();
+            const intervalMs = intervalToMs(interval);
+            this.klineStore.merge(symbol, interval, klines.filter(k => k.date + intervalMs <= now));
+        }
+
+        return klines;
+    }
+
+    /**
+     * Page through klines between startTime and endTime without touching the kline store
+     */
+    private async fetchKlineHistory(params: KlineHistoryParams): Promise<Kline[]> {
+        const { symbol, interval, startTime } = params;
+        const endTime = params.endTime ?? Date.now();
+        const intervalMs = intervalToMs(interval);
+        const klines: Kline[] = [];
+
+        let cursor = startTime;
+        while (cursor <= endTime) {
+            const page = await this.fetchKlines(symbol, interval, {
+                startTime: cursor,
+                endTime,
+                limit: MAX_KLINES_PER_REQUEST
+            });
+            if (page.length === 0) break;
+
+            klines.push(...page);
+            if (page.length < MAX_KLINES_PER_REQUEST) break;
+            cursor = page[page.length - 1].date + intervalMs;
+        }
+
+        return klines;
+    }
+
+    /**
+     * Fetch Klines data from the API
+     */
+    private async fetchKlines(
+        symbol: string,
+        interval: string,
+        range: { limit: number; startTime?: number; endTime?: number }
+    ): Promise<Kline[]> {
+        const queryParams = new URLSearchParams();
+        queryParams.append('symbol', symbol);
+        queryParams.append('interval', interval);
+        queryParams.append('limit', range.limit.toString());
+        if (range.startTime) queryParams.append('startTime', range.startTime.toString());
+        if (range.endTime) queryParams.append('endTime', range.endTime.toString());
+
+        const url = `${this.baseURL}${this.apiPrefix}/klines?${queryParams}`;
 
         try {
             const response = await this.fetchWithRetry(url);
@@ -136,6 +632,10 @@ export class BinanceClient {
                 throw new Error('Invalid kline data format received.');
             }
 
+            if (this.market === 'coinm') {
+                return this.parseCoinMarginedKlines(rawData, await this.getContractSpec(symbol));
+            }
+
             const klines: Kline[] = [];
             for (const kline of rawData) {
                 klines.push({
@@ -144,7 +644,12 @@ export class BinanceClient {
                     high: parseFloat(kline[2]),
                     low: parseFloat(kline[3]),
                     close: parseFloat(kline[4]),
-                    volume: parseFloat(kline[5])
+                    volume: parseFloat(kline[5]),
+                    closeTime: kline[6],
+                    quoteVolume: parseFloat(kline[7]),
+                    trades: kline[8],
+                    takerBuyBaseVolume: parseFloat(kline[9]),
+                    takerBuyQuoteVolume: parseFloat(kline[10])
                 });
             }
 
@@ -154,4 +659,31 @@ export class BinanceClient {
             throw error;
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * COIN-M kline rows are [openTime, o, h, l, c, volume (contracts), closeTime, base volume,
+     * trades, taker buy volume (contracts), taker buy base volume]; contracts are converted to USD
+     */
+    private parseCoinMarginedKlines(rawData: any[], spec: ExchangeSymbolInfo): Kline[] {
+        return rawData.map(kline => ({
+            date: kline[0],
+            open: parseFloat(kline[1]),
+            high: parseFloat(kline[2]),
+            low: parseFloat(kline[3]),
+            close: parseFloat(kline[4]),
+            volume: parseFloat(kline[7]),
+            closeTime: kline[6],
+            quoteVolume: this.contractsToNotional(parseFloat(kline[5]), spec),
+            trades: kline[8],
+            takerBuyBaseVolume: parseFloat(kline[10]),
+            takerBuyQuoteVolume: this.contractsToNotional(parseFloat(kline[9]), spec)
+        }));
+    }
+
+    /**
+     * 24h turnover in quote currency; COIN-M tickers only report contracts and base volume, so they need the spec
+     */
+    private getQuoteVolume(ticker: any, spec?: ExchangeSymbolInfo): number {
+        return spec ? this.contractsToNotional(parseFloat(ticker.volume), spec) : parseFloat(ticker.quoteVolume);
+    }
+}
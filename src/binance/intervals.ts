@@ -0,0 +1,37 @@
+// src/binance/intervals.ts
+
+const INTERVAL_UNIT_MS: Record<string, number> = {
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000,
+    M: 30 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Convert a Binance kline interval (e.g. "15m", "4h", "1d") to milliseconds
+ */
+export function intervalToMs(interval: string): number {
+    const match = interval.match(/^(\d+)([mhdwM])$/);
+    if (!match) {
+        throw new Error(`Unsupported kline interval: ${interval}`);
+    }
+    return parseInt(match[1], 10) * INTERVAL_UNIT_MS[match[2]];
+}
+
+// Periods accepted by the /futures/data statistics endpoints
+const FUTURES_DATA_PERIODS = ['5m', '15m', '30m', '1h', '2h', '4h', '6h', '12h', '1d'];
+
+/**
+ * Map a kline interval to the closest period supported by /futures/data endpoints
+ */
+export function toFuturesDataPeriod(interval: string): string {
+    if (FUTURES_DATA_PERIODS.includes(interval)) {
+        return interval;
+    }
+
+    const target = intervalToMs(interval);
+    return FUTURES_DATA_PERIODS.reduce((closest, period) =>
+        Math.abs(intervalToMs(period) - target) < Math.abs(intervalToMs(closest) - target) ? period : closest
+    );
+}
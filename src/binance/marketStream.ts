@@ -0,0 +1,454 @@
+// src/binance/marketStream.ts
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import { BinanceClient } from './client';
+import { intervalToMs } from './intervals';
+import { Kline, MarkPriceData, PriceData } from './types';
+
+const TICKER_STREAM = '!ticker@arr';
+const MARK_PRICE_STREAM = '!markPrice@arr';
+
+// Binance closes every connection after 24 hours, so rotate a bit earlier
+const DEFAULT_ROTATION_INTERVAL = 23 * 60 * 60 * 1000;
+
+// Most klines fetched with one getKlines call; longer gaps are paged with getKlineHistory
+const MAX_BACKFILL_KLINES = 1500;
+
+export type MarketStreamRestClient = Pick<BinanceClient, 'getKlines' | 'getKlineHistory' | 'getAll24hrTickers'>;
+
+export interface MarketStreamOptions {
+    baseURL?: string;                   // e.g. "wss://fstream.binance.com" or a local stand-in server
+    restClient?: MarketStreamRestClient; // Used to backfill gaps after a reconnect
+    reconnectDelay?: number;            // Initial reconnect delay in ms, doubled on every failed attempt
+    maxReconnectDelay?: number;
+    rotationInterval?: number;          // Replace the connection before the server drops it
+}
+
+export interface KlineEvent {
+    symbol: string;
+    interval: string;
+    kline: Kline;
+    isClosed: boolean;
+    backfilled: boolean;                // true when recovered via REST after a disconnect
+}
+
+export interface MarketStreamEvents {
+    ticker: (tickers: PriceData[]) => void;
+    kline: (event: KlineEvent) => void;
+    klineClose: (event: KlineEvent) => void;
+    markPrice: (data: MarkPriceData[]) => void;
+    open: () => void;
+    reconnect: (attempt: number) => void;
+    error: (error: Error) => void;
+}
+
+interface KlineSubscription {
+    symbol: string;
+    interval: string;
+    lastClosedOpenTime?: number;
+}
+
+export declare interface BinanceMarketStream {
+    on<E extends keyof MarketStreamEvents>(event: E, listener: MarketStreamEvents[E]): this;
+    once<E extends keyof MarketStreamEvents>(event: E, listener: MarketStreamEvents[E]): this;
+    off<E extends keyof MarketStreamEvents>(event: E, listener: MarketStreamEvents[E]): this;
+    emit<E extends keyof MarketStreamEvents>(event: E, ...args: Parameters<MarketStreamEvents[E]>): boolean;
+}
+
+/**
+ * Futures combined-stream client with reconnect, rotation, resubscription and REST gap backfill
+ */
+export class BinanceMarketStream extends EventEmitter {
+    private readonly baseURL: string;
+    private readonly restClient?: MarketStreamRestClient;
+    private readonly reconnectDelay: number;
+    private readonly maxReconnectDelay: number;
+    private readonly rotationInterval: number;
+
+    private socket: WebSocket | null = null;
+    private streams: Set<string> = new Set();
+    private klineSubscriptions: Map<string, KlineSubscription> = new Map();
+    private requestId = 0;
+    private reconnectAttempts = 0;
+    private hasConnected = false;
+    private stopped = true;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private rotationTimer: NodeJS.Timeout | null = null;
+    private pendingConnect: { promise: Promise<void>; resolve: () => void; reject: (error: Error) => void } | null = null;
+
+    constructor(options: MarketStreamOptions = {}) {
+        super();
+        this.baseURL = options.baseURL || 'wss://fstream.binance.com';
+        this.restClient = options.restClient;
+        this.reconnectDelay = options.reconnectDelay ?? 1000;
+        this.maxReconnectDelay = options.maxReconnectDelay ?? 30000;
+        this.rotationInterval = options.rotationInterval ?? DEFAULT_ROTATION_INTERVAL;
+    }
+
+    /**
+     * Subscribe to all-market 24hr tickers
+     */
+    subscribeTickers(): void {
+        this.subscribe([TICKER_STREAM]);
+    }
+
+    /**
+     * Subscribe to all-market mark price / funding updates
+     */
+    subscribeMarkPrice(): void {
+        this.subscribe([MARK_PRICE_STREAM]);
+    }
+
+    /**
+     * Subscribe to klines of a symbol
+     */
+    subscribeKlines(symbol: string, interval: string): void {
+        const stream = this.getKlineStreamName(symbol, interval);
+        if (!this.klineSubscriptions.has(stream)) {
+            this.klineSubscriptions.set(stream, { symbol: symbol.toUpperCase(), interval });
+        }
+        this.subscribe([stream]);
+    }
+
+    /**
+     * Unsubscribe from klines of a symbol
+     */
+    unsubscribeKlines(symbol: string, interval: string): void {
+        const stream = this.getKlineStreamName(symbol, interval);
+        this.klineSubscriptions.delete(stream);
+        this.unsubscribe([stream]);
+    }
+
+    /**
+     * Whether klines of a symbol are subscribed
+     */
+    isSubscribedToKlines(symbol: string, interval: string): boolean {
+        return this.klineSubscriptions.has(this.getKlineStreamName(symbol, interval));
+    }
+
+    /**
+     * Open the connection; resolves once a socket is open. Failed attempts are reported as 'error'
+     * events and retried with the same backoff as a dropped connection. Rejects only when
+     * disconnect() is called before any attempt succeeds.
+     */
+    connect(): Promise<void> {
+        if (this.isConnected()) return Promise.resolve();
+        if (this.pendingConnect) return this.pendingConnect.promise;
+
+        this.stopped = false;
+        let resolve!: () => void;
+        let reject!: (error: Error) => void;
+        const promise = new Promise<void>((onOpen, onStop) => {
+            resolve = onOpen;
+            reject = onStop;
+        });
+        this.pendingConnect = { promise, resolve, reject };
+        this.openConnection();
+        return promise;
+    }
+
+    /**
+     * Close the connection and stop reconnecting
+     */
+    disconnect(): void {
+        this.stopped = true;
+        this.clearTimers();
+        if (this.pendingConnect) {
+            const { reject } = this.pendingConnect;
+            this.pendingConnect = null;
+            reject(new Error('Market stream disconnected before connecting'));
+        }
+        if (this.socket) {
+            const socket = this.socket;
+            this.socket = null;
+            socket.close();
+        }
+    }
+
+    /**
+     * Whether the socket is currently open
+     */
+    isConnected(): boolean {
+        return this.socket !== null && this.socket.readyState === WebSocket.OPEN;
+    }
+
+    /**
+     * Get the list of active stream names
+     */
+    getSubscriptions(): string[] {
+        return Array.from(this.streams);
+    }
+
+    private subscribe(streams: string[]): void {
+        const added = streams.filter(stream => !this.streams.has(stream));
+        added.forEach(stream => this.streams.add(stream));
+        if (added.length > 0 && this.socket && this.isConnected()) {
+            this.send(this.socket, 'SUBSCRIBE', added);
+        }
+    }
+
+    private unsubscribe(streams: string[]): void {
+        const removed = streams.filter(stream => this.streams.delete(stream));
+        if (removed.length > 0 && this.socket && this.isConnected()) {
+            this.send(this.socket, 'UNSUBSCRIBE', removed);
+        }
+    }
+
+    private openSocket(): WebSocket {
+        const socket = new WebSocket(`${this.baseURL}/stream`);
+
+        socket.on('open', () => {
+            if (this.stopped) {
+                socket.close();
+                return;
+            }
+
+            const previous = this.socket;
+            const isReconnect = this.hasConnected;
+            this.socket = socket;
+            this.hasConnected = true;
+            this.reconnectAttempts = 0;
+
+            // Resubscribe everything on the new connection before retiring the old one
+            if (this.streams.size > 0) {
+                this.send(socket, 'SUBSCRIBE', Array.from(this.streams));
+            }
+            if (previous && previous !== socket) {
+                previous.close();
+            }
+
+            this.scheduleRotation();
+            if (this.pendingConnect) {
+                this.pendingConnect.resolve();
+                this.pendingConnect = null;
+            }
+            this.emit('open');
+
+            // Also after a rotation, in case a candle closed while switching connections
+            if (isReconnect) {
+                this.backfill().catch(error => this.reportError(error as Error));
+            }
+        });
+
+        socket.on('message', (raw: WebSocket.RawData) => {
+            if (socket !== this.socket) return;
+            this.handleMessage(raw.toString());
+        });
+
+        socket.on('close', () => {
+            if (socket !== this.socket) return; // A rotated-out connection
+            this.socket = null;
+            if (!this.stopped) {
+                this.scheduleReconnect();
+            }
+        });
+
+        socket.on('error', (error: Error) => this.reportError(error));
+
+        return socket;
+    }
+
+    private scheduleReconnect(): void {
+        if (this.reconnectTimer) return;
+
+        const delay = Math.min(this.reconnectDelay * Math.pow(2, this.reconnectAttempts), this.maxReconnectDelay);
+        this.reconnectAttempts++;
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            if (this.stopped) return;
+            this.emit('reconnect', this.reconnectAttempts);
+            this.openConnection();
+        }, delay);
+    }
+
+    /**
+     * Open a socket that retries with backoff if it fails before opening (initial connect and reconnects)
+     */
+    private openConnection(): void {
+        const socket = this.openSocket();
+        socket.once('error', () => {
+            // A failed attempt never opens, so its close handler cannot retry
+            if (this.socket !== socket && !this.stopped) {
+                this.scheduleReconnect();
+            }
+        });
+    }
+
+    private scheduleRotation(delay: number = this.rotationInterval): void {
+        if (this.rotationTimer) {
+            clearTimeout(this.rotationTimer);
+        }
+        this.rotationTimer = setTimeout(() => {
+            this.rotationTimer = null;
+            if (this.stopped) return;
+
+            // The current connection stays in use until the replacement is open
+            const socket = this.openSocket();
+            socket.once('error', () => {
+                if (this.socket !== socket && !this.stopped) {
+                    this.scheduleRotation(this.maxReconnectDelay);
+                }
+            });
+        }, delay);
+    }
+
+    private clearTimers(): void {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        if (this.rotationTimer) {
+            clearTimeout(this.rotationTimer);
+            this.rotationTimer = null;
+        }
+    }
+
+    private reportError(error: Error): void {
+        // EventEmitter throws on unhandled 'error' events
+        if (this.listenerCount('error') > 0) {
+            this.emit('error', error);
+        }
+    }
+
+    private send(socket: WebSocket, method: 'SUBSCRIBE' | 'UNSUBSCRIBE', params: string[]): void {
+        socket.send(JSON.stringify({ method, params, id: ++this.requestId }));
+    }
+
+    /**
+     * Recover data missed while disconnected via REST. Each request fails on its own: an error is
+     * reported and the remaining subscriptions are still backfilled.
+     */
+    private async backfill(): Promise<void> {
+        if (!this.restClient) return;
+        const restClient = this.restClient;
+
+        if (this.streams.has(TICKER_STREAM)) {
+            try {
+                this.emit('ticker', await restClient.getAll24hrTickers());
+            } catch (error) {
+                this.reportError(new Error(`Ticker backfill failed: ${(error as Error).message}`));
+            }
+        }
+
+        const now = Date.now();
+        for (const subscription of Array.from(this.klineSubscriptions.values())) {
+            const lastClosedOpenTime = subscription.lastClosedOpenTime;
+            if (lastClosedOpenTime === undefined) continue;
+
+            const intervalMs = intervalToMs(subscription.interval);
+            const missing = Math.ceil((now - lastClosedOpenTime) / intervalMs) + 1;
+            let klines: Kline[];
+            try {
+                klines = missing <= MAX_BACKFILL_KLINES
+                    ? await restClient.getKlines(subscription.symbol, subscription.interval, missing)
+                    : await restClient.getKlineHistory({
+                        symbol: subscription.symbol,
+                        interval: subscription.interval,
+                        startTime: lastClosedOpenTime + intervalMs,
+                        endTime: now
+                    });
+            } catch (error) {
+                this.reportError(new Error(
+                    `Kline backfill failed for ${subscription.symbol} ${subscription.interval}: ${(error as Error).message}`
+                ));
+                continue;
+            }
+
+            for (const kline of klines) {
+                const isClosed = kline.date + intervalMs <= now;
+                if (!isClosed || kline.date <= (subscription.lastClosedOpenTime ?? 0)) continue;
+
+                subscription.lastClosedOpenTime = kline.date;
+                this.emit('klineClose', {
+                    symbol: subscription.symbol,
+                    interval: subscription.interval,
+                    kline,
+                    isClosed: true,
+                    backfilled: true
+                });
+            }
+        }
+    }
+
+    private handleMessage(message: string): void {
+        let payload: any;
+        try {
+            payload = JSON.parse(message);
+        } catch (error) {
+            this.reportError(new Error(`Invalid stream message: ${message}`));
+            return;
+        }
+
+        // Responses to SUBSCRIBE / UNSUBSCRIBE requests
+        if (!payload || payload.stream === undefined) return;
+
+        const { stream, data } = payload;
+        if (stream === TICKER_STREAM) {
+            this.emit('ticker', (data as any[]).map(ticker => this.parseTicker(ticker)));
+        } else if (stream.startsWith('!markPrice@arr')) {
+            this.emit('markPrice', (data as any[]).map(item => this.parseMarkPrice(item)));
+        } else if (data?.e === 'kline') {
+            this.handleKline(stream, data);
+        }
+    }
+
+    private handleKline(stream: string, data: any): void {
+        const k = data.k;
+        const event: KlineEvent = {
+            symbol: data.s,
+            interval: k.i,
+            kline: {
+                date: k.t,
+                open: parseFloat(k.o),
+                high: parseFloat(k.h),
+                low: parseFloat(k.l),
+                close: parseFloat(k.c),
+                volume: parseFloat(k.v),
+                closeTime: k.T,
+                quoteVolume: parseFloat(k.q),
+                trades: k.n,
+                takerBuyBaseVolume: parseFloat(k.V),
+                takerBuyQuoteVolume: parseFloat(k.Q)
+            },
+            isClosed: k.x === true,
+            backfilled: false
+        };
+
+        this.emit('kline', event);
+
+        if (event.isClosed) {
+            const subscription = this.klineSubscriptions.get(stream);
+            if (subscription) {
+                subscription.lastClosedOpenTime = event.kline.date;
+            }
+            this.emit('klineClose', event);
+        }
+    }
+
+    private parseTicker(data: any): PriceData {
+        return {
+            symbol: data.s,
+            price: parseFloat(data.c),
+            priceChangePercent: parseFloat(data.P),
+            quoteVolume: parseFloat(data.q),
+            timestamp: data.E
+        };
+    }
+
+    private parseMarkPrice(data: any): MarkPriceData {
+        return {
+            symbol: data.s,
+            markPrice: parseFloat(data.p),
+            indexPrice: parseFloat(data.i),
+            estimatedSettlePrice: parseFloat(data.P),
+            fundingRate: parseFloat(data.r),
+            nextFundingTime: data.T,
+            timestamp: data.E
+        };
+    }
+
+    private getKlineStreamName(symbol: string, interval: string): string {
+        return `${symbol.toLowerCase()}@kline_${interval}`;
+    }
+}
@@ -0,0 +1,165 @@
+// src/binance/rateLimiter.ts
+
+const MINUTE_MS = 60 * 1000;
+
+export interface RateLimitUsage {
+    usedWeight: number;         // Weight used in the current minute (local estimate or server-reported)
+    weightLimit: number;        // Server limit per minute
+    budget: number;             // Weight this client allows itself per minute
+    queued: number;             // Requests waiting for budget
+    pausedUntil: number | null; // Set after 429 / 418 responses
+}
+
+export interface RateLimiterOptions {
+    weightLimit?: number;       // Default 2400 (USDⓈ-M futures REQUEST_WEIGHT per minute)
+    safetyMargin?: number;      // Fraction of the limit to use, default 0.9
+    now?: () => number;         // Clock and timer, replaceable in tests
+    sleep?: (ms: number) => Promise<void>;
+}
+
+type WeightRule = (params: URLSearchParams) => number;
+
+/**
+ * Request weight of each REST endpoint
+ * https://developers.binance.com/docs/derivatives/usds-margined-futures/market-data/rest-api
+ */
+const ENDPOINT_WEIGHTS: Record<string, WeightRule> = {
+    '/fapi/v1/klines': params => {
+        const limit = parseInt(params.get('limit') || '500', 10);
+        if (limit < 100) return 1;
+        if (limit < 500) return 2;
+        if (limit <= 1000) return 5;
+        return 10;
+    },
+    '/fapi/v1/ticker/24hr': params => (params.has('symbol') ? 1 : 40),
+    '/fapi/v1/exchangeInfo': () => 1,
+    '/fapi/v1/depth': params => {
+        const limit = parseInt(params.get('limit') || '500', 10);
+        if (limit <= 50) return 2;
+        if (limit <= 100) return 5;
+        if (limit <= 500) return 10;
+        return 20;
+    },
+    // futures/data endpoints are additionally capped at 1000 requests / 5 min per IP
+    '/futures/data/openInterestHist': () => 1,
+    '/futures/data/globalLongShortAccountRatio': () => 1,
+    '/futures/data/topLongShortPositionRatio': () => 1,
+    '/futures/data/takerlongshortRatio': () => 1,
+    '/futures/data/takerBuySellVol': () => 1,
+    '/fapi/v1/premiumIndex': params => (params.has('symbol') ? 1 : 10),
+    // Shares a separate 500 requests / 5 min per IP limit
+    '/fapi/v1/fundingRate': () => 1
+};
+
+/**
+ * Get the request weight of a REST URL.
+ * COIN-M (/dapi/v1) market data endpoints carry the same weights as their USDⓈ-M counterparts.
+ */
+export function getEndpointWeight(url: string): number {
+    const parsed = new URL(url);
+    const rule = ENDPOINT_WEIGHTS[parsed.pathname.replace(/^\/dapi\//, '/fapi/')];
+    return rule ? rule(parsed.searchParams) : 1;
+}
+
+/**
+ * Queues requests so the weight used per minute stays under budget.
+ * Local accounting is corrected with the server-reported X-MBX-USED-WEIGHT-1M header.
+ */
+export class RequestWeightLimiter {
+    private readonly weightLimit: number;
+    private readonly budget: number;
+    private usedWeight = 0;
+    private windowStart = 0;
+    private pausedUntil = 0;
+    private queued = 0;
+    private queue: Promise<void> = Promise.resolve();
+    private readonly now: () => number;
+    private readonly sleep: (ms: number) => Promise<void>;
+
+    constructor(options: RateLimiterOptions = {}) {
+        this.weightLimit = options.weightLimit ?? 2400;
+        this.budget = Math.floor(this.weightLimit * (options.safetyMargin ?? 0.9));
+        this.now = options.now || Date.now;
+        this.sleep = options.sleep || (ms => new Promise(resolve => setTimeout(resolve, ms)));
+    }
+
+    /**
+     * Wait until the request weight fits in the current minute, then reserve it
+     */
+    async acquire(weight: number): Promise<void> {
+        this.queued++;
+        const turn = this.queue.then(() => this.waitForBudget(weight));
+        this.queue = turn.catch(() => undefined);
+        try {
+            await turn;
+        } finally {
+            this.queued--;
+        }
+    }
+
+    /**
+     * Sync usage with the weight reported by the server
+     */
+    updateFromHeaders(headers: { get(name: string): string | null }): void {
+        const header = headers.get('x-mbx-used-weight-1m');
+        if (!header) return;
+
+        const reported = parseInt(header, 10);
+        if (isNaN(reported)) return;
+
+        this.rollWindow(this.now());
+        // In-flight requests may not be included in the server count yet
+        this.usedWeight = Math.max(this.usedWeight, reported);
+    }
+
+    /**
+     * Stop sending requests for the given duration (Retry-After / IP ban)
+     */
+    pause(ms: number): void {
+        this.pausedUntil = Math.max(this.pausedUntil, this.now() + ms);
+    }
+
+    /**
+     * Get current usage
+     */
+    getUsage(): RateLimitUsage {
+        this.rollWindow(this.now());
+        return {
+            usedWeight: this.usedWeight,
+            weightLimit: this.weightLimit,
+            budget: this.budget,
+            queued: this.queued,
+            pausedUntil: this.pausedUntil > this.now() ? this.pausedUntil : null
+        };
+    }
+
+    private async waitForBudget(weight: number): Promise<void> {
+        while (true) {
+            const now = this.now();
+            if (now < this.pausedUntil) {
+                await this.sleep(this.pausedUntil - now);
+                continue;
+            }
+
+            this.rollWindow(now);
+            // A single request heavier than the budget still goes through on an empty window
+            if (this.usedWeight + weight <= this.budget || this.usedWeight === 0) {
+                this.usedWeight += weight;
+                return;
+            }
+
+            await this.sleep(this.windowStart + MINUTE_MS - now);
+        }
+    }
+
+    /**
+     * Server weight counters reset at the start of every minute
+     */
+    private rollWindow(now: number): void {
+        const currentWindow = Math.floor(now / MINUTE_MS) * MINUTE_MS;
+        if (currentWindow !== this.windowStart) {
+            this.windowStart = currentWindow;
+            this.usedWeight = 0;
+        }
+    }
+}
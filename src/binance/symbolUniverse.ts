@@ -0,0 +1,111 @@
+// src/binance/symbolUniverse.ts
+import { ExchangeSymbolInfo } from './types';
+import { ExchangeClient } from '../exchanges/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SymbolUniverseOptions {
+    quoteAsset?: string;            // Default USDT
+    contractTypes?: string[];       // Default ['PERPETUAL']
+    cacheTtlMs?: number;            // How long exchangeInfo is reused, default 1 hour
+    newListingDays?: number;        // Contracts onboarded within this many days are new listings, default 14
+    now?: () => number;
+}
+
+/**
+ * Decimal places implied by a tick or step size (0.001 -> 3, 0.5 -> 1, 10 -> 0)
+ */
+export function decimalsForStep(step: number): number {
+    if (!step || step >= 1) return 0;
+    return Math.max(0, Math.ceil(-Math.log10(step) - 1e-9));
+}
+
+/**
+ * Round a price to the contract tick size and format it with the matching precision
+ */
+export function formatPrice(price: number, tickSize: number): string {
+    if (!tickSize) return price.toString();
+    const rounded = Math.round(price / tickSize) * tickSize;
+    return rounded.toFixed(decimalsForStep(tickSize));
+}
+
+/**
+ * Tradable contracts from exchangeInfo, cached between scans
+ */
+export class SymbolUniverse {
+    private readonly client: Pick<ExchangeClient, 'getExchangeInfo'>;
+    private readonly quoteAsset: string;
+    private readonly contractTypes: string[];
+    private readonly cacheTtlMs: number;
+    private readonly newListingMs: number;
+    private readonly now: () => number;
+    private symbols: Map<string, ExchangeSymbolInfo> = new Map();
+    private fetchedAt = 0;
+
+    constructor(client: Pick<ExchangeClient, 'getExchangeInfo'>, options: SymbolUniverseOptions = {}) {
+        this.client = client;
+        this.quoteAsset = options.quoteAsset ?? 'USDT';
+        this.contractTypes = options.contractTypes ?? ['PERPETUAL'];
+        this.cacheTtlMs = options.cacheTtlMs ?? 60 * 60 * 1000;
+        this.newListingMs = (options.newListingDays ?? 14) * DAY_MS;
+        this.now = options.now || Date.now;
+    }
+
+    /**
+     * Reload exchangeInfo when the cache is empty or expired
+     */
+    async refresh(force: boolean = false): Promise<void> {
+        if (!force && this.symbols.size > 0 && this.now() - this.fetchedAt < this.cacheTtlMs) {
+            return;
+        }
+
+        const info = await this.client.getExchangeInfo();
+        this.symbols = new Map(info.symbols.map(item => [item.symbol, item]));
+        this.fetchedAt = this.now();
+    }
+
+    /**
+     * Contracts of the configured type and quote asset that are currently trading
+     */
+    getTradableSymbols(): ExchangeSymbolInfo[] {
+        return Array.from(this.symbols.values()).filter(item => this.isTradableInfo(item));
+    }
+
+    isTradable(symbol: string): boolean {
+        const info = this.symbols.get(symbol);
+        return info !== undefined && this.isTradableInfo(info);
+    }
+
+    getSymbolInfo(symbol: string): ExchangeSymbolInfo | undefined {
+        return this.symbols.get(symbol);
+    }
+
+    /**
+     * Days since the contract was onboarded
+     */
+    getListingAgeDays(symbol: string): number | undefined {
+        const info = this.symbols.get(symbol);
+        if (!info?.onboardDate) return undefined;
+        return Math.floor((this.now() - info.onboardDate) / DAY_MS);
+    }
+
+    isNewListing(symbol: string): boolean {
+        const info = this.symbols.get(symbol);
+        if (!info?.onboardDate) return false;
+        return this.now() - info.onboardDate < this.newListingMs;
+    }
+
+    /**
+     * Format a price with the symbol's tick size (falls back to the raw number for unknown symbols)
+     */
+    formatPrice(symbol: string, price: number): string {
+        const info = this.symbols.get(symbol);
+        return info ? formatPrice(price, info.tickSize) : price.toString();
+    }
+
+    private isTradableInfo(info: ExchangeSymbolInfo): boolean {
+        return info.status === 'TRADING'
+            && info.quoteAsset === this.quoteAsset
+            && this.contractTypes.includes(info.contractType);
+    }
+}
@@ -1,8 +1,7 @@
 // src/binance/types.ts
 
 export interface OpenInterestStatisticsParams {
-    symbol: string;           // e.g., "BTCUSD" - note: uses 'pair' not 'symbol'
-    // contractType: string;   // "ALL", "CURRENT_QUARTER", "NEXT_QUARTER", "PERPETUAL"
+    symbol: string;           // e.g., "BTCUSDT"; COIN-M symbols ("BTCUSD_PERP") are resolved to pair + contractType
     period: string;         // "5m", "15m", "30m", "1h", "2h", "4h", "6h", "12h", "1d"
     startTime?: number;
     endTime?: number;
@@ -26,10 +25,101 @@ export interface PriceData {
 }
 
 export interface Kline {
-    date: number;
+    date: number;                   // Open time
     open: number;
     high: number;
     low: number;
     close: number;
-    volume: number;
-}
\ No newline at end of file
+    volume: number;                 // Base asset volume
+    closeTime?: number;
+    quoteVolume?: number;
+    trades?: number;
+    takerBuyBaseVolume?: number;
+    takerBuyQuoteVolume?: number;
+}
+
+export interface KlineHistoryParams {
+    symbol: string;
+    interval: string;
+    startTime: number;
+    endTime?: number;               // Defaults to now
+}
+
+export interface MarkPriceData {
+    symbol: string;
+    markPrice: number;
+    indexPrice: number;
+    estimatedSettlePrice: number;
+    fundingRate: number;        // 当前预测资金费率
+    nextFundingTime: number;
+    timestamp: number;
+}
+
+export interface FundingRateParams {
+    symbol: string;
+    startTime?: number;
+    endTime?: number;
+    limit?: number;         // Default 100, Max 1000
+}
+
+export interface FundingRateData {
+    symbol: string;
+    fundingRate: number;    // 已结算资金费率 (0.0001 = 0.01%)
+    fundingTime: number;
+    markPrice?: number;
+}
+
+// Same query shape for every /futures/data statistics endpoint
+export type FuturesDataParams = OpenInterestStatisticsParams;
+
+export interface LongShortRatioData {
+    symbol: string;
+    longShortRatio: number;
+    longShare: number;      // 多头账户(或持仓)占比 0-1
+    shortShare: number;     // 空头账户(或持仓)占比 0-1
+    timestamp: number;
+}
+
+export interface TakerVolumeData {
+    buySellRatio: number;   // 主动买入量 / 主动卖出量
+    buyVolume: number;
+    sellVolume: number;
+    timestamp: number;
+}
+
+export interface OrderBookLevel {
+    price: number;
+    quantity: number;
+}
+
+export interface OrderBookDepth {
+    symbol: string;
+    lastUpdateId: number;
+    bids: OrderBookLevel[];     // Best bid first
+    asks: OrderBookLevel[];     // Best ask first
+    timestamp: number;          // Transaction time
+}
+
+export interface ExchangeSymbolInfo {
+    symbol: string;
+    pair: string;
+    contractType: string;       // PERPETUAL, CURRENT_QUARTER, NEXT_QUARTER, ...
+    status: string;             // TRADING, SETTLING, PENDING_TRADING, ...
+    baseAsset: string;
+    quoteAsset: string;
+    marginAsset: string;
+    pricePrecision: number;
+    quantityPrecision: number;
+    onboardDate: number;
+    deliveryDate: number;
+    tickSize: number;           // PRICE_FILTER
+    stepSize: number;           // LOT_SIZE
+    minQty: number;             // LOT_SIZE
+    minNotional: number;        // MIN_NOTIONAL
+    contractSize?: number;      // COIN-M only: USD value of one contract
+}
+
+export interface ExchangeInfo {
+    serverTime: number;
+    symbols: ExchangeSymbolInfo[];
+}
@@ -0,0 +1,259 @@
+// src/exchanges/bybitClient.ts
+import {
+    ExchangeInfo,
+    FundingRateData,
+    FundingRateParams,
+    Kline,
+    MarkPriceData,
+    OpenInterestData,
+    OpenInterestStatisticsParams,
+    OrderBookDepth,
+    PriceData
+} from '../binance/types';
+import { intervalToMs } from '../binance/intervals';
+import { decimalsForStep } from '../binance/symbolUniverse';
+import { FetchTransport } from '../transport/fetchTransport';
+import { HttpTransport } from '../transport/types';
+import { fetchJsonWithRetry } from './http';
+import { ExchangeClient } from './types';
+
+const KLINE_INTERVALS: Record<string, string> = {
+    '1m': '1', '3m': '3', '5m': '5', '15m': '15', '30m': '30',
+    '1h': '60', '2h': '120', '4h': '240', '6h': '360', '12h': '720',
+    '1d': 'D', '1w': 'W', '1M': 'M'
+};
+
+// Bybit open interest buckets by period. There are no 2h/6h/12h buckets: a shorter bucket that divides
+// the period is fetched and every n-th point kept
+const OPEN_INTEREST_INTERVALS: Record<string, { intervalTime: string; bucket: string }> = {
+    '5m': { intervalTime: '5min', bucket: '5m' },
+    '15m': { intervalTime: '15min', bucket: '15m' },
+    '30m': { intervalTime: '30min', bucket: '30m' },
+    '1h': { intervalTime: '1h', bucket: '1h' },
+    '2h': { intervalTime: '1h', bucket: '1h' },
+    '4h': { intervalTime: '4h', bucket: '4h' },
+    '6h': { intervalTime: '1h', bucket: '1h' },
+    '12h': { intervalTime: '4h', bucket: '4h' },
+    '1d': { intervalTime: '1d', bucket: '1d' }
+};
+
+const INSTRUMENT_STATUS: Record<string, string> = {
+    Trading: 'TRADING',
+    PreLaunch: 'PENDING_TRADING',
+    Delivering: 'SETTLING',
+    Closed: 'CLOSE'
+};
+
+export interface BybitClientOptions {
+    transport?: HttpTransport;  // Defaults to a direct FetchTransport (no proxy)
+    baseURL?: string;           // Defaults to https://api.bybit.com
+}
+
+/**
+ * Bybit v5 USDT perpetual (category=linear) market data
+ * https://bybit-exchange.github.io/docs/v5/market/tickers
+ */
+export class BybitClient implements ExchangeClient {
+    readonly exchange = 'bybit' as const;
+    private baseURL = 'https://api.bybit.com';
+    private readonly transport: HttpTransport;
+
+    constructor(options: BybitClientOptions = {}) {
+        this.transport = options.transport || new FetchTransport();
+        if (options.baseURL) {
+            this.baseURL = options.baseURL.replace(/\/+$/, '');
+        }
+    }
+
+    async getAll24hrTickers(): Promise<PriceData[]> {
+        const { result, time } = await this.get('/v5/market/tickers', {});
+        return result.list.map((item: any) => this.toPriceData(item, time));
+    }
+
+    async get24hrTicker(symbol: string): Promise<PriceData> {
+        const { result, time } = await this.get('/v5/market/tickers', { symbol });
+        return this.toPriceData(result.list[0], time);
+    }
+
+    async getKlines(symbol: string, interval: string = '15m', limit: number = 200): Promise<Kline[]> {
+        const bybitInterval = KLINE_INTERVALS[interval];
+        if (!bybitInterval) {
+            throw new Error(`Unsupported Bybit kline interval: ${interval}`);
+        }
+
+        const { result } = await this.get('/v5/market/kline', {
+            symbol,
+            interval: bybitInterval,
+            limit: Math.min(limit, 1000)
+        });
+
+        // Newest first: [startTime, open, high, low, close, volume, turnover]
+        return result.list
+            .map((row: string[]) => ({
+                date: parseInt(row[0], 10),
+                open: parseFloat(row[1]),
+                high: parseFloat(row[2]),
+                low: parseFloat(row[3]),
+                close: parseFloat(row[4]),
+                volume: parseFloat(row[5]),
+                quoteVolume: parseFloat(row[6])
+            }))
+            .reverse();
+    }
+
+    /**
+     * Bybit reports open interest in base coin only. Every point is valued at the current mark price,
+     * so sumOpenInterestValue is only exact for the latest point and approximate for older ones.
+     */
+    async getOpenInterestStatistics(params: OpenInterestStatisticsParams): Promise<OpenInterestData[]> {
+        const bucket = OPEN_INTEREST_INTERVALS[params.period];
+        if (!bucket) {
+            throw new Error(`Unsupported Bybit open interest period: ${params.period}`);
+        }
+        const limit = params.limit ?? 30;
+        // Buckets per requested period, so the same number of periods covers the same time span
+        const step = intervalToMs(params.period) / intervalToMs(bucket.bucket);
+
+        const [{ result }, ticker] = await Promise.all([
+            this.get('/v5/market/open-interest', {
+                symbol: params.symbol,
+                intervalTime: bucket.intervalTime,
+                limit: Math.min(limit * step, 200),
+                startTime: params.startTime,
+                endTime: params.endTime
+            }),
+            this.get('/v5/market/tickers', { symbol: params.symbol })
+        ]);
+        const markPrice = parseFloat(ticker.result.list[0].markPrice);
+
+        // Newest first: keep the latest point and every step-th one before it
+        return result.list
+            .filter((_: any, i: number) => i % step === 0)
+            .slice(0, limit)
+            .map((item: any) => ({
+                symbol: params.symbol,
+                sumOpenInterest: item.openInterest,
+                sumOpenInterestValue: (parseFloat(item.openInterest) * markPrice).toString(),
+                timestamp: parseInt(item.timestamp, 10)
+            }))
+            .reverse();
+    }
+
+    async getPremiumIndex(symbol: string): Promise<MarkPriceData> {
+        const { result, time } = await this.get('/v5/market/tickers', { symbol });
+        const item = result.list[0];
+        const markPrice = parseFloat(item.markPrice);
+
+        return {
+            symbol: item.symbol,
+            markPrice,
+            indexPrice: parseFloat(item.indexPrice),
+            estimatedSettlePrice: markPrice, // Not published for perpetuals
+            fundingRate: parseFloat(item.fundingRate),
+            nextFundingTime: parseInt(item.nextFundingTime, 10),
+            timestamp: time
+        };
+    }
+
+    async getFundingRateHistory(params: FundingRateParams): Promise<FundingRateData[]> {
+        const { result } = await this.get('/v5/market/funding/history', {
+            symbol: params.symbol,
+            limit: Math.min(params.limit ?? 100, 200),
+            startTime: params.startTime,
+            endTime: params.endTime
+        });
+
+        return result.list
+            .map((item: any) => ({
+                symbol: item.symbol,
+                fundingRate: parseFloat(item.fundingRate),
+                fundingTime: parseInt(item.fundingRateTimestamp, 10)
+            }))
+            .reverse();
+    }
+
+    async getDepth(symbol: string, limit: number = 100): Promise<OrderBookDepth> {
+        const { result } = await this.get('/v5/market/orderbook', { symbol, limit: Math.min(limit, 500) });
+        const toLevels = (levels: [string, string][]) => levels.map(([price, quantity]) => ({
+            price: parseFloat(price),
+            quantity: parseFloat(quantity)
+        }));
+
+        return {
+            symbol,
+            lastUpdateId: result.u,
+            bids: toLevels(result.b),
+            asks: toLevels(result.a),
+            timestamp: result.ts
+        };
+    }
+
+    async getExchangeInfo(): Promise<ExchangeInfo> {
+        const instruments: any[] = [];
+        let cursor: string | undefined;
+        let serverTime = 0;
+
+        do {
+            const page = await this.get('/v5/market/instruments-info', { limit: 1000, cursor });
+            instruments.push(...page.result.list);
+            serverTime = page.time;
+            cursor = page.result.nextPageCursor || undefined;
+        } while (cursor);
+
+        return {
+            serverTime,
+            symbols: instruments.map(item => {
+                const stepSize = parseFloat(item.lotSizeFilter?.qtyStep ?? '0');
+                return {
+                    symbol: item.symbol,
+                    pair: `${item.baseCoin}${item.quoteCoin}`,
+                    contractType: item.contractType === 'LinearPerpetual' ? 'PERPETUAL' : 'DELIVERY',
+                    status: INSTRUMENT_STATUS[item.status] || item.status,
+                    baseAsset: item.baseCoin,
+                    quoteAsset: item.quoteCoin,
+                    marginAsset: item.settleCoin,
+                    pricePrecision: parseInt(item.priceScale, 10),
+                    quantityPrecision: decimalsForStep(stepSize),
+                    onboardDate: parseInt(item.launchTime, 10),
+                    deliveryDate: parseInt(item.deliveryTime, 10),
+                    tickSize: parseFloat(item.priceFilter?.tickSize ?? '0'),
+                    stepSize,
+                    minQty: parseFloat(item.lotSizeFilter?.minOrderQty ?? '0'),
+                    minNotional: parseFloat(item.lotSizeFilter?.minNotionalValue ?? '0')
+                };
+            })
+        };
+    }
+
+    private toPriceData(item: any, time: number): PriceData {
+        return {
+            symbol: item.symbol,
+            price: parseFloat(item.lastPrice),
+            priceChangePercent: parseFloat(item.price24hPcnt) * 100, // Bybit reports a fraction
+            quoteVolume: parseFloat(item.turnover24h),
+            timestamp: time
+        };
+    }
+
+    /**
+     * GET a linear-category endpoint; Bybit reports errors with HTTP 200 and a non-zero retCode
+     */
+    private async get(path: string, params: Record<string, string | number | undefined>): Promise<{ result: any; time: number }> {
+        const query = new URLSearchParams({ category: 'linear' });
+        for (const [key, value] of Object.entries(params)) {
+            if (value !== undefined) query.append(key, value.toString());
+        }
+        const url = `${this.baseURL}${path}?${query}`;
+
+        try {
+            const data = await fetchJsonWithRetry(this.transport, url);
+            if (data.retCode !== 0) {
+                throw new Error(`Bybit API error ${data.retCode}: ${data.retMsg}`);
+            }
+            return { result: data.result, time: data.time };
+        } catch (error) {
+            console.error(`Failed to fetch Bybit ${path}:`, error);
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,67 @@
+// src/exchanges/crossVenue.ts
+import { ExchangeClient, ExchangeId } from './types';
+
+export interface VenueQuote {
+    exchange: ExchangeId;
+    price: number;
+    markPrice: number;
+    fundingRate: number;
+    quoteVolume: number;
+    priceChangePercent: number;
+}
+
+export interface VenueComparison {
+    symbol: string;
+    quotes: VenueQuote[];
+    failed: ExchangeId[];               // Venues that did not answer or don't list the symbol
+    priceSpreadBps: number;             // (highest - lowest) / lowest last price
+    fundingSpread: number;              // Highest - lowest funding rate
+    volumeLeader?: ExchangeId;          // Venue with the largest 24h quote volume
+}
+
+/**
+ * Fetch the same symbol from several venues and measure how far they diverge
+ */
+export async function compareAcrossVenues(symbol: string, clients: ExchangeClient[]): Promise<VenueComparison> {
+    const results = await Promise.allSettled(clients.map(async client => {
+        const [ticker, premiumIndex] = await Promise.all([
+            client.get24hrTicker(symbol),
+            client.getPremiumIndex(symbol)
+        ]);
+        return {
+            exchange: client.exchange,
+            price: ticker.price,
+            markPrice: premiumIndex.markPrice,
+            fundingRate: premiumIndex.fundingRate,
+            quoteVolume: ticker.quoteVolume,
+            priceChangePercent: ticker.priceChangePercent
+        };
+    }));
+
+    const quotes: VenueQuote[] = [];
+    const failed: ExchangeId[] = [];
+    results.forEach((result, i) => {
+        if (result.status === 'fulfilled') {
+            quotes.push(result.value);
+        } else {
+            failed.push(clients[i].exchange);
+        }
+    });
+
+    if (quotes.length === 0) {
+        return { symbol, quotes, failed, priceSpreadBps: 0, fundingSpread: 0 };
+    }
+
+    const prices = quotes.map(quote => quote.price);
+    const fundingRates = quotes.map(quote => quote.fundingRate);
+    const lowest = Math.min(...prices);
+
+    return {
+        symbol,
+        quotes,
+        failed,
+        priceSpreadBps: lowest > 0 ? Number((((Math.max(...prices) - lowest) / lowest) * 10000).toFixed(2)) : 0,
+        fundingSpread: Number((Math.max(...fundingRates) - Math.min(...fundingRates)).toFixed(8)),
+        volumeLeader: quotes.reduce((leader, quote) => (quote.quoteVolume > leader.quoteVolume ? quote : leader)).exchange
+    };
+}
@@ -0,0 +1,38 @@
+// src/exchanges/factory.ts
+import { BinanceClient, BinanceMarket } from '../binance/client';
+import { KlineStore } from '../storage/klineStore';
+import { HttpTransport } from '../transport/types';
+import { BybitClient } from './bybitClient';
+import { OkxClient } from './okxClient';
+import { ExchangeClient, ExchangeId } from './types';
+
+export const SUPPORTED_EXCHANGES: ExchangeId[] = ['binance', 'bybit', 'okx'];
+
+export interface ExchangeClientOptions {
+    transport?: HttpTransport;
+    baseURL?: string;
+    klineStore?: KlineStore;    // Binance only
+    market?: BinanceMarket;     // Binance only: usdm (default) or coinm
+}
+
+/**
+ * Parse an exchange name from config or env (case-insensitive)
+ */
+export function parseExchangeId(value: string): ExchangeId {
+    const id = value.trim().toLowerCase() as ExchangeId;
+    if (!SUPPORTED_EXCHANGES.includes(id)) {
+        throw new Error(`Unsupported exchange "${value}", expected one of: ${SUPPORTED_EXCHANGES.join(', ')}`);
+    }
+    return id;
+}
+
+export function createExchangeClient(exchange: ExchangeId, options: ExchangeClientOptions = {}): ExchangeClient {
+    switch (exchange) {
+        case 'binance':
+            return new BinanceClient(options);
+        case 'bybit':
+            return new BybitClient({ transport: options.transport, baseURL: options.baseURL });
+        case 'okx':
+            return new OkxClient({ transport: options.transport, baseURL: options.baseURL });
+    }
+}
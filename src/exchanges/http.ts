@@ -0,0 +1,37 @@
+// src/exchanges/http.ts
+import { HttpResponse, HttpTransport } from '../transport/types';
+
+/**
+ * GET a JSON payload with linear backoff, for adapters without a weight limiter
+ */
+export async function fetchJsonWithRetry(
+    transport: HttpTransport,
+    url: string,
+    retries: number = 3,
+    delay: number = 1000
+): Promise<any> {
+    for (let i = 0; i < retries; i++) {
+        let response: HttpResponse;
+        try {
+            response = await transport.request({ url });
+        } catch (error) {
+            if (i === retries - 1) throw error;
+            await sleep(delay * (i + 1));
+            continue;
+        }
+
+        if (response.ok) return response.json();
+
+        if (i === retries - 1) {
+            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+        // Honour Retry-After on 429, otherwise back off linearly
+        const retryAfter = parseInt(response.headers.get('retry-after') || '', 10);
+        await sleep(response.status === 429 && !isNaN(retryAfter) ? retryAfter * 1000 : delay * (i + 1));
+    }
+    throw new Error('Max retries exceeded');
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
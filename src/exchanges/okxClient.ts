@@ -0,0 +1,295 @@
+// src/exchanges/okxClient.ts
+import {
+    ExchangeInfo,
+    FundingRateData,
+    FundingRateParams,
+    Kline,
+    MarkPriceData,
+    OpenInterestData,
+    OpenInterestStatisticsParams,
+    OrderBookDepth,
+    PriceData
+} from '../binance/types';
+import { decimalsForStep } from '../binance/symbolUniverse';
+import { FetchTransport } from '../transport/fetchTransport';
+import { HttpTransport } from '../transport/types';
+import { fetchJsonWithRetry } from './http';
+import { ExchangeClient } from './types';
+
+// Daily and longer bars use the UTC variants so candles line up with Binance
+const KLINE_BARS: Record<string, string> = {
+    '1m': '1m', '3m': '3m', '5m': '5m', '15m': '15m', '30m': '30m',
+    '1h': '1H', '2h': '2H', '4h': '4H', '6h': '6Hutc', '12h': '12Hutc',
+    '1d': '1Dutc', '1w': '1Wutc', '1M': '1Mutc'
+};
+
+const OPEN_INTEREST_PERIODS: Record<string, string> = {
+    '5m': '5m', '15m': '15m', '30m': '30m', '1h': '1H', '2h': '2H',
+    '4h': '4H', '6h': '6H', '12h': '12H', '1d': '1D'
+};
+
+const INSTRUMENT_STATUS: Record<string, string> = {
+    live: 'TRADING',
+    preopen: 'PENDING_TRADING',
+    suspend: 'BREAK'
+};
+
+const MAX_CANDLES_PER_REQUEST = 300;
+
+/**
+ * BTCUSDT -> BTC-USDT-SWAP
+ */
+export function toOkxInstId(symbol: string): string {
+    const match = symbol.match(/^(.+)(USDT|USDC)$/);
+    if (!match) {
+        throw new Error(`Unsupported OKX symbol: ${symbol}`);
+    }
+    return `${match[1]}-${match[2]}-SWAP`;
+}
+
+/**
+ * BTC-USDT-SWAP -> BTCUSDT
+ */
+export function fromOkxInstId(instId: string): string {
+    return instId.replace(/-SWAP$/, '').replace('-', '');
+}
+
+export interface OkxClientOptions {
+    transport?: HttpTransport;  // Defaults to a direct FetchTransport (no proxy)
+    baseURL?: string;           // Defaults to https://www.okx.com
+}
+
+/**
+ * OKX v5 USDT-margined perpetual swap market data.
+ * OKX sizes books in contracts; quantities are converted to base asset with ctVal.
+ * https://www.okx.com/docs-v5/en/#public-data-rest-api
+ */
+export class OkxClient implements ExchangeClient {
+    readonly exchange = 'okx' as const;
+    private baseURL = 'https://www.okx.com';
+    private readonly transport: HttpTransport;
+    private contractValues: Map<string, number> | null = null;
+
+    constructor(options: OkxClientOptions = {}) {
+        this.transport = options.transport || new FetchTransport();
+        if (options.baseURL) {
+            this.baseURL = options.baseURL.replace(/\/+$/, '');
+        }
+    }
+
+    async getAll24hrTickers(): Promise<PriceData[]> {
+        const data = await this.get('/api/v5/market/tickers', { instType: 'SWAP' });
+        return data
+            .filter((item: any) => item.instId.endsWith('-USDT-SWAP'))
+            .map((item: any) => this.toPriceData(item));
+    }
+
+    async get24hrTicker(symbol: string): Promise<PriceData> {
+        const data = await this.get('/api/v5/market/ticker', { instId: toOkxInstId(symbol) });
+        return this.toPriceData(data[0]);
+    }
+
+    /**
+     * Pages back with `after` since OKX returns at most 300 candles per request
+     */
+    async getKlines(symbol: string, interval: string = '15m', limit: number = 200): Promise<Kline[]> {
+        const bar = KLINE_BARS[interval];
+        if (!bar) {
+            throw new Error(`Unsupported OKX kline interval: ${interval}`);
+        }
+
+        const klines: Kline[] = [];
+        let after: number | undefined;
+        while (klines.length < limit) {
+            const data: string[][] = await this.get('/api/v5/market/candles', {
+                instId: toOkxInstId(symbol),
+                bar,
+                limit: Math.min(limit - klines.length, MAX_CANDLES_PER_REQUEST),
+                after
+            });
+            if (data.length === 0) break;
+
+            // Newest first: [ts, o, h, l, c, vol (contracts), volCcy (base), volCcyQuote, confirm]
+            for (const row of data) {
+                klines.push({
+                    date: parseInt(row[0], 10),
+                    open: parseFloat(row[1]),
+                    high: parseFloat(row[2]),
+                    low: parseFloat(row[3]),
+                    close: parseFloat(row[4]),
+                    volume: parseFloat(row[6]),
+                    quoteVolume: parseFloat(row[7])
+                });
+            }
+            after = parseInt(data[data.length - 1][0], 10);
+            if (data.length < MAX_CANDLES_PER_REQUEST) break;
+        }
+
+        return klines.reverse();
+    }
+
+    async getOpenInterestStatistics(params: OpenInterestStatisticsParams): Promise<OpenInterestData[]> {
+        const period = OPEN_INTEREST_PERIODS[params.period];
+        if (!period) {
+            throw new Error(`Unsupported OKX open interest period: ${params.period}`);
+        }
+
+        const data: string[][] = await this.get('/api/v5/rubik/stat/contracts/open-interest-history', {
+            instId: toOkxInstId(params.symbol),
+            period,
+            limit: Math.min(params.limit ?? 30, 100),
+            begin: params.startTime,
+            end: params.endTime
+        });
+
+        // Newest first: [ts, oi (contracts), oiCcy (base), oiUsd]
+        return data
+            .map(row => ({
+                symbol: params.symbol,
+                sumOpenInterest: row[2],
+                sumOpenInterestValue: row[3],
+                timestamp: parseInt(row[0], 10)
+            }))
+            .reverse();
+    }
+
+    async getPremiumIndex(symbol: string): Promise<MarkPriceData> {
+        const instId = toOkxInstId(symbol);
+        const [funding, mark, index] = await Promise.all([
+            this.get('/api/v5/public/funding-rate', { instId }),
+            this.get('/api/v5/public/mark-price', { instType: 'SWAP', instId }),
+            this.get('/api/v5/market/index-tickers', { instId: instId.replace(/-SWAP$/, '') })
+        ]);
+        const markPrice = parseFloat(mark[0].markPx);
+
+        return {
+            symbol,
+            markPrice,
+            indexPrice: parseFloat(index[0].idxPx),
+            estimatedSettlePrice: markPrice, // Not published for perpetuals
+            fundingRate: parseFloat(funding[0].fundingRate),
+            nextFundingTime: parseInt(funding[0].fundingTime, 10), // Settlement time of the current rate
+            timestamp: parseInt(mark[0].ts, 10)
+        };
+    }
+
+    async getFundingRateHistory(params: FundingRateParams): Promise<FundingRateData[]> {
+        const data = await this.get('/api/v5/public/funding-rate-history', {
+            instId: toOkxInstId(params.symbol),
+            limit: Math.min(params.limit ?? 100, 100),
+            // before/after are exclusive bounds on fundingTime
+            before: params.startTime !== undefined ? params.startTime - 1 : undefined,
+            after: params.endTime !== undefined ? params.endTime + 1 : undefined
+        });
+
+        return data
+            .map((item: any) => ({
+                symbol: params.symbol,
+                fundingRate: parseFloat(item.realizedRate || item.fundingRate),
+                fundingTime: parseInt(item.fundingTime, 10)
+            }))
+            .reverse();
+    }
+
+    async getDepth(symbol: string, limit: number = 100): Promise<OrderBookDepth> {
+        const instId = toOkxInstId(symbol);
+        const [data, contractValue] = await Promise.all([
+            this.get('/api/v5/market/books', { instId, sz: Math.min(limit, 400) }),
+            this.getContractValue(instId)
+        ]);
+        const book = data[0];
+        const toLevels = (levels: string[][]) => levels.map(level => ({
+            price: parseFloat(level[0]),
+            quantity: parseFloat(level[1]) * contractValue
+        }));
+
+        return {
+            symbol,
+            lastUpdateId: book.seqId,
+            bids: toLevels(book.bids),
+            asks: toLevels(book.asks),
+            timestamp: parseInt(book.ts, 10)
+        };
+    }
+
+    async getExchangeInfo(): Promise<ExchangeInfo> {
+        const data = await this.get('/api/v5/public/instruments', { instType: 'SWAP' });
+        this.contractValues = new Map(data.map((item: any) => [item.instId, parseFloat(item.ctVal)]));
+
+        return {
+            serverTime: Date.now(),
+            symbols: data
+                .filter((item: any) => item.ctType === 'linear')
+                .map((item: any) => {
+                    const contractValue = parseFloat(item.ctVal);
+                    const stepSize = parseFloat(item.lotSz) * contractValue;
+                    const [baseAsset, quoteAsset] = item.instFamily.split('-');
+                    return {
+                        symbol: fromOkxInstId(item.instId),
+                        pair: `${baseAsset}${quoteAsset}`,
+                        contractType: 'PERPETUAL',
+                        status: INSTRUMENT_STATUS[item.state] || item.state.toUpperCase(),
+                        baseAsset,
+                        quoteAsset,
+                        marginAsset: item.settleCcy,
+                        pricePrecision: decimalsForStep(parseFloat(item.tickSz)),
+                        quantityPrecision: decimalsForStep(stepSize),
+                        onboardDate: parseInt(item.listTime, 10),
+                        deliveryDate: parseInt(item.expTime || '0', 10),
+                        tickSize: parseFloat(item.tickSz),
+                        stepSize,
+                        minQty: parseFloat(item.minSz) * contractValue,
+                        minNotional: 0 // OKX has no notional filter
+                    };
+                })
+        };
+    }
+
+    /**
+     * Base asset per contract, loaded once from the instrument list
+     */
+    private async getContractValue(instId: string): Promise<number> {
+        if (!this.contractValues) {
+            await this.getExchangeInfo();
+        }
+        const value = this.contractValues?.get(instId);
+        if (value === undefined) {
+            throw new Error(`Unknown OKX instrument: ${instId}`);
+        }
+        return value;
+    }
+
+    private toPriceData(item: any): PriceData {
+        const price = parseFloat(item.last);
+        const open = parseFloat(item.open24h);
+        return {
+            symbol: fromOkxInstId(item.instId),
+            price,
+            priceChangePercent: open > 0 ? ((price - open) / open) * 100 : 0,
+            quoteVolume: parseFloat(item.volCcy24h) * price, // volCcy24h is in base asset for swaps
+            timestamp: parseInt(item.ts, 10)
+        };
+    }
+
+    /**
+     * GET an endpoint; OKX reports errors with HTTP 200 and a non-zero code
+     */
+    private async get(path: string, params: Record<string, string | number | undefined>): Promise<any> {
+        const query = new URLSearchParams();
+        for (const [key, value] of Object.entries(params)) {
+            if (value !== undefined) query.append(key, value.toString());
+        }
+        const url = `${this.baseURL}${path}?${query}`;
+
+        try {
+            const data = await fetchJsonWithRetry(this.transport, url);
+            if (data.code !== '0') {
+                throw new Error(`OKX API error ${data.code}: ${data.msg}`);
+            }
+            return data.data;
+        } catch (error) {
+            console.error(`Failed to fetch OKX ${path}:`, error);
+            throw error;
+        }
+    }
+}
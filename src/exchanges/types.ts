@@ -0,0 +1,42 @@
+// src/exchanges/types.ts
+import {
+    ExchangeInfo,
+    FundingRateData,
+    FundingRateParams,
+    FuturesDataParams,
+    Kline,
+    LongShortRatioData,
+    MarkPriceData,
+    OpenInterestData,
+    OpenInterestStatisticsParams,
+    OrderBookDepth,
+    PriceData,
+    TakerVolumeData
+} from '../binance/types';
+import { RateLimitUsage } from '../binance/rateLimiter';
+
+export type ExchangeId = 'binance' | 'bybit' | 'okx';
+
+/**
+ * Market data needed by the scanner, normalised to the Binance USDⓈ-M shapes.
+ * Symbols always use the Binance form (e.g. BTCUSDT) and intervals the Binance
+ * notation (e.g. 15m, 4h); adapters translate both to the venue's format.
+ */
+export interface ExchangeClient {
+    readonly exchange: ExchangeId;
+
+    getAll24hrTickers(): Promise<PriceData[]>;
+    get24hrTicker(symbol: string): Promise<PriceData>;
+    getKlines(symbol: string, interval?: string, limit?: number): Promise<Kline[]>;
+    getOpenInterestStatistics(params: OpenInterestStatisticsParams): Promise<OpenInterestData[]>;
+    getPremiumIndex(symbol: string): Promise<MarkPriceData>;
+    getFundingRateHistory(params: FundingRateParams): Promise<FundingRateData[]>;
+    getDepth(symbol: string, limit?: number): Promise<OrderBookDepth>;
+    getExchangeInfo(): Promise<ExchangeInfo>;
+
+    // Venue-specific data; the scanner skips the related analysis when missing
+    getGlobalLongShortAccountRatio?(params: FuturesDataParams): Promise<LongShortRatioData[]>;
+    getTopLongShortPositionRatio?(params: FuturesDataParams): Promise<LongShortRatioData[]>;
+    getTakerLongShortRatio?(params: FuturesDataParams): Promise<TakerVolumeData[]>;
+    getRateLimitUsage?(): RateLimitUsage;
+}
@@ -2,21 +2,93 @@
 
 import * as dotenv from 'dotenv';
 import { PredictionScheduler } from './scheduler/predictionScheduler';
-import { BinanceClient } from './binance/client';
+import { BinanceClient, BinanceMarket } from './binance/client';
+import { BinanceMarketStream } from './binance/marketStream';
+import { KlineStore } from './storage/klineStore';
+import { createTransportFromEnv } from './transport/config';
+import { ReplayTransport } from './transport/recordReplay';
+import { createExchangeClient, parseExchangeId, SUPPORTED_EXCHANGES } from './exchanges/factory';
+import { compareAcrossVenues } from './exchanges/crossVenue';
+import { ExchangeId } from './exchanges/types';
 
 dotenv.config();
 
+/**
+ * Binance futures market from BINANCE_MARKET: usdm (USDT/USDC-margined, default) or coinm (COIN-M)
+ */
+function binanceMarketFromEnv(): BinanceMarket {
+  const market = (process.env.BINANCE_MARKET || 'usdm').trim().toLowerCase();
+  if (market !== 'usdm' && market !== 'coinm') {
+    throw new Error(`Unsupported BINANCE_MARKET "${process.env.BINANCE_MARKET}", expected usdm or coinm`);
+  }
+  return market;
+}
+
+/**
+ * Build a venue client; proxy / timeout / base URL come from <EXCHANGE>_* env vars (e.g. BYBIT_PROXY_URL, OKX_BASE_URL)
+ */
+function createClientFromEnv(exchange: ExchangeId, klineStore?: KlineStore) {
+  const prefix = exchange.toUpperCase();
+  const transport = createTransportFromEnv(prefix);
+  const client = createExchangeClient(exchange, {
+    klineStore,
+    transport,
+    baseURL: process.env[`${prefix}_BASE_URL`],
+    market: exchange === 'binance' ? binanceMarketFromEnv() : undefined
+  });
+  return { client, transport };
+}
+
+/**
+ * Print the same symbol across all supported venues: npm run dev -- --compare BTCUSDT
+ */
+async function compareVenues(symbol: string) {
+  const clients = SUPPORTED_EXCHANGES.map(exchange => createClientFromEnv(exchange).client);
+  const comparison = await compareAcrossVenues(symbol, clients);
+
+  console.log(`\n🌐 ${symbol} across venues`);
+  for (const quote of comparison.quotes) {
+    console.log(`   ${quote.exchange.padEnd(8)} price=${quote.price}  mark=${quote.markPrice}  funding=${(quote.fundingRate * 100).toFixed(4)}%  vol24h=${(quote.quoteVolume / 1000000).toFixed(1)}M`);
+  }
+  if (comparison.failed.length > 0) {
+    console.log(`   ⚠️  unavailable: ${comparison.failed.join(', ')}`);
+  }
+  console.log(`   price spread: ${comparison.priceSpreadBps}bps, funding spread: ${(comparison.fundingSpread * 100).toFixed(4)}%, volume leader: ${comparison.volumeLeader || 'N/A'}`);
+}
+
 async function main() {
-  console.log('🚀 Starting AI Trader with Market Prediction Scheduler');
+  const compareIndex = process.argv.indexOf('--compare');
+  if (compareIndex !== -1) {
+    await compareVenues(process.argv[compareIndex + 1] || 'BTCUSDT');
+    return;
+  }
+
+  const exchange = parseExchangeId(process.env.EXCHANGE || 'binance');
+  console.log(`🚀 Starting AI Trader with Market Prediction Scheduler (${exchange})`);
 
-  // Initialize Binance client
-  const binanceClient = new BinanceClient();
+  // Record/replay (HTTP_RECORD_DIR / HTTP_REPLAY_DIR) needs every request to be reproducible,
+  // so the incremental kline store is only used for live runs
+  const recordOrReplay = Boolean(process.env.HTTP_RECORD_DIR || process.env.HTTP_REPLAY_DIR);
+
+  // Initialize the exchange client (EXCHANGE=binance|bybit|okx; Binance also uses the local kline store)
+  const klineStore = recordOrReplay ? undefined : new KlineStore({
+    baseDir: process.env.KLINE_STORE_DIR || './data/klines'
+  });
+  const { client: exchangeClient, transport: exchangeTransport } = createClientFromEnv(exchange, klineStore);
+  const coinMargined = exchangeClient instanceof BinanceClient && exchangeClient.market === 'coinm';
 
   // Configuration for the market predictor
   const config = {
+    // Contract selection (QUOTE_ASSET=USDC scans USDC-margined contracts; COIN-M contracts are quoted in USD)
+    quoteAsset: process.env.QUOTE_ASSET || (coinMargined ? 'USD' : 'USDT'),
+    
     // Volume filter settings
     minVolumeThreshold: 80 * 1000000,        // 100M USDT
     minPriceChangePercent: 9,            // 5%
+    minOpenInterestValue: 50 * 1000000,  // 50M USDT
+    openInterestLookback: 6,             // OI periods compared against price
+    newListingDays: 14,                  // Contracts listed within 14 days are flagged
+    excludeNewListings: false,
     
     // K-line settings
     klineInterval: '15m',
@@ -29,6 +101,8 @@ async function main() {
     macdSignalPeriod: 9,
     bbPeriod: 20,
     bbMultiplier: 2,
+    maPeriods: { short: 5, medium: 10, long: 20, trend: 50 },
+    volumePeriod: 20,                    // Volume average / trend / taker pressure window
     
     // Analysis settings
     deepSeekEnabled: true
@@ -36,15 +110,46 @@ async function main() {
 
   // Initialize scheduler
   const scheduler = new PredictionScheduler(
-    binanceClient,
+    exchangeClient,
     config,
-    process.env.DEEPSEEK_API_KEY
+    process.env.DEEPSEEK_API_KEY,
+    {
+      deepSeek: {
+        transport: createTransportFromEnv('DEEPSEEK', { timeoutMs: 120000 }),
+        baseURL: process.env.DEEPSEEK_BASE_URL
+      },
+      // Replayed cycles are stamped with the capture time so the output is identical on every run
+      now: exchangeTransport instanceof ReplayTransport
+        ? () => exchangeTransport.session.recordedAt
+        : undefined
+    }
   );
 
+  // Single cycle (e.g. to record or replay a scan): npm run dev -- --once
+  if (process.argv.includes('--once')) {
+    await scheduler.runOnce();
+    return;
+  }
+
   // ... existing code ...
   try {
-    // Start the scheduler to run every 15 minutes
-    scheduler.start();
+    // Start the scheduler: on every closed candle (PREDICTION_TRIGGER=stream) or every 15 minutes
+    // The candle-close trigger uses the Binance stream, so it is only available for Binance scans
+    if (process.env.PREDICTION_TRIGGER === 'stream' && exchangeClient instanceof BinanceClient) {
+      const marketStream = new BinanceMarketStream({
+        baseURL: process.env.BINANCE_WS_BASE_URL || (coinMargined ? 'wss://dstream.binance.com' : undefined),
+        restClient: exchangeClient
+      });
+      marketStream.on('error', error => console.warn('⚠️  Market stream error:', error.message));
+      // The reference candle must exist on the market being streamed (COIN-M has no BTCUSDT)
+      const referenceSymbol = process.env.PREDICTION_REFERENCE_SYMBOL || (coinMargined ? 'BTCUSD_PERP' : 'BTCUSDT');
+      await scheduler.startOnCandleClose(marketStream, referenceSymbol);
+    } else {
+      if (process.env.PREDICTION_TRIGGER === 'stream') {
+        console.warn(`⚠️  PREDICTION_TRIGGER=stream is only supported on Binance, using the 15 minute schedule for ${exchange}`);
+      }
+      scheduler.start();
+    }
 
     // Keep the application running
     console.log('\n📌 Press Ctrl+C to stop the scheduler\n');
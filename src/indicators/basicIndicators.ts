@@ -1,10 +1,13 @@
 // src/indicators/basicIndicators.ts
+import { DEFAULT_INDICATOR_SETTINGS, MovingAveragePeriods } from './indicatorSettings';
+import { MACDCalculator } from './macd';
 
 export interface MovingAverages {
-    ma5: number;
-    ma10: number;
-    ma20: number;
-    ma50?: number;
+    short: number;
+    medium: number;
+    long: number;
+    trend?: number;                 // Only when there are enough candles for the trend period
+    periods: MovingAveragePeriods;  // Periods the averages were calculated with
 }
 
 export interface BollingerBands {
@@ -15,69 +18,76 @@ export interface BollingerBands {
     position: 'OVERBOUGHT' | 'OVERSOLD' | 'NORMAL';
 }
 
+export interface VolatilityIndicators {
+    atr: number;                    // Wilder ATR
+    atrPercent: number;             // ATR / close * 100
+    keltnerUpper: number;           // EMA ± multiplier * ATR
+    keltnerMiddle: number;
+    keltnerLower: number;
+    donchianUpper: number;          // Highest high / lowest low over the period
+    donchianMiddle: number;
+    donchianLower: number;
+    percentB: number;               // Close position within the Bollinger Bands (0 = lower, 1 = upper)
+    squeeze: boolean;               // Bollinger Bands inside the Keltner Channel
+    historicalVolatility: number;   // Annualized close-to-close volatility, %
+    parkinsonVolatility: number;    // Annualized high-low (Parkinson) volatility, %
+}
+
+export interface VolatilityOptions {
+    atrPeriod?: number;             // Default 14
+    keltnerPeriod?: number;         // EMA period, default 20
+    keltnerMultiplier?: number;     // ATR multiple, default 2
+    donchianPeriod?: number;        // Default 20
+    volatilityPeriod?: number;      // Realized volatility window, default 20
+    bbPeriod?: number;              // For %B and squeeze, default 20
+    bbMultiplier?: number;          // Default 2
+}
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
 export class BasicIndicators {
     /**
      * Calculate moving averages
      */
-    static calculateMovingAverages(prices: number[]): MovingAverages {
+    static calculateMovingAverages(
+        prices: number[],
+        periods: MovingAveragePeriods = DEFAULT_INDICATOR_SETTINGS.maPeriods
+    ): MovingAverages {
         if (!prices || prices.length === 0) {
-            return { ma5: 0, ma10: 0, ma20: 0, ma50: 0 };
+            return { short: 0, medium: 0, long: 0, trend: 0, periods };
         }
 
-        const currentPrice = prices[prices.length - 1];
-
-        // Calculate MA5 (5-period moving average)
-        let ma5 = currentPrice;
-        if (prices.length >= 5) {
-            const sum5 = prices.slice(-5).reduce((sum, price) => sum + price, 0);
-            ma5 = sum5 / 5;
-        } else {
-            // Use available data average when insufficient data
-            const sum = prices.reduce((sum, price) => sum + price, 0);
-            ma5 = sum / prices.length;
-        }
+        const average = (values: number[]) => values.reduce((sum, price) => sum + price, 0) / values.length;
 
-        // Calculate MA10 (10-period moving average)
-        let ma10 = currentPrice;
-        if (prices.length >= 10) {
-            const sum10 = prices.slice(-10).reduce((sum, price) => sum + price, 0);
-            ma10 = sum10 / 10;
-        } else if (prices.length > 5) {
-            // Use all data when 10+ but >5
-            const sum = prices.reduce((sum, price) => sum + price, 0);
-            ma10 = sum / prices.length;
-        } else {
-            ma10 = ma5;
-        }
+        // Short average: use available data average when insufficient data
+        const short = average(prices.slice(-periods.short));
 
-        // Calculate MA20 (20-period moving average)
-        let ma20 = currentPrice;
-        if (prices.length >= 20) {
-            const sum20 = prices.slice(-20).reduce((sum, price) => sum + price, 0);
-            ma20 = sum20 / 20;
-        } else if (prices.length > 10) {
-            // Use all data when 20+ but >10
-            const sum = prices.reduce((sum, price) => sum + price, 0);
-            ma20 = sum / prices.length;
-        } else {
-            ma20 = ma10;
+        // Medium average: use all data when shorter than the period but longer than the short period
+        let medium = short;
+        if (prices.length >= periods.medium) {
+            medium = average(prices.slice(-periods.medium));
+        } else if (prices.length > periods.short) {
+            medium = average(prices);
         }
 
-        // Optional: Calculate MA50 (50-period moving average)
-        let ma50 = currentPrice;
-        if (prices.length >= 50) {
-            const sum50 = prices.slice(-50).reduce((sum, price) => sum + price, 0);
-            ma50 = sum50 / 50;
+        // Long average: same fallback against the medium period
+        let long = medium;
+        if (prices.length >= periods.long) {
+            long = average(prices.slice(-periods.long));
+        } else if (prices.length > periods.medium) {
+            long = average(prices);
         }
 
-        const result: any = {
-            ma5: Number(ma5.toFixed(8)),
-            ma10: Number(ma10.toFixed(8)),
-            ma20: Number(ma20.toFixed(8))
+        const result: MovingAverages = {
+            short: Number(short.toFixed(8)),
+            medium: Number(medium.toFixed(8)),
+            long: Number(long.toFixed(8)),
+            periods
         };
 
-        if (prices.length >= 50) {
-            result.ma50 = Number(ma50.toFixed(8));
+        // Optional: trend average only with a full window
+        if (prices.length >= periods.trend) {
+            result.trend = Number(average(prices.slice(-periods.trend)).toFixed(8));
         }
 
         return result;
@@ -107,14 +117,8 @@ export class BasicIndicators {
         let avgGain = gains / period;
         let avgLoss = losses / period;
 
-        // If average loss is 0, RSI is 100
-        if (avgLoss === 0) {
-            return 100;
-        }
-
-        // Calculate initial RS
-        let rs = avgGain / avgLoss;
-        let rsi = 100 - (100 / (1 + rs));
+        // If average loss is 0, RSI is 100 (later losses still count through the smoothing)
+        let rsi = avgLoss === 0 ? 100 : 100 - (100 / (1 + avgGain / avgLoss));
 
         // Use smoothing method for subsequent RSI calculations (if data is sufficient)
         if (prices.length > period + 1) {
@@ -129,7 +133,7 @@ export class BasicIndicators {
                 if (avgLoss === 0) {
                     rsi = 100;
                 } else {
-                    rs = avgGain / avgLoss;
+                    const rs = avgGain / avgLoss;
                     rsi = 100 - (100 / (1 + rs));
                 }
             }
@@ -186,6 +190,168 @@ export class BasicIndicators {
         };
     }
 
+    /**
+     * True range of each candle (the first candle uses its own high - low)
+     */
+    static calculateTrueRanges(highs: number[], lows: number[], closes: number[]): number[] {
+        return highs.map((high, i) => {
+            if (i === 0) return high - lows[i];
+            const previousClose = closes[i - 1];
+            return Math.max(high - lows[i], Math.abs(high - previousClose), Math.abs(lows[i] - previousClose));
+        });
+    }
+
+    /**
+     * Average True Range with Wilder smoothing, seeded with the simple average of the first period
+     */
+    static calculateATR(highs: number[], lows: number[], closes: number[], period: number = 14): number {
+        const series = this.calculateATRSeries(highs, lows, closes, period);
+        return series.length > 0 ? series[series.length - 1] : 0;
+    }
+
+    /**
+     * ATR for every candle; the average of the available true ranges until the period is filled
+     */
+    static calculateATRSeries(highs: number[], lows: number[], closes: number[], period: number = 14): number[] {
+        let total = 0;
+        let seed = 0;           // True ranges of the first period, skipping the first candle
+        let atr = 0;
+
+        return this.calculateTrueRanges(highs, lows, closes).map((tr, i) => {
+            if (i < period) {
+                total += tr;
+                if (i > 0) seed += tr;
+                return total / (i + 1);
+            }
+            atr = i === period ? (seed + tr) / period : (atr * (period - 1) + tr) / period;
+            return atr;
+        });
+    }
+
+    /**
+     * Close-to-close volatility: standard deviation of log returns over the period
+     */
+    static calculateHistoricalVolatility(closes: number[], period: number = 20): number {
+        const recent = closes.slice(-(period + 1));
+        if (recent.length < 3) return 0;
+
+        const returns = recent.slice(1).map((close, i) => Math.log(close / recent[i]));
+        const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+        const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length - 1);
+        return Math.sqrt(variance);
+    }
+
+    /**
+     * Parkinson volatility from the high-low range over the period
+     */
+    static calculateParkinsonVolatility(highs: number[], lows: number[], period: number = 20): number {
+        const recentHighs = highs.slice(-period);
+        const recentLows = lows.slice(-period);
+        if (recentHighs.length === 0) return 0;
+
+        const sumSquares = recentHighs.reduce((sum, high, i) => sum + Math.pow(Math.log(high / recentLows[i]), 2), 0);
+        return Math.sqrt(sumSquares / (4 * recentHighs.length * Math.LN2));
+    }
+
+    /**
+     * ATR, Keltner and Donchian channels, Bollinger %B / squeeze and realized volatility.
+     * Realized volatility is annualized from the candle spacing (markets trade around the clock).
+     */
+    static calculateVolatility(
+        highs: number[],
+        lows: number[],
+        closes: number[],
+        intervalMs: number,
+        options: VolatilityOptions = {}
+    ): VolatilityIndicators {
+        // Keltner Channel around the EMA of closes
+        const keltnerMiddle = MACDCalculator.calculateEMA(closes, options.keltnerPeriod ?? 20)[closes.length - 1];
+        const averageClose = closes.reduce((sum, close) => sum + close, 0) / closes.length;
+        const atr = this.calculateATR(highs, lows, closes, options.atrPeriod ?? 14);
+        return this.volatilityAt(highs, lows, closes, atr, keltnerMiddle, averageClose, intervalMs, options);
+    }
+
+    /**
+     * Volatility suite for every candle, annualized from the spacing to the previous open time
+     */
+    static calculateVolatilitySeries(
+        highs: number[],
+        lows: number[],
+        closes: number[],
+        openTimes: number[],
+        options: VolatilityOptions = {}
+    ): VolatilityIndicators[] {
+        const atrs = this.calculateATRSeries(highs, lows, closes, options.atrPeriod ?? 14);
+        const keltnerMiddles = MACDCalculator.calculateEMA(closes, options.keltnerPeriod ?? 20);
+        // Candles the channels, bands and realized volatility look back over
+        const window = Math.max(options.donchianPeriod ?? 20, options.bbPeriod ?? 20, (options.volatilityPeriod ?? 20) + 1);
+        let closeSum = 0;
+
+        return closes.map((close, i) => {
+            closeSum += close;
+            const start = Math.max(0, i - window + 1);
+            return this.volatilityAt(
+                highs.slice(start, i + 1),
+                lows.slice(start, i + 1),
+                closes.slice(start, i + 1),
+                atrs[i],
+                keltnerMiddles[i],
+                closeSum / (i + 1),
+                i > 0 ? openTimes[i] - openTimes[i - 1] : 0,
+                options
+            );
+        });
+    }
+
+    /**
+     * Volatility suite at the latest candle, given its ATR and Keltner EMA (NaN during the EMA warm-up).
+     * Until the EMA is seeded the channel is centred on the average close so far and no squeeze is reported.
+     */
+    private static volatilityAt(
+        highs: number[],
+        lows: number[],
+        closes: number[],
+        atr: number,
+        keltnerEma: number,
+        averageClose: number,
+        intervalMs: number,
+        options: VolatilityOptions
+    ): VolatilityIndicators {
+        const keltnerMultiplier = options.keltnerMultiplier ?? 2;
+        const donchianPeriod = options.donchianPeriod ?? 20;
+        const volatilityPeriod = options.volatilityPeriod ?? 20;
+
+        const currentPrice = closes[closes.length - 1];
+        const keltnerSeeded = !Number.isNaN(keltnerEma);
+        const keltnerMiddle = keltnerSeeded ? keltnerEma : averageClose;
+        const keltnerUpper = keltnerMiddle + keltnerMultiplier * atr;
+        const keltnerLower = keltnerMiddle - keltnerMultiplier * atr;
+
+        const donchianUpper = Math.max(...highs.slice(-donchianPeriod));
+        const donchianLower = Math.min(...lows.slice(-donchianPeriod));
+
+        const bands = this.calculateBollingerBands(closes, options.bbPeriod ?? 20, options.bbMultiplier ?? 2);
+        const bandRange = bands.upper - bands.lower;
+        const percentB = bandRange > 0 ? (currentPrice - bands.lower) / bandRange : 0.5;
+
+        const annualize = intervalMs > 0 ? Math.sqrt(YEAR_MS / intervalMs) * 100 : 100;
+
+        return {
+            atr: Number(atr.toFixed(8)),
+            atrPercent: Number((currentPrice > 0 ? (atr / currentPrice) * 100 : 0).toFixed(4)),
+            keltnerUpper: Number(keltnerUpper.toFixed(8)),
+            keltnerMiddle: Number(keltnerMiddle.toFixed(8)),
+            keltnerLower: Number(keltnerLower.toFixed(8)),
+            donchianUpper,
+            donchianMiddle: Number(((donchianUpper + donchianLower) / 2).toFixed(8)),
+            donchianLower,
+            percentB: Number(percentB.toFixed(4)),
+            squeeze: keltnerSeeded && bandRange > 0 && bands.upper < keltnerUpper && bands.lower > keltnerLower,
+            historicalVolatility: Number((this.calculateHistoricalVolatility(closes, volatilityPeriod) * annualize).toFixed(2)),
+            parkinsonVolatility: Number((this.calculateParkinsonVolatility(highs, lows, volatilityPeriod) * annualize).toFixed(2))
+        };
+    }
+
     /**
      * Calculate price trend slope
      */
@@ -0,0 +1,599 @@
+// src/indicators/builtinIndicators.ts
+import { MACDCalculator, MACDResult } from './macd';
+import { BasicIndicators, BollingerBands, MovingAverages, VolatilityIndicators, VolatilityOptions } from './basicIndicators';
+import {
+    VolumeAnalyzer, VolumeStats, VolumeProfile, TakerPressure, OnBalanceVolume, AccumulationDistribution, ChaikinMoneyFlow, VWAPBands
+} from './volume';
+import {
+    TrendIndicators, DirectionalMovement, SuperTrend, IchimokuCloud, IchimokuOptions, ParabolicSAR
+} from './trend';
+import {
+    Oscillators, StochasticResult, StochasticOptions, StochRSIOptions, WilliamsRResult, CCIResult, MFIResult
+} from './oscillators';
+import { Kline } from '../binance/types';
+import { MovingAveragePeriods } from './indicatorSettings';
+import { IndicatorDefinition, IndicatorOutputField, IndicatorRegistry } from './registry';
+
+// Indicators with dedicated fields on AllIndicators, scoring blocks and prompt sections
+export const CORE_INDICATOR_IDS = [
+    'macd', 'rsi', 'stochastic', 'stochRsi', 'williamsR', 'cci', 'mfi', 'ma', 'adx', 'superTrend', 'ichimoku', 'parabolicSar',
+    'bollingerBands', 'volatility', 'volume', 'obv', 'adLine', 'cmf', 'vwap', 'anchoredVwap', 'volumeProfile', 'takerPressure'
+];
+
+function positiveIntegers<P extends object>(params: P, keys: (keyof P & string)[]): string[] {
+    return keys
+        .filter(key => !Number.isInteger(params[key]) || (params[key] as unknown as number) < 1)
+        .map(key => `${key} must be a positive integer (got ${params[key]})`);
+}
+
+const closes = (klines: { close: number }[]) => klines.map(k => k.close);
+const highs = (klines: { high: number }[]) => klines.map(k => k.high);
+const lows = (klines: { low: number }[]) => klines.map(k => k.low);
+const volumes = (klines: { volume: number }[]) => klines.map(k => k.volume);
+
+// Series of an indicator that only looks back `length` candles: its value on the window ending at each candle
+function windowSeries<P extends object, O extends object>(
+    definition: IndicatorDefinition<P, O>,
+    klines: Kline[],
+    params: P,
+    length: number
+): (O | undefined)[] {
+    return klines.map((_, i) => definition.calculate({ klines: klines.slice(Math.max(0, i - length + 1), i + 1) }, params));
+}
+
+const vwapOutputs = (label: string): IndicatorOutputField[] => [
+    { key: 'vwap', label, format: 'price' },
+    { key: 'upper1', label: `${label} +1σ`, format: 'price' },
+    { key: 'lower1', label: `${label} -1σ`, format: 'price' },
+    { key: 'upper2', label: `${label} +2σ`, format: 'price' },
+    { key: 'lower2', label: `${label} -2σ`, format: 'price' },
+    { key: 'deviation', label: `${label} Deviation`, format: 'number', digits: 2 }
+];
+
+export const macdIndicator: IndicatorDefinition<
+    { fastPeriod: number; slowPeriod: number; signalPeriod: number },
+    MACDResult
+> = {
+    id: 'macd',
+    name: 'MACD',
+    inputs: ['ohlcv'],
+    outputs: [
+        { key: 'macd', label: 'MACD', format: 'number', digits: 8 },
+        { key: 'signal', label: 'MACD Signal', format: 'number', digits: 8 },
+        { key: 'histogram', label: 'MACD Histogram', format: 'number', digits: 8 }
+    ],
+    defaultParams: settings => ({
+        fastPeriod: settings.macdFastPeriod,
+        slowPeriod: settings.macdSlowPeriod,
+        signalPeriod: settings.macdSignalPeriod
+    }),
+    validate: params => {
+        const problems = positiveIntegers(params, ['fastPeriod', 'slowPeriod', 'signalPeriod']);
+        if (params.fastPeriod >= params.slowPeriod) problems.push('fastPeriod must be shorter than slowPeriod');
+        return problems;
+    },
+    warmup: params => params.slowPeriod + params.signalPeriod - 1,
+    calculate: ({ klines }, params) => {
+        const results = MACDCalculator.calculate(closes(klines), params.fastPeriod, params.slowPeriod, params.signalPeriod);
+        return results[results.length - 1] ?? undefined; // Latest MACD value, none during the warm-up
+    },
+    calculateSeries: ({ klines }, params) => MACDCalculator
+        .calculate(closes(klines), params.fastPeriod, params.slowPeriod, params.signalPeriod)
+        .map(result => result ?? undefined)
+};
+
+export const rsiIndicator: IndicatorDefinition<{ period: number }, { rsi: number }> = {
+    id: 'rsi',
+    name: 'RSI',
+    inputs: ['ohlcv'],
+    outputs: [{ key: 'rsi', label: 'RSI', format: 'number', digits: 2 }],
+    defaultParams: settings => ({ period: settings.rsiPeriod }),
+    validate: params => positiveIntegers(params, ['period']),
+    warmup: params => params.period + 1,
+    calculate: ({ klines }, params) => ({ rsi: BasicIndicators.calculateRSI(closes(klines), params.period) }),
+    calculateSeries: ({ klines }, params) => Oscillators
+        .calculateRSISeries(closes(klines), params.period)
+        .map(rsi => ({ rsi: Number(rsi.toFixed(2)) }))
+};
+
+export const stochasticIndicator: IndicatorDefinition<Required<StochasticOptions>, StochasticResult> = {
+    id: 'stochastic',
+    name: 'Stochastic',
+    inputs: ['ohlcv'],
+    outputs: [
+        { key: 'k', label: 'Stoch %K', format: 'number', digits: 2 },
+        { key: 'd', label: 'Stoch %D', format: 'number', digits: 2 },
+        { key: 'state', label: 'Stoch State', format: 'text' }
+    ],
+    defaultParams: () => ({ kPeriod: 14, smoothK: 3, dPeriod: 3 }),
+    validate: params => positiveIntegers(params, ['kPeriod', 'smoothK', 'dPeriod']),
+    warmup: params => params.kPeriod + params.smoothK + params.dPeriod - 2,
+    calculate: ({ klines }, params) => Oscillators.calculateStochastic(highs(klines), lows(klines), closes(klines), params),
+    calculateSeries: ({ klines }, params) => Oscillators.calculateSlowStochasticSeries(highs(klines), lows(klines), closes(klines), params)
+};
+
+export const stochRsiIndicator: IndicatorDefinition<Required<StochRSIOptions>, StochasticResult> = {
+    id: 'stochRsi',
+    name: 'Stochastic RSI',
+    inputs: ['ohlcv'],
+    outputs: [
+        { key: 'k', label: 'StochRSI %K', format: 'number', digits: 2 },
+        { key: 'd', label: 'StochRSI %D', format: 'number', digits: 2 },
+        { key: 'state', label: 'StochRSI State', format: 'text' }
+    ],
+    defaultParams: settings => ({ rsiPeriod: settings.rsiPeriod, kPeriod: 14, smoothK: 3, dPeriod: 3 }),
+    validate: params => positiveIntegers(params, ['rsiPeriod', 'kPeriod', 'smoothK', 'dPeriod']),
+    warmup: params => params.rsiPeriod + params.kPeriod + params.smoothK + params.dPeriod - 2,
+    calculate: ({ klines }, params) => Oscillators.calculateStochRSI(closes(klines), params),
+    calculateSeries: ({ klines }, params) => Oscillators.calculateStochRSISeries(closes(klines), params)
+};
+
+export const williamsRIndicator: IndicatorDefinition<{ period: number }, WilliamsRResult> = {
+    id: 'williamsR',
+    name: 'Williams %R',
+    inputs: ['ohlcv'],
+    outputs: [
+        { key: 'value', label: 'Williams %R', format: 'number', digits: 2 },
+        { key: 'state', label: 'Williams %R State', format: 'text' }
+    ],
+    defaultParams: () => ({ period: 14 }),
+    validate: params => positiveIntegers(params, ['period']),
+    warmup: params => params.period,
+    calculate: ({ klines }, params) => Oscillators.calculateWilliamsR(highs(klines), lows(klines), closes(klines), params.period),
+    calculateSeries: ({ klines }, params) => windowSeries(williamsRIndicator, klines, params, params.period)
+};
+
+export const cciIndicator: IndicatorDefinition<{ period: number }, CCIResult> = {
+    id: 'cci',
+    name: 'CCI',
+    inputs: ['ohlcv'],
+    outputs: [
+        { key: 'value', label: 'CCI', format: 'number', digits: 2 },
+        { key: 'state', label: 'CCI State', format: 'text' }
+    ],
+    defaultParams: () => ({ period: 20 }),
+    validate: params => positiveIntegers(params, ['period']),
+    warmup: params => params.period,
+    calculate: ({ klines }, params) => Oscillators.calculateCCI(highs(klines), lows(klines), closes(klines), params.period),
+    calculateSeries: ({ klines }, params) => windowSeries(cciIndicator, klines, params, params.period)
+};
+
+export const mfiIndicator: IndicatorDefinition<{ period: number }, MFIResult> = {
+    id: 'mfi',
+    name: 'Money Flow Index',
+    inputs: ['ohlcv'],
+    outputs: [
+        { key: 'value', label: 'MFI', format: 'number', digits: 2 },
+        { key: 'state', label: 'MFI State', format: 'text' }
+    ],
+    defaultParams: () => ({ period: 14 }),
+    validate: params => positiveIntegers(params, ['period']),
+    warmup: params => params.period + 1,
+    calculate: ({ klines }, params) => Oscillators.calculateMFI(
+        highs(klines),
+        lows(klines),
+        closes(klines),
+        volumes(klines),
+        params.period
+    ),
+    // The first candle of the window is the reference for the first flow
+    calculateSeries: ({ klines }, params) => windowSeries(mfiIndicator, klines, params, params.period + 1)
+};
+
+export const movingAveragesIndicator: IndicatorDefinition<MovingAveragePeriods, MovingAverages> = {
+    id: 'ma',
+    name: 'Moving Averages',
+    inputs: ['ohlcv'],
+    outputs: [
+        { key: 'short', label: 'MA Short', format: 'price' },
+        { key: 'medium', label: 'MA Medium', format: 'price' },
+        { key: 'long', label: 'MA Long', format: 'price' },
+        { key: 'trend', label: 'MA Trend', format: 'price' }
+    ],
+    defaultParams: settings => ({ ...settings.maPeriods }),
+    validate: params => {
+        const problems = positiveIntegers(params, ['short', 'medium', 'long', 'trend']);
+        if (!(params.short < params.medium && params.medium < params.long && params.long < params.trend)) {
+            problems.push('periods must increase short < medium < long < trend');
+        }
+        return problems;
+    },
+    warmup: params => params.trend,
+    calculate: ({ klines }, params) => BasicIndicators.calculateMovingAverages(closes(klines), params),
+    calculateSeries: ({ klines }, params) => windowSeries(movingAveragesIndicator, klines, params, params.trend)
+};
+
+export const adxIndicator: IndicatorDefinition<{ period: number }, DirectionalMovement> = {
+    id: 'adx',
+    name: 'ADX / DMI',
+    inputs: ['ohlcv'],
+    outputs: [
+        { key: 'adx', label: 'ADX', format: 'number', digits: 2 },
+        { key: 'plusDI', label: '+DI', format: 'number', digits: 2 },
+        { key: 'minusDI', label: '-DI', format: 'number', digits: 2 },
+        { key: 'trendState', label: 'ADX Trend', format: 'text' }
+    ],
+    defaultParams: () => ({ period: 14 }),
+    validate: params => positiveIntegers(params, ['period']),
+    warmup: params => params.period * 2,    // DI smoothing, then ADX smoothing
+    calculate: ({ klines }, params) => TrendIndicators.calculateDMI(highs(klines), lows(klines), closes(klines), params.period),
+    calculateSeries: ({ klines }, params) => TrendIndicators.calculateDMISeries(highs(klines), lows(klines), closes(klines), params.period)
+};
+
+export const superTrendIndicator: IndicatorDefinition<{ period: number; multiplier: number }, SuperTrend> = {
+    id: 'superTrend',
+    name: 'SuperTrend',
+    inputs: ['ohlcv'],
+    outputs: [
+        { key: 'value', label: 'SuperTrend', format: 'price' },
+        { key: 'direction', label: 'SuperTrend Direction', format: 'text' },
+        { key: 'flipped', label: 'SuperTrend Flip', format: 'flag' }
+    ],
+    defaultParams: () => ({ period: 10, multiplier: 3 }),
+    validate: params => {
+        const problems = positiveIntegers(params, ['period']);
+        if (!(params.multiplier > 0)) problems.push('multiplier must be positive');
+        return problems;
+    },
+    warmup: params => params.period + 1,
+    calculate: ({ klines }, params) => TrendIndicators.calculateSuperTrend(
+        highs(klines),
+        lows(klines),
+        closes(klines),
+        params.period,
+        params.multiplier
+    ),
+    calculateSeries: ({ klines }, params) => TrendIndicators.calculateSuperTrendSeries(
+        highs(klines),
+        lows(klines),
+        closes(klines),
+        params.period,
+        params.multiplier
+    )
+};
+
+export const ichimokuIndicator: IndicatorDefinition<Required<IchimokuOptions>, IchimokuCloud> = {
+    id: 'ichimoku',
+    name: 'Ichimoku Cloud',
+    inputs: ['ohlcv'],
+    outputs: [
+        { key: 'tenkan', label: 'Ichimoku Tenkan', format: 'price' },
+        { key: 'kijun', label: 'Ichimoku Kijun', format: 'price' },
+        { key: 'senkouA', label: 'Ichimoku Senkou A', format: 'price' },
+        { key: 'senkouB', label: 'Ichimoku Senkou B', format: 'price' },
+        { key: 'pricePosition', label: 'Ichimoku Position', format: 'text' },
+        { key: 'trendState', label: 'Ichimoku Trend', format: 'text' }
+    ],
+    defaultParams: () => ({ tenkanPeriod: 9, kijunPeriod: 26, senkouBPeriod: 52, displacement: 26 }),
+    validate: params => {
+        const problems = positiveIntegers(params, ['tenkanPeriod', 'kijunPeriod', 'senkouBPeriod', 'displacement']);
+        if (!(params.tenkanPeriod < params.kijunPeriod && params.kijunPeriod < params.senkouBPeriod)) {
+            problems.push('periods must increase tenkanPeriod < kijunPeriod < senkouBPeriod');
+        }
+        return problems;
+    },
+    warmup: params => params.senkouBPeriod + params.displacement,
+    calculate: ({ klines }, params) => TrendIndicators.calculateIchimoku(highs(klines), lows(klines), closes(klines), params),
+    calculateSeries: ({ klines }, params) => windowSeries(ichimokuIndicator, klines, params, params.senkouBPeriod + params.displacement)
+};
+
+export const parabolicSarIndicator: IndicatorDefinition<{ step: number; maxStep: number }, ParabolicSAR> = {
+    id: 'parabolicSar',
+    name: 'Parabolic SAR',
+    inputs: ['ohlcv'],
+    outputs: [
+        { key: 'sar', label: 'Parabolic SAR', format: 'price' },
+        { key: 'direction', label: 'SAR Direction', format: 'text' },
+        { key: 'flipped', label: 'SAR Flip', format: 'flag' }
+    ],
+    defaultParams: () => ({ step: 0.02, maxStep: 0.2 }),
+    validate: params => (params.step > 0 && params.step <= params.maxStep
+        ? []
+        : ['step must be positive and not above maxStep']),
+    warmup: () => 2,
+    calculate: ({ klines }, params) => TrendIndicators.calculateParabolicSAR(
+        highs(klines),
+        lows(klines),
+        closes(klines),
+        params.step,
+        params.maxStep
+    ),
+    calculateSeries: ({ klines }, params) => TrendIndicators.calculateParabolicSARSeries(
+        highs(klines),
+        lows(klines),
+        closes(klines),
+        params.step,
+        params.maxStep
+    )
+};
+
+export const bollingerBandsIndicator: IndicatorDefinition<{ period: number; multiplier: number }, BollingerBands> = {
+    id: 'bollingerBands',
+    name: 'Bollinger Bands',
+    inputs: ['ohlcv'],
+    outputs: [
+        { key: 'upper', label: 'Bollinger Upper', format: 'price' },
+        { key: 'middle', label: 'Bollinger Middle', format: 'price' },
+        { key: 'lower', label: 'Bollinger Lower', format: 'price' },
+        { key: 'position', label: 'Bollinger Position', format: 'text' }
+    ],
+    defaultParams: settings => ({ period: settings.bbPeriod, multiplier: settings.bbMultiplier }),
+    validate: params => {
+        const problems = positiveIntegers(params, ['period']);
+        if (!(params.multiplier > 0)) problems.push('multiplier must be positive');
+        return problems;
+    },
+    warmup: params => params.period,
+    calculate: ({ klines }, params) => BasicIndicators.calculateBollingerBands(closes(klines), params.period, params.multiplier),
+    calculateSeries: ({ klines }, params) => windowSeries(bollingerBandsIndicator, klines, params, params.period)
+};
+
+export const volatilityIndicator: IndicatorDefinition<Required<VolatilityOptions>, VolatilityIndicators> = {
+    id: 'volatility',
+    name: 'Volatility',
+    inputs: ['ohlcv'],
+    outputs: [
+        { key: 'atr', label: 'ATR', format: 'price' },
+        { key: 'atrPercent', label: 'ATR (%)', format: 'number', digits: 4 },
+        { key: 'keltnerUpper', label: 'Keltner Upper', format: 'price' },
+        { key: 'keltnerLower', label: 'Keltner Lower', format: 'price' },
+        { key: 'donchianUpper', label: 'Donchian Upper', format: 'price' },
+        { key: 'donchianLower', label: 'Donchian Lower', format: 'price' },
+        { key: 'percentB', label: 'Bollinger %B', format: 'number', digits: 4 },
+        { key: 'squeeze', label: 'Squeeze', format: 'flag' },
+        { key: 'historicalVolatility', label: 'Historical Volatility (%)', format: 'number', digits: 2 },
+        { key: 'parkinsonVolatility', label: 'Parkinson Volatility (%)', format: 'number', digits: 2 }
+    ],
+    defaultParams: settings => ({
+        atrPeriod: 14,
+        keltnerPeriod: 20,
+        keltnerMultiplier: 2,
+        donchianPeriod: 20,
+        volatilityPeriod: 20,
+        bbPeriod: settings.bbPeriod,
+        bbMultiplier: settings.bbMultiplier
+    }),
+    validate: params => {
+        const problems = positiveIntegers(params, ['atrPeriod', 'keltnerPeriod', 'donchianPeriod', 'volatilityPeriod', 'bbPeriod']);
+        if (!(params.keltnerMultiplier > 0)) problems.push('keltnerMultiplier must be positive');
+        if (!(params.bbMultiplier > 0)) problems.push('bbMultiplier must be positive');
+        return problems;
+    },
+    warmup: params => Math.max(params.atrPeriod + 1, params.keltnerPeriod, params.donchianPeriod, params.volatilityPeriod + 1, params.bbPeriod),
+    calculate: ({ klines }, params) => {
+        // Candle spacing for annualizing realized volatility
+        const intervalMs = klines.length > 1 ? klines[klines.length - 1].date - klines[klines.length - 2].date : 0;
+        return BasicIndicators.calculateVolatility(
+            highs(klines),
+            lows(klines),
+            closes(klines),
+            intervalMs,
+            params
+        );
+    },
+    calculateSeries: ({ klines }, params) => BasicIndicators.calculateVolatilitySeries(
+        highs(klines),
+        lows(klines),
+        closes(klines),
+        klines.map(k => k.date),
+        params
+    )
+};
+
+export const volumeIndicator: IndicatorDefinition<{ period: number }, VolumeStats> = {
+    id: 'volume',
+    name: 'Volume',
+    inputs: ['ohlcv'],
+    outputs: [
+        { key: 'volumeRatio', label: 'Volume Ratio', format: 'number', digits: 4 },
+        { key: 'volumeTrend', label: 'Volume Trend', format: 'number', digits: 4 }
+    ],
+    defaultParams: settings => ({ period: settings.volumePeriod }),
+    validate: params => positiveIntegers(params, ['period']),
+    warmup: params => params.period,
+    calculate: ({ klines }, params) => VolumeAnalyzer.calculateVolumeStats(
+        volumes(klines),
+        closes(klines),
+        params.period
+    ),
+    calculateSeries: ({ klines }, params) => windowSeries(volumeIndicator, klines, params, params.period)
+};
+
+export const obvIndicator: IndicatorDefinition<{ period: number }, OnBalanceVolume> = {
+    id: 'obv',
+    name: 'On-Balance Volume',
+    inputs: ['ohlcv'],
+    outputs: [
+        { key: 'obv', label: 'OBV', format: 'number', digits: 2 },
+        { key: 'slope', label: 'OBV Slope', format: 'number', digits: 4 },
+        { key: 'trend', label: 'OBV Trend', format: 'text' }
+    ],
+    defaultParams: settings => ({ period: settings.volumePeriod }),
+    validate: params => positiveIntegers(params, ['period']),
+    warmup: params => params.period,
+    calculate: ({ klines }, params) => VolumeAnalyzer.calculateOBV(closes(klines), volumes(klines), params.period),
+    calculateSeries: ({ klines }, params) => VolumeAnalyzer.calculateOnBalanceVolumeSeries(closes(klines), volumes(klines), params.period)
+};
+
+export const accumulationDistributionIndicator: IndicatorDefinition<{ period: number }, AccumulationDistribution> = {
+    id: 'adLine',
+    name: 'Accumulation/Distribution',
+    inputs: ['ohlcv'],
+    outputs: [
+        { key: 'adLine', label: 'A/D Line', format: 'number', digits: 2 },
+        { key: 'slope', label: 'A/D Slope', format: 'number', digits: 4 },
+        { key: 'trend', label: 'A/D Trend', format: 'text' }
+    ],
+    defaultParams: settings => ({ period: settings.volumePeriod }),
+    validate: params => positiveIntegers(params, ['period']),
+    warmup: params => params.period,
+    calculate: ({ klines }, params) => VolumeAnalyzer.calculateAccumulationDistribution(
+        highs(klines),
+        lows(klines),
+        closes(klines),
+        volumes(klines),
+        params.period
+    ),
+    calculateSeries: ({ klines }, params) => VolumeAnalyzer.calculateAccumulationDistributionSeries(
+        highs(klines),
+        lows(klines),
+        closes(klines),
+        volumes(klines),
+        params.period
+    )
+};
+
+export const cmfIndicator: IndicatorDefinition<{ period: number }, ChaikinMoneyFlow> = {
+    id: 'cmf',
+    name: 'Chaikin Money Flow',
+    inputs: ['ohlcv'],
+    outputs: [
+        { key: 'cmf', label: 'CMF', format: 'number', digits: 4 },
+        { key: 'state', label: 'CMF State', format: 'text' }
+    ],
+    defaultParams: settings => ({ period: settings.volumePeriod }),
+    validate: params => positiveIntegers(params, ['period']),
+    warmup: params => params.period,
+    calculate: ({ klines }, params) => VolumeAnalyzer.calculateChaikinMoneyFlow(
+        highs(klines),
+        lows(klines),
+        closes(klines),
+        volumes(klines),
+        params.period
+    ),
+    calculateSeries: ({ klines }, params) => windowSeries(cmfIndicator, klines, params, params.period)
+};
+
+// Session VWAP resets at 00:00 UTC
+export const vwapIndicator: IndicatorDefinition<Record<string, never>, VWAPBands> = {
+    id: 'vwap',
+    name: 'Session VWAP',
+    inputs: ['ohlcv'],
+    outputs: vwapOutputs('VWAP'),
+    defaultParams: () => ({}),
+    warmup: () => 1,
+    calculate: ({ klines }) => VolumeAnalyzer.calculateSessionVWAP(
+        highs(klines),
+        lows(klines),
+        closes(klines),
+        volumes(klines),
+        klines.map(k => k.date)
+    ),
+    calculateSeries: ({ klines }) => VolumeAnalyzer.calculateSessionVWAPSeries(
+        highs(klines),
+        lows(klines),
+        closes(klines),
+        volumes(klines),
+        klines.map(k => k.date)
+    )
+};
+
+// Anchored at anchorTime (ms); the default 0 anchors at the first available candle
+export const anchoredVwapIndicator: IndicatorDefinition<{ anchorTime: number }, VWAPBands> = {
+    id: 'anchoredVwap',
+    name: 'Anchored VWAP',
+    inputs: ['ohlcv'],
+    outputs: vwapOutputs('Anchored VWAP'),
+    defaultParams: () => ({ anchorTime: 0 }),
+    validate: params => (Number.isFinite(params.anchorTime) && params.anchorTime >= 0
+        ? []
+        : [`anchorTime must be a timestamp in milliseconds (got ${params.anchorTime})`]),
+    warmup: () => 1,
+    calculate: ({ klines }, params) => VolumeAnalyzer.calculateVWAP(
+        highs(klines),
+        lows(klines),
+        closes(klines),
+        volumes(klines),
+        klines.map(k => k.date),
+        params.anchorTime
+    ),
+    calculateSeries: ({ klines }, params) => VolumeAnalyzer.calculateVWAPSeries(
+        highs(klines),
+        lows(klines),
+        closes(klines),
+        volumes(klines),
+        klines.map(k => k.date),
+        params.anchorTime
+    )
+};
+
+// Profiles the last `lookback` candles, or all of them when fewer are available
+export const volumeProfileIndicator: IndicatorDefinition<
+    { lookback: number; bins: number; valueAreaPercent: number },
+    VolumeProfile
+> = {
+    id: 'volumeProfile',
+    name: 'Volume Profile',
+    inputs: ['ohlcv'],
+    outputs: [
+        { key: 'poc', label: 'POC', format: 'price' },
+        { key: 'valueAreaHigh', label: 'Value Area High', format: 'price' },
+        { key: 'valueAreaLow', label: 'Value Area Low', format: 'price' },
+        { key: 'position', label: 'Value Area Position', format: 'text' }
+    ],
+    defaultParams: () => ({ lookback: 100, bins: 24, valueAreaPercent: 70 }),
+    validate: params => [
+        ...positiveIntegers(params, ['lookback', 'bins']),
+        ...(params.valueAreaPercent > 0 && params.valueAreaPercent <= 100
+            ? []
+            : [`valueAreaPercent must be in (0, 100] (got ${params.valueAreaPercent})`])
+    ],
+    warmup: () => 1,
+    calculate: ({ klines }, params) => VolumeAnalyzer.calculateVolumeProfile(
+        highs(klines),
+        lows(klines),
+        closes(klines),
+        volumes(klines),
+        params.lookback,
+        params.bins,
+        params.valueAreaPercent
+    ),
+    calculateSeries: ({ klines }, params) => windowSeries(volumeProfileIndicator, klines, params, params.lookback)
+};
+
+export const takerPressureIndicator: IndicatorDefinition<{ period: number }, TakerPressure> = {
+    id: 'takerPressure',
+    name: 'Taker Pressure',
+    inputs: ['ohlcv', 'takerVolume'],
+    outputs: [{ key: 'averageTakerBuyRatio', label: 'Taker Buy Ratio', format: 'number', digits: 4 }],
+    defaultParams: settings => ({ period: settings.volumePeriod }),
+    validate: params => positiveIntegers(params, ['period']),
+    warmup: params => params.period,
+    calculate: ({ klines }, params) => VolumeAnalyzer.calculateTakerPressure(
+        volumes(klines),
+        klines.map(k => k.takerBuyBaseVolume as number),
+        params.period
+    ),
+    calculateSeries: ({ klines }, params) => windowSeries(takerPressureIndicator, klines, params, params.period)
+};
+
+/**
+ * Registry with the built-in indicators; register custom indicators on it or on a copy
+ */
+export function createDefaultIndicatorRegistry(): IndicatorRegistry {
+    return new IndicatorRegistry()
+        .register(macdIndicator)
+        .register(rsiIndicator)
+        .register(stochasticIndicator)
+        .register(stochRsiIndicator)
+        .register(williamsRIndicator)
+        .register(cciIndicator)
+        .register(mfiIndicator)
+        .register(movingAveragesIndicator)
+        .register(adxIndicator)
+        .register(superTrendIndicator)
+        .register(ichimokuIndicator)
+        .register(parabolicSarIndicator)
+        .register(bollingerBandsIndicator)
+        .register(volatilityIndicator)
+        .register(volumeIndicator)
+        .register(obvIndicator)
+        .register(accumulationDistributionIndicator)
+        .register(cmfIndicator)
+        .register(vwapIndicator)
+        .register(anchoredVwapIndicator)
+        .register(volumeProfileIndicator)
+        .register(takerPressureIndicator);
+}
+
+export const defaultIndicatorRegistry = createDefaultIndicatorRegistry();
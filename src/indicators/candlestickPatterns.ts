@@ -0,0 +1,238 @@
+// src/indicators/candlestickPatterns.ts
+import { Kline } from '../binance/types';
+import { BasicIndicators } from './basicIndicators';
+import { DEFAULT_INDICATOR_SETTINGS, IndicatorSettings } from './indicatorSettings';
+
+export type CandlestickPatternType =
+    | 'BULLISH_ENGULFING' | 'BEARISH_ENGULFING'
+    | 'HAMMER' | 'SHOOTING_STAR'
+    | 'DOJI'
+    | 'MORNING_STAR' | 'EVENING_STAR'
+    | 'THREE_WHITE_SOLDIERS' | 'THREE_BLACK_CROWS'
+    | 'INSIDE_BAR' | 'BULLISH_OUTSIDE_BAR' | 'BEARISH_OUTSIDE_BAR'
+    | 'BULLISH_PIN_BAR' | 'BEARISH_PIN_BAR';
+export type PatternBias = 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+export type PatternKind = 'REVERSAL' | 'CONTINUATION' | 'INDECISION';
+export type BandLocation = 'UPPER_BAND' | 'LOWER_BAND' | 'INSIDE_BANDS';
+export type MovingAverageLocation = 'ABOVE' | 'BELOW' | 'TESTING';
+
+export interface CandlestickPattern {
+    pattern: CandlestickPatternType;
+    bias: PatternBias;
+    kind: PatternKind;
+    index: number;                  // Kline index of the last candle of the pattern
+    time: number;                   // Open time of that candle
+    barsAgo: number;                // 0 for the latest candle
+    candles: number;                // Candles the pattern spans
+    bollinger?: BandLocation;       // Candle touching a Bollinger band; undefined before the bands are warmed up
+    movingAverage?: MovingAverageLocation; // Candle relative to the long MA; TESTING when its range spans the MA
+    confirmed: boolean;             // Location supports the bias (see CandlestickPatterns.isConfirmed)
+}
+
+export interface CandlestickPatternOptions {
+    lookback?: number;              // Most recent candles to scan, default 5
+}
+
+const PATTERN_DEFINITIONS: Record<CandlestickPatternType, { bias: PatternBias; kind: PatternKind; candles: number }> = {
+    BULLISH_ENGULFING: { bias: 'BULLISH', kind: 'REVERSAL', candles: 2 },
+    BEARISH_ENGULFING: { bias: 'BEARISH', kind: 'REVERSAL', candles: 2 },
+    HAMMER: { bias: 'BULLISH', kind: 'REVERSAL', candles: 1 },
+    SHOOTING_STAR: { bias: 'BEARISH', kind: 'REVERSAL', candles: 1 },
+    DOJI: { bias: 'NEUTRAL', kind: 'INDECISION', candles: 1 },
+    MORNING_STAR: { bias: 'BULLISH', kind: 'REVERSAL', candles: 3 },
+    EVENING_STAR: { bias: 'BEARISH', kind: 'REVERSAL', candles: 3 },
+    THREE_WHITE_SOLDIERS: { bias: 'BULLISH', kind: 'CONTINUATION', candles: 3 },
+    THREE_BLACK_CROWS: { bias: 'BEARISH', kind: 'CONTINUATION', candles: 3 },
+    INSIDE_BAR: { bias: 'NEUTRAL', kind: 'INDECISION', candles: 2 },
+    BULLISH_OUTSIDE_BAR: { bias: 'BULLISH', kind: 'REVERSAL', candles: 2 },
+    BEARISH_OUTSIDE_BAR: { bias: 'BEARISH', kind: 'REVERSAL', candles: 2 },
+    BULLISH_PIN_BAR: { bias: 'BULLISH', kind: 'REVERSAL', candles: 1 },
+    BEARISH_PIN_BAR: { bias: 'BEARISH', kind: 'REVERSAL', candles: 1 }
+};
+
+// Candle proportions
+const DOJI_BODY_RATIO = 0.1;        // Body at most 10% of the range
+const SHADOW_BODY_MULTIPLE = 2;     // Hammer / shooting star shadow at least twice the body
+const PIN_BAR_WICK_RATIO = 2 / 3;   // Pin bar wick at least two thirds of the range
+const PRIOR_TREND_CANDLES = 5;      // Decline before a hammer / rise before a shooting star
+const AVERAGE_BODY_CANDLES = 10;    // Window for the average body that defines a long candle
+
+const body = (k: Kline) => Math.abs(k.close - k.open);
+const range = (k: Kline) => k.high - k.low;
+const upperShadow = (k: Kline) => k.high - Math.max(k.open, k.close);
+const lowerShadow = (k: Kline) => Math.min(k.open, k.close) - k.low;
+const isBullish = (k: Kline) => k.close > k.open;
+const isBearish = (k: Kline) => k.close < k.open;
+
+export class CandlestickPatterns {
+    /**
+     * Patterns completed on the last `lookback` candles, oldest first, with their Bollinger / MA location
+     */
+    static detect(
+        klines: Kline[],
+        settings: IndicatorSettings = DEFAULT_INDICATOR_SETTINGS,
+        options: CandlestickPatternOptions = {}
+    ): CandlestickPattern[] {
+        const lookback = options.lookback ?? 5;
+        const patterns: CandlestickPattern[] = [];
+
+        for (let i = Math.max(0, klines.length - lookback); i < klines.length; i++) {
+            const location = this.locate(klines, i, settings);
+            for (const pattern of this.patternsAt(klines, i)) {
+                const { bias, kind, candles } = PATTERN_DEFINITIONS[pattern];
+                patterns.push({
+                    pattern,
+                    bias,
+                    kind,
+                    index: i,
+                    time: klines[i].date,
+                    barsAgo: klines.length - 1 - i,
+                    candles,
+                    ...location,
+                    confirmed: this.isConfirmed(bias, kind, location)
+                });
+            }
+        }
+
+        return patterns;
+    }
+
+    /**
+     * Whether the location supports the pattern:
+     * - reversals at the opposite Bollinger band, or testing the MA (bullish at the lower band / MA support)
+     * - continuations on the matching side of the MA
+     * - indecision at either band
+     */
+    static isConfirmed(bias: PatternBias, kind: PatternKind, location: { bollinger?: BandLocation; movingAverage?: MovingAverageLocation }): boolean {
+        const { bollinger, movingAverage } = location;
+        if (kind === 'INDECISION') {
+            return bollinger === 'UPPER_BAND' || bollinger === 'LOWER_BAND';
+        }
+        if (kind === 'CONTINUATION') {
+            return movingAverage === (bias === 'BULLISH' ? 'ABOVE' : 'BELOW');
+        }
+        return bollinger === (bias === 'BULLISH' ? 'LOWER_BAND' : 'UPPER_BAND') || movingAverage === 'TESTING';
+    }
+
+    /**
+     * Patterns whose last candle is klines[i]
+     */
+    private static patternsAt(klines: Kline[], i: number): CandlestickPatternType[] {
+        const found: CandlestickPatternType[] = [];
+        const current = klines[i];
+        const previous = klines[i - 1];
+        const candleRange = range(current);
+        if (candleRange <= 0) return found;
+
+        // Single candle
+        if (body(current) <= DOJI_BODY_RATIO * candleRange) {
+            found.push('DOJI');
+        } else {
+            const smallUpper = upperShadow(current) <= body(current);
+            const smallLower = lowerShadow(current) <= body(current);
+            if (lowerShadow(current) >= SHADOW_BODY_MULTIPLE * body(current) && smallUpper && this.priorMove(klines, i) < 0) {
+                found.push('HAMMER');
+            }
+            if (upperShadow(current) >= SHADOW_BODY_MULTIPLE * body(current) && smallLower && this.priorMove(klines, i) > 0) {
+                found.push('SHOOTING_STAR');
+            }
+        }
+
+        if (!previous) return found;
+
+        // Pin bars reject a new extreme beyond the previous candle
+        if (lowerShadow(current) >= PIN_BAR_WICK_RATIO * candleRange && current.low < previous.low) {
+            found.push('BULLISH_PIN_BAR');
+        }
+        if (upperShadow(current) >= PIN_BAR_WICK_RATIO * candleRange && current.high > previous.high) {
+            found.push('BEARISH_PIN_BAR');
+        }
+
+        // Two candles
+        if (isBearish(previous) && isBullish(current)
+            && current.open <= previous.close && current.close >= previous.open && body(current) > body(previous)) {
+            found.push('BULLISH_ENGULFING');
+        }
+        if (isBullish(previous) && isBearish(current)
+            && current.open >= previous.close && current.close <= previous.open && body(current) > body(previous)) {
+            found.push('BEARISH_ENGULFING');
+        }
+        if (current.high < previous.high && current.low > previous.low) {
+            found.push('INSIDE_BAR');
+        }
+        if (current.high > previous.high && current.low < previous.low) {
+            if (isBullish(current)) found.push('BULLISH_OUTSIDE_BAR');
+            if (isBearish(current)) found.push('BEARISH_OUTSIDE_BAR');
+        }
+
+        const first = klines[i - 2];
+        if (!first) return found;
+
+        // Three candles: a long candle, a small one, then a close beyond the midpoint of the first body
+        const longBody = this.averageBody(klines, i - 2);
+        const firstMidpoint = (first.open + first.close) / 2;
+        const smallMiddle = body(previous) <= 0.3 * body(first);
+        if (isBearish(first) && body(first) >= longBody && smallMiddle && isBullish(current) && current.close > firstMidpoint) {
+            found.push('MORNING_STAR');
+        }
+        if (isBullish(first) && body(first) >= longBody && smallMiddle && isBearish(current) && current.close < firstMidpoint) {
+            found.push('EVENING_STAR');
+        }
+
+        // Three candles in one direction, each opening inside the previous body and closing near its extreme
+        const three = [first, previous, current];
+        const opensInside = (k: Kline, prior: Kline) =>
+            k.open >= Math.min(prior.open, prior.close) && k.open <= Math.max(prior.open, prior.close);
+        const steps = [1, 2].every(j => opensInside(three[j], three[j - 1]));
+        if (steps && three.every(k => isBullish(k) && upperShadow(k) <= 0.5 * body(k))
+            && previous.close > first.close && current.close > previous.close) {
+            found.push('THREE_WHITE_SOLDIERS');
+        }
+        if (steps && three.every(k => isBearish(k) && lowerShadow(k) <= 0.5 * body(k))
+            && previous.close < first.close && current.close < previous.close) {
+            found.push('THREE_BLACK_CROWS');
+        }
+
+        return found;
+    }
+
+    /**
+     * Close-to-close move over the candles before klines[i]; 0 without enough history
+     */
+    private static priorMove(klines: Kline[], i: number): number {
+        if (i - 1 - PRIOR_TREND_CANDLES < 0) return 0;
+        return klines[i - 1].close - klines[i - 1 - PRIOR_TREND_CANDLES].close;
+    }
+
+    /**
+     * Average body of the candles up to and including klines[i]
+     */
+    private static averageBody(klines: Kline[], i: number): number {
+        const window = klines.slice(Math.max(0, i - AVERAGE_BODY_CANDLES + 1), i + 1);
+        return window.reduce((sum, k) => sum + body(k), 0) / window.length;
+    }
+
+    /**
+     * Bollinger / long MA location of klines[i], from the closes up to that candle
+     */
+    private static locate(
+        klines: Kline[],
+        i: number,
+        settings: IndicatorSettings
+    ): { bollinger?: BandLocation; movingAverage?: MovingAverageLocation } {
+        const closes = klines.slice(0, i + 1).map(k => k.close);
+        const candle = klines[i];
+        const location: { bollinger?: BandLocation; movingAverage?: MovingAverageLocation } = {};
+
+        if (closes.length >= settings.bbPeriod) {
+            const bands = BasicIndicators.calculateBollingerBands(closes, settings.bbPeriod, settings.bbMultiplier);
+            location.bollinger = candle.high >= bands.upper ? 'UPPER_BAND' : candle.low <= bands.lower ? 'LOWER_BAND' : 'INSIDE_BANDS';
+        }
+        if (closes.length >= settings.maPeriods.long) {
+            const ma = closes.slice(-settings.maPeriods.long).reduce((sum, close) => sum + close, 0) / settings.maPeriods.long;
+            location.movingAverage = candle.low > ma ? 'ABOVE' : candle.high < ma ? 'BELOW' : 'TESTING';
+        }
+
+        return location;
+    }
+}
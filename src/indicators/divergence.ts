@@ -0,0 +1,160 @@
+// src/indicators/divergence.ts
+import { MACDCalculator } from './macd';
+import { Oscillators } from './oscillators';
+import { VolumeAnalyzer } from './volume';
+import { PriceSeries } from './indicatorCalculator';
+import { DEFAULT_INDICATOR_SETTINGS, IndicatorSettings } from './indicatorSettings';
+
+export type SwingType = 'HIGH' | 'LOW';
+export type DivergenceSource = 'RSI' | 'MACD' | 'OBV';
+export type DivergenceType = 'REGULAR_BULLISH' | 'REGULAR_BEARISH' | 'HIDDEN_BULLISH' | 'HIDDEN_BEARISH';
+
+export interface SwingPoint {
+    index: number;                  // Kline index
+    type: SwingType;
+    price: number;                  // High of a swing high, low of a swing low
+}
+
+export interface DivergencePoint {
+    index: number;
+    price: number;
+    value: number;                  // Indicator value at the swing
+}
+
+export interface Divergence {
+    source: DivergenceSource;       // RSI, MACD histogram or OBV
+    type: DivergenceType;           // Regular: reversal against the price swing; hidden: continuation of the trend
+    bias: 'BULLISH' | 'BEARISH';
+    strength: number;               // 0..1: how far price and indicator moved apart, relative to their ranges since the first swing
+    barsAgo: number;                // Candles since the second swing
+    from: DivergencePoint;          // Earlier swing
+    to: DivergencePoint;            // Later swing
+}
+
+export interface DivergenceOptions {
+    swingStrength?: number;         // Candles on each side a swing must exceed, default 3
+    maxSwingDistance?: number;      // Most candles between the two compared swings, default 60
+    maxAge?: number;                // Most candles since the second swing, default 15
+}
+
+const round = (value: number) => Number(value.toFixed(2));
+
+function range(values: number[]): number {
+    return Math.max(...values) - Math.min(...values);
+}
+
+export class DivergenceDetector {
+    /**
+     * Swing highs / lows: candles whose high (low) exceeds the `strength` candles on either side.
+     * The latest `strength` candles cannot be swings yet because their right side is not confirmed.
+     */
+    static findSwingPoints(highs: number[], lows: number[], strength: number = 3): SwingPoint[] {
+        const swings: SwingPoint[] = [];
+
+        for (let i = strength; i < highs.length - strength; i++) {
+            // Strict on the left and inclusive on the right, so a flat top is reported once
+            const left = i - strength;
+            const right = i + strength + 1;
+            if (highs[i] > Math.max(...highs.slice(left, i)) && highs[i] >= Math.max(...highs.slice(i + 1, right))) {
+                swings.push({ index: i, type: 'HIGH', price: highs[i] });
+            }
+            if (lows[i] < Math.min(...lows.slice(left, i)) && lows[i] <= Math.min(...lows.slice(i + 1, right))) {
+                swings.push({ index: i, type: 'LOW', price: lows[i] });
+            }
+        }
+
+        return swings;
+    }
+
+    /**
+     * Compare the last two swing highs and the last two swing lows with an indicator series
+     * aligned with the klines (NaN where the indicator is not warmed up):
+     * - regular bearish: higher high in price, lower high in the indicator
+     * - hidden bearish: lower high in price, higher high in the indicator
+     * - regular bullish: lower low in price, higher low in the indicator
+     * - hidden bullish: higher low in price, lower low in the indicator
+     */
+    static detect(
+        priceData: PriceSeries,
+        values: number[],
+        source: DivergenceSource,
+        options: DivergenceOptions = {},
+        swings: SwingPoint[] = this.findSwingPoints(priceData.highs, priceData.lows, options.swingStrength)
+    ): Divergence[] {
+        const maxSwingDistance = options.maxSwingDistance ?? 60;
+        const maxAge = options.maxAge ?? 15;
+        const lastIndex = priceData.closes.length - 1;
+        const divergences: Divergence[] = [];
+
+        for (const swingType of ['HIGH', 'LOW'] as SwingType[]) {
+            const points = swings.filter(swing => swing.type === swingType && Number.isFinite(values[swing.index]));
+            if (points.length < 2) continue;
+
+            const [previous, latest] = points.slice(-2);
+            const barsAgo = lastIndex - latest.index;
+            if (latest.index - previous.index > maxSwingDistance || barsAgo > maxAge) continue;
+
+            const priceDelta = latest.price - previous.price;
+            const valueDelta = values[latest.index] - values[previous.index];
+            if (Math.sign(priceDelta) * Math.sign(valueDelta) !== -1) continue;
+
+            const type: DivergenceType = swingType === 'HIGH'
+                ? (priceDelta > 0 ? 'REGULAR_BEARISH' : 'HIDDEN_BEARISH')
+                : (priceDelta < 0 ? 'REGULAR_BULLISH' : 'HIDDEN_BULLISH');
+
+            // Both moves measured against what price and the indicator did from the first swing to now
+            const priceRange = range([
+                ...priceData.highs.slice(previous.index),
+                ...priceData.lows.slice(previous.index)
+            ]);
+            const valueRange = range(values.slice(previous.index).filter(Number.isFinite));
+            const priceShare = priceRange > 0 ? Math.abs(priceDelta) / priceRange : 0;
+            const valueShare = valueRange > 0 ? Math.abs(valueDelta) / valueRange : 0;
+
+            divergences.push({
+                source,
+                type,
+                bias: swingType === 'HIGH' ? 'BEARISH' : 'BULLISH',
+                strength: round((priceShare + valueShare) / 2),
+                barsAgo,
+                from: { index: previous.index, price: previous.price, value: values[previous.index] },
+                to: { index: latest.index, price: latest.price, value: values[latest.index] }
+            });
+        }
+
+        return divergences;
+    }
+
+    /**
+     * Divergences of RSI, MACD histogram and OBV (when volumes are available) against the price swings,
+     * most recent first
+     */
+    static analyze(
+        priceData: PriceSeries,
+        settings: IndicatorSettings = DEFAULT_INDICATOR_SETTINGS,
+        options: DivergenceOptions = {}
+    ): Divergence[] {
+        const { highs, lows, closes, volumes } = priceData;
+        const swings = this.findSwingPoints(highs, lows, options.swingStrength);
+
+        const rsi = Oscillators.calculateRSISeries(closes, settings.rsiPeriod)
+            .map((value, i) => (i < settings.rsiPeriod ? NaN : value));
+        const histogram = MACDCalculator.calculate(
+            closes,
+            settings.macdFastPeriod,
+            settings.macdSlowPeriod,
+            settings.macdSignalPeriod
+        ).map(result => (result ? result.histogram : NaN));
+
+        const divergences = [
+            ...this.detect(priceData, rsi, 'RSI', options, swings),
+            ...this.detect(priceData, histogram, 'MACD', options, swings)
+        ];
+        if (volumes.length === closes.length) {
+            const obv = VolumeAnalyzer.calculateOBVSeries(closes, volumes);
+            divergences.push(...this.detect(priceData, obv, 'OBV', options, swings));
+        }
+
+        return divergences.sort((a, b) => a.barsAgo - b.barsAgo || b.strength - a.strength);
+    }
+}
@@ -0,0 +1,86 @@
+// src/indicators/funding.ts
+import { FundingRateData, MarkPriceData } from '../binance/types';
+
+const DEFAULT_FUNDING_INTERVAL_MS = 8 * 60 * 60 * 1000;
+
+export interface FundingMetrics {
+    currentFundingRate: number;         // Last settled funding rate (0.0001 = 0.01%)
+    predictedFundingRate: number;       // Estimated rate for the next settlement
+    nextFundingTime: number;
+    averageFundingRate: number;         // Mean of the settled rates in the history window
+    annualizedFundingPercent: number;   // Predicted rate annualized with the contract's funding interval
+    markPrice: number;
+    indexPrice: number;
+    basisPercent: number;               // (mark - index) / index * 100
+    fundingTrend: 'RISING' | 'FALLING' | 'FLAT';
+}
+
+export class FundingAnalyzer {
+    /**
+     * Combine the premium index snapshot with settled funding history (oldest first)
+     */
+    static analyze(premiumIndex: MarkPriceData, history: FundingRateData[], trendPeriods: number = 6): FundingMetrics {
+        const predictedFundingRate = premiumIndex.fundingRate;
+        const currentFundingRate = history.length > 0
+            ? history[history.length - 1].fundingRate
+            : predictedFundingRate;
+
+        const averageFundingRate = history.length > 0
+            ? history.reduce((sum, item) => sum + item.fundingRate, 0) / history.length
+            : predictedFundingRate;
+
+        const basisPercent = premiumIndex.indexPrice > 0
+            ? ((premiumIndex.markPrice - premiumIndex.indexPrice) / premiumIndex.indexPrice) * 100
+            : 0;
+
+        const settlementsPerYear = (365 * 24 * 60 * 60 * 1000) / this.getFundingInterval(history);
+
+        return {
+            currentFundingRate,
+            predictedFundingRate,
+            nextFundingTime: premiumIndex.nextFundingTime,
+            averageFundingRate: Number(averageFundingRate.toFixed(8)),
+            annualizedFundingPercent: Number((predictedFundingRate * settlementsPerYear * 100).toFixed(2)),
+            markPrice: premiumIndex.markPrice,
+            indexPrice: premiumIndex.indexPrice,
+            basisPercent: Number(basisPercent.toFixed(4)),
+            fundingTrend: this.calculateFundingTrend(
+                [...history.slice(-trendPeriods).map(item => item.fundingRate), predictedFundingRate]
+            )
+        };
+    }
+
+    /**
+     * Classify the slope of recent funding rates (per settlement)
+     */
+    private static calculateFundingTrend(rates: number[]): FundingMetrics['fundingTrend'] {
+        if (rates.length < 3) return 'FLAT';
+
+        const n = rates.length;
+        const sumX = rates.reduce((sum, _, i) => sum + i, 0);
+        const sumY = rates.reduce((sum, rate) => sum + rate, 0);
+        const sumXY = rates.reduce((sum, rate, i) => sum + rate * i, 0);
+        const sumXX = rates.reduce((sum, _, i) => sum + i * i, 0);
+        const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
+
+        // 0.001% per settlement
+        if (slope > 0.00001) return 'RISING';
+        if (slope < -0.00001) return 'FALLING';
+        return 'FLAT';
+    }
+
+    /**
+     * Funding interval from settlement timestamps (most contracts settle every 8h, some every 4h or 1h)
+     */
+    private static getFundingInterval(history: FundingRateData[]): number {
+        if (history.length < 2) return DEFAULT_FUNDING_INTERVAL_MS;
+
+        const gaps = history
+            .slice(1)
+            .map((item, i) => item.fundingTime - history[i].fundingTime)
+            .filter(gap => gap > 0)
+            .sort((a, b) => a - b);
+
+        return gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : DEFAULT_FUNDING_INTERVAL_MS;
+    }
+}
@@ -1,71 +1,142 @@
 // src/indicators/indicatorCalculator.ts
-import { MACDCalculator, MACDResult } from './macd';
-import { VolumeAnalyzer } from './volume';
-import { BasicIndicators, MovingAverages, BollingerBands } from './basicIndicators';
-import { Kline } from '../binance/types';
+import { MACDResult } from './macd';
+import {
+    VolumeStats, VolumeProfile, TakerPressure, OnBalanceVolume, AccumulationDistribution, ChaikinMoneyFlow, VWAPBands
+} from './volume';
+import { StochasticResult, WilliamsRResult, CCIResult, MFIResult } from './oscillators';
+import { DirectionalMovement, SuperTrend, IchimokuCloud, ParabolicSAR } from './trend';
+import { MovingAverages, BollingerBands, VolatilityIndicators } from './basicIndicators';
+import { DEFAULT_INDICATOR_SETTINGS, IndicatorSettings } from './indicatorSettings';
+import {
+    IndicatorRegistry, IndicatorResult, IndicatorRunSettings, IndicatorSelection, IndicatorSeriesPoint
+} from './registry';
+import { defaultIndicatorRegistry } from './builtinIndicators';
+import { FundingRateData, Kline, OpenInterestData } from '../binance/types';
+
+// Raw kline columns, oldest first
+export interface PriceSeries {
+    highs: number[];
+    lows: number[];
+    closes: number[];
+    volumes: number[];
+}
 
 export interface AllIndicators {
-    macd: MACDResult;
-    volume: any; // VolumeProfile type
+    macd?: MACDResult;
+    volume?: VolumeStats;
+    obv?: OnBalanceVolume;
+    accumulationDistribution?: AccumulationDistribution;
+    cmf?: ChaikinMoneyFlow;         // Chaikin Money Flow
+    vwap?: VWAPBands;               // Session VWAP (resets at 00:00 UTC)
+    anchoredVwap?: VWAPBands;
+    volumeProfile?: VolumeProfile;  // POC, value area and high / low volume nodes
     currentPrice: number;
-    rsi: number;
-    ma: MovingAverages;
-    bollingerBands: BollingerBands;
-    priceData?: {
-        highs: number[];
-        lows: number[];
-        closes: number[];
-    };
+    rsi?: number;
+    stochastic?: StochasticResult;
+    stochRsi?: StochasticResult;
+    williamsR?: WilliamsRResult;
+    cci?: CCIResult;
+    mfi?: MFIResult;    // Money Flow Index (volume-weighted)
+    ma?: MovingAverages;
+    adx?: DirectionalMovement;      // ADX with +DI / -DI
+    superTrend?: SuperTrend;
+    ichimoku?: IchimokuCloud;
+    parabolicSar?: ParabolicSAR;
+    bollingerBands?: BollingerBands;
+    volatility?: VolatilityIndicators; // ATR, Keltner / Donchian channels, %B, squeeze, realized volatility
+    takerPressure?: TakerPressure; // Only when the klines carry taker buy volume
+    results?: IndicatorResult[];   // Every indicator that ran, in registry order (core and custom)
+    priceData?: PriceSeries;
+}
+
+export interface IndicatorRunOptions extends IndicatorSelection, IndicatorRunSettings {
+    registry?: IndicatorRegistry;               // Defaults to the built-in registry
+    openInterestHistory?: OpenInterestData[];   // For indicators that take the 'openInterest' input
+    fundingHistory?: FundingRateData[];         // For indicators that take the 'funding' input
 }
 
 export class IndicatorCalculator {
     /**
-     * Calculate all technical indicators
+     * Calculate all technical indicators with the given settings (validated by resolveIndicatorSettings).
+     * Runs the selected registry indicators; core indicators are also exposed as typed fields.
+     * With `series: true` every result also carries its per-bar series aligned with the klines;
+     * indicators with a `precomputed` value report it as their latest value instead of recalculating.
      */
-    static calculateAllIndicators(klines: Kline[]): AllIndicators {
+    static calculateAllIndicators(
+        klines: Kline[],
+        settings: IndicatorSettings = DEFAULT_INDICATOR_SETTINGS,
+        options: IndicatorRunOptions = {}
+    ): AllIndicators {
         if (!klines || klines.length === 0) {
             throw new Error('Kline data is empty, cannot calculate indicators');
         }
 
-        // Extract price and volume data
-        const closePrices = klines.map(k => k.close);
-        const volumes = klines.map(k => k.volume);
-        const highs = klines.map(k => k.high);
-        const lows = klines.map(k => k.low);
+        const registry = options.registry || defaultIndicatorRegistry;
+        const results = registry.run(
+            { klines, openInterestHistory: options.openInterestHistory, fundingHistory: options.fundingHistory },
+            settings,
+            options,
+            { series: options.series, precomputed: options.precomputed }
+        );
+        const valueOf = <T>(id: string): T | undefined => results.find(result => result.id === id)?.value;
 
-        // Calculate various indicators
-        const macdResults = MACDCalculator.calculate(closePrices);
-        const volumeProfile = VolumeAnalyzer.calculateVolumeProfile(volumes, closePrices);
-        const rsi = BasicIndicators.calculateRSI(closePrices);
-        const movingAverages = BasicIndicators.calculateMovingAverages(closePrices);
-        const bollingerBands = BasicIndicators.calculateBollingerBands(closePrices);
+        const closePrices = klines.map(k => k.close);
 
         return {
-            macd: macdResults[macdResults.length - 1], // Return the latest MACD value
-            volume: volumeProfile,
+            macd: valueOf<MACDResult>('macd'),
+            volume: valueOf<VolumeStats>('volume'),
+            obv: valueOf<OnBalanceVolume>('obv'),
+            accumulationDistribution: valueOf<AccumulationDistribution>('adLine'),
+            cmf: valueOf<ChaikinMoneyFlow>('cmf'),
+            vwap: valueOf<VWAPBands>('vwap'),
+            anchoredVwap: valueOf<VWAPBands>('anchoredVwap'),
+            volumeProfile: valueOf<VolumeProfile>('volumeProfile'),
             currentPrice: closePrices[closePrices.length - 1],
-            rsi,
-            ma: movingAverages,
-            bollingerBands,
+            rsi: valueOf<{ rsi: number }>('rsi')?.rsi,
+            stochastic: valueOf<StochasticResult>('stochastic'),
+            stochRsi: valueOf<StochasticResult>('stochRsi'),
+            williamsR: valueOf<WilliamsRResult>('williamsR'),
+            cci: valueOf<CCIResult>('cci'),
+            mfi: valueOf<MFIResult>('mfi'),
+            ma: valueOf<MovingAverages>('ma'),
+            adx: valueOf<DirectionalMovement>('adx'),
+            superTrend: valueOf<SuperTrend>('superTrend'),
+            ichimoku: valueOf<IchimokuCloud>('ichimoku'),
+            parabolicSar: valueOf<ParabolicSAR>('parabolicSar'),
+            bollingerBands: valueOf<BollingerBands>('bollingerBands'),
+            volatility: valueOf<VolatilityIndicators>('volatility'),
+            takerPressure: valueOf<TakerPressure>('takerPressure'),
+            results,
             priceData: {
-                highs,
-                lows,
-                closes: closePrices
+                highs: klines.map(k => k.high),
+                lows: klines.map(k => k.low),
+                closes: closePrices,
+                volumes: klines.map(k => k.volume)
             }
         };
     }
 
+    /**
+     * Per-bar series of one indicator; only available when calculated with `series: true`
+     */
+    static getSeries<T = any>(indicators: AllIndicators, id: string): IndicatorSeriesPoint<T>[] | undefined {
+        return indicators.results?.find(result => result.id === id)?.series;
+    }
+
     /**
      * Calculate indicators for multiple symbols
      */
-    static calculateMultipleSymbols(symbolsData: Map<string, Kline[]>): Map<string, AllIndicators> {
+    static calculateMultipleSymbols(
+        symbolsData: Map<string, Kline[]>,
+        settings: IndicatorSettings = DEFAULT_INDICATOR_SETTINGS
+    ): Map<string, AllIndicators> {
         const results = new Map<string, AllIndicators>();
 
         const symbolsArray = Array.from(symbolsData);
 
         for (const [symbol, klines] of symbolsArray) {
             try {
-                const indicators = this.calculateAllIndicators(klines);
+                const indicators = this.calculateAllIndicators(klines, settings);
                 results.set(symbol, indicators);
             } catch (error) {
                 const errorMessage = error instanceof Error ? error.message : String(error);
@@ -98,7 +169,7 @@ export class IndicatorCalculator {
             return false;
         }
 
-        if (indicators.rsi < 0 || indicators.rsi > 100) {
+        if (indicators.rsi !== undefined && (indicators.rsi < 0 || indicators.rsi > 100)) {
             console.warn('Abnormal RSI value:', indicators.rsi);
             return false;
         }
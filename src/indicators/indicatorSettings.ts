@@ -0,0 +1,102 @@
+// src/indicators/indicatorSettings.ts
+
+export interface MovingAveragePeriods {
+    short: number;      // Default 5
+    medium: number;     // Default 10
+    long: number;       // Default 20
+    trend: number;      // Default 50, only reported once enough candles are available
+}
+
+/**
+ * Parameters used by IndicatorCalculator; recorded with each prediction so results can be traced to them
+ */
+export interface IndicatorSettings {
+    rsiPeriod: number;
+    macdFastPeriod: number;
+    macdSlowPeriod: number;
+    macdSignalPeriod: number;
+    bbPeriod: number;
+    bbMultiplier: number;
+    maPeriods: MovingAveragePeriods;
+    volumePeriod: number;   // Window for average volume, volume trend and taker pressure
+}
+
+export const DEFAULT_INDICATOR_SETTINGS: IndicatorSettings = {
+    rsiPeriod: 14,
+    macdFastPeriod: 12,
+    macdSlowPeriod: 26,
+    macdSignalPeriod: 9,
+    bbPeriod: 20,
+    bbMultiplier: 2,
+    maPeriods: { short: 5, medium: 10, long: 20, trend: 50 },
+    volumePeriod: 20
+};
+
+/**
+ * Fill missing settings with defaults and validate the result
+ */
+export function resolveIndicatorSettings(overrides: Partial<IndicatorSettings> = {}): IndicatorSettings {
+    // Undefined entries (unset optional config fields) keep their defaults
+    const defined = Object.fromEntries(
+        Object.entries(overrides).filter(([, value]) => value !== undefined)
+    ) as Partial<IndicatorSettings>;
+    const settings: IndicatorSettings = {
+        ...DEFAULT_INDICATOR_SETTINGS,
+        ...defined,
+        maPeriods: { ...DEFAULT_INDICATOR_SETTINGS.maPeriods, ...defined.maPeriods }
+    };
+    validateIndicatorSettings(settings);
+    return settings;
+}
+
+/**
+ * Throw one error listing every invalid setting
+ */
+export function validateIndicatorSettings(settings: IndicatorSettings): void {
+    const problems: string[] = [];
+    const requirePeriod = (name: string, value: number) => {
+        if (!Number.isInteger(value) || value < 1) {
+            problems.push(`${name} must be a positive integer (got ${value})`);
+        }
+    };
+
+    requirePeriod('rsiPeriod', settings.rsiPeriod);
+    requirePeriod('macdFastPeriod', settings.macdFastPeriod);
+    requirePeriod('macdSlowPeriod', settings.macdSlowPeriod);
+    requirePeriod('macdSignalPeriod', settings.macdSignalPeriod);
+    requirePeriod('bbPeriod', settings.bbPeriod);
+    requirePeriod('volumePeriod', settings.volumePeriod);
+    requirePeriod('maPeriods.short', settings.maPeriods.short);
+    requirePeriod('maPeriods.medium', settings.maPeriods.medium);
+    requirePeriod('maPeriods.long', settings.maPeriods.long);
+    requirePeriod('maPeriods.trend', settings.maPeriods.trend);
+
+    if (settings.macdFastPeriod >= settings.macdSlowPeriod) {
+        problems.push(`macdFastPeriod (${settings.macdFastPeriod}) must be shorter than macdSlowPeriod (${settings.macdSlowPeriod})`);
+    }
+    if (!(settings.bbMultiplier > 0)) {
+        problems.push(`bbMultiplier must be positive (got ${settings.bbMultiplier})`);
+    }
+    const { short, medium, long, trend } = settings.maPeriods;
+    if (!(short < medium && medium < long && long < trend)) {
+        problems.push(`maPeriods must increase short < medium < long < trend (got ${short}/${medium}/${long}/${trend})`);
+    }
+
+    if (problems.length > 0) {
+        throw new Error(`Invalid indicator settings: ${problems.join('; ')}`);
+    }
+}
+
+/**
+ * Compact label for reports, e.g. "RSI14 MACD12/26/9 BB20x2 MA5/10/20/50 VOL20"
+ */
+export function formatIndicatorSettings(settings: IndicatorSettings): string {
+    const { short, medium, long, trend } = settings.maPeriods;
+    return [
+        `RSI${settings.rsiPeriod}`,
+        `MACD${settings.macdFastPeriod}/${settings.macdSlowPeriod}/${settings.macdSignalPeriod}`,
+        `BB${settings.bbPeriod}x${settings.bbMultiplier}`,
+        `MA${short}/${medium}/${long}/${trend}`,
+        `VOL${settings.volumePeriod}`
+    ].join(' ');
+}
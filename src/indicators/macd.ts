@@ -6,28 +6,48 @@ export interface MACDResult {
 }
 
 export class MACDCalculator {
-    static calculate(closePrices: number[], fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9): MACDResult[] {
+    /**
+     * MACD for every price; null until the slow EMA and the signal line are both seeded
+     * (the first slowPeriod + signalPeriod - 2 entries)
+     */
+    static calculate(
+        closePrices: number[],
+        fastPeriod: number = 12,
+        slowPeriod: number = 26,
+        signalPeriod: number = 9
+    ): (MACDResult | null)[] {
         const fastEMA = this.calculateEMA(closePrices, fastPeriod);
         const slowEMA = this.calculateEMA(closePrices, slowPeriod);
 
         const dif = fastEMA.map((fast, i) => fast - slowEMA[i]);
         const dea = this.calculateEMA(dif, signalPeriod);
 
-        return dif.map((d, i) => ({
+        return dif.map((d, i) => (Number.isNaN(dea[i]) ? null : {
             macd: d,
             signal: dea[i],
             histogram: 2 * (d - dea[i])
         }));
     }
 
-    private static calculateEMA(data: number[], period: number): number[] {
-        const k = 2 / (period + 1);
-        const ema: number[] = [data[0]];
+    /**
+     * EMA seeded with the simple average of the first period of values; NaN before the seed.
+     * Leading NaN inputs (an EMA of an EMA) are skipped.
+     */
+    static calculateEMA(data: number[], period: number): number[] {
+        const ema = data.map(() => NaN);
+        const start = data.findIndex(value => !Number.isNaN(value));
+        if (start === -1 || data.length - start < period) {
+            return ema;
+        }
+
+        const seedIndex = start + period - 1;
+        ema[seedIndex] = data.slice(start, seedIndex + 1).reduce((sum, value) => sum + value, 0) / period;
 
-        for (let i = 1; i < data.length; i++) {
-            ema.push(data[i] * k + ema[i - 1] * (1 - k));
+        const k = 2 / (period + 1);
+        for (let i = seedIndex + 1; i < data.length; i++) {
+            ema[i] = data[i] * k + ema[i - 1] * (1 - k);
         }
 
         return ema;
     }
-}
\ No newline at end of file
+}
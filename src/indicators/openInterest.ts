@@ -0,0 +1,88 @@
+// src/indicators/openInterest.ts
+import { Kline, OpenInterestData } from '../binance/types';
+
+export interface OpenInterestMetrics {
+    openInterest: number;               // Latest open interest in contracts
+    openInterestValue: number;          // Latest open interest value in USDT
+    oiChangePercent: number;            // % change of open interest (contracts) over the window
+    priceChangePercent: number;         // % change of the close price over the same window
+    oiToVolumeRatio: number;            // Open interest value / 24h quote volume
+    quadrant: 'NEW_LONGS' | 'SHORT_COVERING' | 'NEW_SHORTS' | 'LONG_LIQUIDATION' | 'NEUTRAL';
+    periods: number;                    // Number of OI periods in the window
+}
+
+export class OpenInterestAnalyzer {
+    /**
+     * Compare open interest and price over the last periods of OI history (oldest first).
+     * Contracts are used for the change so that price moves don't show up as OI growth.
+     */
+    static analyze(
+        history: OpenInterestData[],
+        klines: Kline[],
+        quoteVolume24h: number,
+        lookbackPeriods: number = 6,
+        minOiChangePercent: number = 1
+    ): OpenInterestMetrics | undefined {
+        if (history.length === 0) return undefined;
+
+        const window = history.slice(-(lookbackPeriods + 1));
+        const first = window[0];
+        const latest = window[window.length - 1];
+
+        const openInterest = parseFloat(latest.sumOpenInterest);
+        const openInterestValue = parseFloat(latest.sumOpenInterestValue);
+        const oiChangePercent = this.percentChange(parseFloat(first.sumOpenInterest), openInterest);
+
+        const startPrice = this.closeAt(klines, first.timestamp);
+        const endPrice = klines.length > 0 ? klines[klines.length - 1].close : undefined;
+        const priceChangePercent = startPrice !== undefined && endPrice !== undefined
+            ? this.percentChange(startPrice, endPrice)
+            : 0;
+
+        return {
+            openInterest,
+            openInterestValue,
+            oiChangePercent: Number(oiChangePercent.toFixed(2)),
+            priceChangePercent: Number(priceChangePercent.toFixed(2)),
+            oiToVolumeRatio: quoteVolume24h > 0 ? Number((openInterestValue / quoteVolume24h).toFixed(4)) : 0,
+            quadrant: this.classifyQuadrant(oiChangePercent, priceChangePercent, minOiChangePercent),
+            periods: window.length - 1
+        };
+    }
+
+    /**
+     * Price up + OI up: new longs; price up + OI down: short covering;
+     * price down + OI up: new shorts; price down + OI down: long liquidation
+     */
+    private static classifyQuadrant(
+        oiChangePercent: number,
+        priceChangePercent: number,
+        minOiChangePercent: number
+    ): OpenInterestMetrics['quadrant'] {
+        if (Math.abs(oiChangePercent) < minOiChangePercent || priceChangePercent === 0) {
+            return 'NEUTRAL';
+        }
+
+        if (priceChangePercent > 0) {
+            return oiChangePercent > 0 ? 'NEW_LONGS' : 'SHORT_COVERING';
+        }
+        return oiChangePercent > 0 ? 'NEW_SHORTS' : 'LONG_LIQUIDATION';
+    }
+
+    /**
+     * Close of the last candle that opened at or before the timestamp
+     */
+    private static closeAt(klines: Kline[], timestamp: number): number | undefined {
+        let close: number | undefined = klines[0]?.close;
+        for (const kline of klines) {
+            if (kline.date > timestamp) break;
+            close = kline.close;
+        }
+        return close;
+    }
+
+    private static percentChange(from: number, to: number): number {
+        if (!from) return 0;
+        return ((to - from) / from) * 100;
+    }
+}
@@ -0,0 +1,165 @@
+// src/indicators/orderBook.ts
+import { OrderBookDepth, OrderBookLevel } from '../binance/types';
+
+export interface DepthBandImbalance {
+    bandPercent: number;                // Distance from the mid price covered by the band (%)
+    bidNotional: number;                // USDT resting on the bid side within the band
+    askNotional: number;                // USDT resting on the ask side within the band
+    imbalance: number;                  // (bid - ask) / (bid + ask), -1 (all asks) .. 1 (all bids)
+}
+
+export interface OrderBookWall {
+    side: 'BID' | 'ASK';
+    price: number;
+    notional: number;
+    distancePercent: number;            // Distance from the mid price (%)
+    sizeMultiple: number;               // Notional relative to the median level on the same side
+}
+
+export interface OrderBookMetrics {
+    bestBid: number;
+    bestAsk: number;
+    midPrice: number;
+    spreadBps: number;
+    imbalances: DepthBandImbalance[];
+    walls: OrderBookWall[];             // Largest first
+    referenceNotional: number;          // Order size used for the slippage estimate (USDT)
+    buySlippageBps: number | null;      // Market buy of referenceNotional vs mid; null if the snapshot is too shallow
+    sellSlippageBps: number | null;
+    isThinBook: boolean;
+    thinBookReasons: string[];
+}
+
+export interface OrderBookAnalyzerOptions {
+    bandPercents?: number[];            // Default [0.1, 0.5, 1, 2]
+    referenceNotional?: number;         // Default 10,000 USDT
+    wallRangePercent?: number;          // Only look for walls this close to the mid price, default 2%
+    wallMultiple?: number;              // Level notional / median level notional to count as a wall, default 5
+    maxSpreadBps?: number;              // Wider spreads flag a thin book, default 10
+    maxSlippageBps?: number;            // Higher slippage flags a thin book, default 20
+}
+
+export class OrderBookAnalyzer {
+    /**
+     * Liquidity metrics from an order book snapshot
+     */
+    static analyze(depth: OrderBookDepth, options: OrderBookAnalyzerOptions = {}): OrderBookMetrics | undefined {
+        const bestBid = depth.bids[0]?.price;
+        const bestAsk = depth.asks[0]?.price;
+        if (!bestBid || !bestAsk) return undefined;
+
+        const bandPercents = options.bandPercents ?? [0.1, 0.5, 1, 2];
+        const referenceNotional = options.referenceNotional ?? 10000;
+        const maxSpreadBps = options.maxSpreadBps ?? 10;
+        const maxSlippageBps = options.maxSlippageBps ?? 20;
+
+        const midPrice = (bestBid + bestAsk) / 2;
+        const spreadBps = ((bestAsk - bestBid) / midPrice) * 10000;
+
+        const imbalances = bandPercents.map(bandPercent => {
+            const bidNotional = this.notionalWithin(depth.bids, midPrice, bandPercent);
+            const askNotional = this.notionalWithin(depth.asks, midPrice, bandPercent);
+            const total = bidNotional + askNotional;
+            return {
+                bandPercent,
+                bidNotional: Number(bidNotional.toFixed(2)),
+                askNotional: Number(askNotional.toFixed(2)),
+                imbalance: total > 0 ? Number(((bidNotional - askNotional) / total).toFixed(4)) : 0
+            };
+        });
+
+        const wallRangePercent = options.wallRangePercent ?? 2;
+        const wallMultiple = options.wallMultiple ?? 5;
+        const walls = [
+            ...this.findWalls(depth.bids, 'BID', midPrice, wallRangePercent, wallMultiple),
+            ...this.findWalls(depth.asks, 'ASK', midPrice, wallRangePercent, wallMultiple)
+        ].sort((a, b) => b.notional - a.notional);
+
+        const buySlippageBps = this.estimateSlippage(depth.asks, midPrice, referenceNotional);
+        const sellSlippageBps = this.estimateSlippage(depth.bids, midPrice, referenceNotional);
+
+        const thinBookReasons: string[] = [];
+        if (spreadBps > maxSpreadBps) {
+            thinBookReasons.push(`spread ${spreadBps.toFixed(1)}bps > ${maxSpreadBps}bps`);
+        }
+        for (const [side, slippage] of [['buy', buySlippageBps], ['sell', sellSlippageBps]] as const) {
+            if (slippage === null) {
+                thinBookReasons.push(`${side} side cannot fill ${referenceNotional} USDT`);
+            } else if (slippage > maxSlippageBps) {
+                thinBookReasons.push(`${side} slippage ${slippage.toFixed(1)}bps > ${maxSlippageBps}bps`);
+            }
+        }
+
+        return {
+            bestBid,
+            bestAsk,
+            midPrice,
+            spreadBps: Number(spreadBps.toFixed(2)),
+            imbalances,
+            walls,
+            referenceNotional,
+            buySlippageBps,
+            sellSlippageBps,
+            isThinBook: thinBookReasons.length > 0,
+            thinBookReasons
+        };
+    }
+
+    private static notionalWithin(levels: OrderBookLevel[], midPrice: number, bandPercent: number): number {
+        return levels
+            .filter(level => Math.abs(level.price - midPrice) / midPrice * 100 <= bandPercent)
+            .reduce((sum, level) => sum + level.price * level.quantity, 0);
+    }
+
+    /**
+     * Levels near the mid price that are much larger than the typical level on the same side
+     */
+    private static findWalls(
+        levels: OrderBookLevel[],
+        side: OrderBookWall['side'],
+        midPrice: number,
+        rangePercent: number,
+        wallMultiple: number
+    ): OrderBookWall[] {
+        const nearby = levels.filter(level => Math.abs(level.price - midPrice) / midPrice * 100 <= rangePercent);
+        if (nearby.length < 3) return [];
+
+        const notionals = nearby.map(level => level.price * level.quantity);
+        const sorted = [...notionals].sort((a, b) => a - b);
+        const median = sorted[Math.floor(sorted.length / 2)];
+        if (median <= 0) return [];
+
+        return nearby
+            .map((level, i) => ({
+                side,
+                price: level.price,
+                notional: Number(notionals[i].toFixed(2)),
+                distancePercent: Number((Math.abs(level.price - midPrice) / midPrice * 100).toFixed(3)),
+                sizeMultiple: Number((notionals[i] / median).toFixed(2))
+            }))
+            .filter(wall => wall.sizeMultiple >= wallMultiple)
+            .sort((a, b) => b.notional - a.notional)
+            .slice(0, 3);
+    }
+
+    /**
+     * Average fill price of a market order walking the book, in bps away from the mid price
+     */
+    private static estimateSlippage(levels: OrderBookLevel[], midPrice: number, notional: number): number | null {
+        let remaining = notional;
+        let filledQuantity = 0;
+
+        for (const level of levels) {
+            const levelNotional = level.price * level.quantity;
+            const take = Math.min(remaining, levelNotional);
+            filledQuantity += take / level.price;
+            remaining -= take;
+            if (remaining <= 0) break;
+        }
+
+        if (remaining > 0 || filledQuantity === 0) return null;
+
+        const averagePrice = notional / filledQuantity;
+        return Number((Math.abs(averagePrice - midPrice) / midPrice * 10000).toFixed(2));
+    }
+}
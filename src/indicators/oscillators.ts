@@ -0,0 +1,202 @@
+// src/indicators/oscillators.ts
+
+export type OscillatorState = 'OVERBOUGHT' | 'OVERSOLD' | 'NEUTRAL';
+
+export interface StochasticResult {
+    k: number;                      // Smoothed %K (0..100)
+    d: number;                      // %D, moving average of %K
+    state: OscillatorState;         // %K at or above 80 / at or below 20
+}
+
+export interface WilliamsRResult {
+    value: number;                  // -100..0
+    state: OscillatorState;         // At or above -20 / at or below -80
+}
+
+export interface CCIResult {
+    value: number;
+    state: OscillatorState;         // At or above +100 / at or below -100
+}
+
+export interface MFIResult {
+    value: number;                  // Volume-weighted RSI (0..100)
+    state: OscillatorState;         // At or above 80 / at or below 20
+}
+
+export interface StochasticOptions {
+    kPeriod?: number;               // Lookback for the highest high / lowest low, default 14
+    smoothK?: number;               // SMA applied to the raw %K, default 3
+    dPeriod?: number;               // SMA of %K, default 3
+}
+
+export interface StochRSIOptions extends StochasticOptions {
+    rsiPeriod?: number;             // Default 14
+}
+
+// Overbought / oversold levels
+export const STOCHASTIC_LEVELS = { overbought: 80, oversold: 20 };
+export const WILLIAMS_R_LEVELS = { overbought: -20, oversold: -80 };
+export const CCI_LEVELS = { overbought: 100, oversold: -100 };
+export const MFI_LEVELS = { overbought: 80, oversold: 20 };
+
+function classify(value: number, levels: { overbought: number; oversold: number }): OscillatorState {
+    if (value >= levels.overbought) return 'OVERBOUGHT';
+    if (value <= levels.oversold) return 'OVERSOLD';
+    return 'NEUTRAL';
+}
+
+function sma(values: number[], period: number): number[] {
+    return values.map((_, i) => {
+        const window = values.slice(Math.max(0, i - period + 1), i + 1);
+        return window.reduce((sum, value) => sum + value, 0) / window.length;
+    });
+}
+
+const last = <T>(values: T[]) => values[values.length - 1];
+const round = (value: number) => Number(value.toFixed(2));
+
+// Smooth the raw %K and derive %D, one result per value
+function smoothStochastic(rawK: number[], options: StochasticOptions): StochasticResult[] {
+    const k = sma(rawK, options.smoothK ?? 3);
+    const d = sma(k, options.dPeriod ?? 3);
+    return k.map((value, i) => ({ k: round(value), d: round(d[i]), state: classify(value, STOCHASTIC_LEVELS) }));
+}
+
+export class Oscillators {
+    /**
+     * Position of each value within its lookback range (0..100); 50 when the range is flat
+     */
+    static calculateStochasticSeries(highs: number[], lows: number[], values: number[], period: number): number[] {
+        return values.map((value, i) => {
+            const start = Math.max(0, i - period + 1);
+            const highest = Math.max(...highs.slice(start, i + 1));
+            const lowest = Math.min(...lows.slice(start, i + 1));
+            return highest > lowest ? ((value - lowest) / (highest - lowest)) * 100 : 50;
+        });
+    }
+
+    /**
+     * Slow Stochastic %K / %D
+     */
+    static calculateStochastic(
+        highs: number[],
+        lows: number[],
+        closes: number[],
+        options: StochasticOptions = {}
+    ): StochasticResult {
+        return last(this.calculateSlowStochasticSeries(highs, lows, closes, options));
+    }
+
+    /**
+     * Slow Stochastic %K / %D for every candle
+     */
+    static calculateSlowStochasticSeries(
+        highs: number[],
+        lows: number[],
+        closes: number[],
+        options: StochasticOptions = {}
+    ): StochasticResult[] {
+        const rawK = this.calculateStochasticSeries(highs, lows, closes, options.kPeriod ?? 14);
+        return smoothStochastic(rawK, options);
+    }
+
+    /**
+     * Wilder RSI for every price; 50 until the first period is filled
+     */
+    static calculateRSISeries(prices: number[], period: number = 14): number[] {
+        const series: number[] = prices.map(() => 50);
+        let avgGain = 0;
+        let avgLoss = 0;
+
+        for (let i = 1; i < prices.length; i++) {
+            const gain = Math.max(prices[i] - prices[i - 1], 0);
+            const loss = Math.max(prices[i - 1] - prices[i], 0);
+            if (i <= period) {
+                avgGain += gain / period;
+                avgLoss += loss / period;
+                if (i < period) continue;
+            } else {
+                avgGain = (avgGain * (period - 1) + gain) / period;
+                avgLoss = (avgLoss * (period - 1) + loss) / period;
+            }
+            series[i] = avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss);
+        }
+
+        return series;
+    }
+
+    /**
+     * Stochastic applied to RSI instead of price
+     */
+    static calculateStochRSI(closes: number[], options: StochRSIOptions = {}): StochasticResult {
+        return last(this.calculateStochRSISeries(closes, options));
+    }
+
+    /**
+     * Stochastic RSI for every candle
+     */
+    static calculateStochRSISeries(closes: number[], options: StochRSIOptions = {}): StochasticResult[] {
+        const rsi = this.calculateRSISeries(closes, options.rsiPeriod ?? 14);
+        const rawK = this.calculateStochasticSeries(rsi, rsi, rsi, options.kPeriod ?? 14);
+        return smoothStochastic(rawK, options);
+    }
+
+    /**
+     * Williams %R: distance of the close below the highest high of the period
+     */
+    static calculateWilliamsR(highs: number[], lows: number[], closes: number[], period: number = 14): WilliamsRResult {
+        const highest = Math.max(...highs.slice(-period));
+        const lowest = Math.min(...lows.slice(-period));
+        const williamsR = highest > lowest ? ((highest - last(closes)) / (highest - lowest)) * -100 : -50;
+        return { value: round(williamsR), state: classify(williamsR, WILLIAMS_R_LEVELS) };
+    }
+
+    /**
+     * Commodity Channel Index of the typical price
+     */
+    static calculateCCI(highs: number[], lows: number[], closes: number[], period: number = 20): CCIResult {
+        const typicalPrices = closes.map((close, i) => (highs[i] + lows[i] + close) / 3).slice(-period);
+        const mean = typicalPrices.reduce((sum, tp) => sum + tp, 0) / typicalPrices.length;
+        const meanDeviation = typicalPrices.reduce((sum, tp) => sum + Math.abs(tp - mean), 0) / typicalPrices.length;
+        const cci = meanDeviation > 0 ? (last(typicalPrices) - mean) / (0.015 * meanDeviation) : 0;
+
+        return { value: round(cci), state: classify(cci, CCI_LEVELS) };
+    }
+
+    /**
+     * Money Flow Index: RSI of typical price weighted by volume
+     */
+    static calculateMFI(
+        highs: number[],
+        lows: number[],
+        closes: number[],
+        volumes: number[],
+        period: number = 14
+    ): MFIResult {
+        const typicalPrices = closes.map((close, i) => (highs[i] + lows[i] + close) / 3);
+        let positiveFlow = 0;
+        let negativeFlow = 0;
+
+        for (let i = Math.max(1, typicalPrices.length - period); i < typicalPrices.length; i++) {
+            const moneyFlow = typicalPrices[i] * volumes[i];
+            if (typicalPrices[i] > typicalPrices[i - 1]) {
+                positiveFlow += moneyFlow;
+            } else if (typicalPrices[i] < typicalPrices[i - 1]) {
+                negativeFlow += moneyFlow;
+            }
+        }
+
+        const mfi = negativeFlow > 0
+            ? 100 - 100 / (1 + positiveFlow / negativeFlow)
+            : positiveFlow > 0 ? 100 : 50;
+
+        return { value: round(mfi), state: classify(mfi, MFI_LEVELS) };
+    }
+
+    /**
+     * Overbought / oversold state of an RSI value (70 / 30)
+     */
+    static classifyRSI(rsi: number): OscillatorState {
+        return classify(rsi, { overbought: 70, oversold: 30 });
+    }
+}
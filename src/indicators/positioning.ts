@@ -0,0 +1,83 @@
+// src/indicators/positioning.ts
+import { LongShortRatioData, TakerVolumeData } from '../binance/types';
+
+export interface PositioningIndicators {
+    globalLongShortRatio: number;       // All accounts, latest period
+    topTraderLongShortRatio: number;    // Top trader positions, latest period
+    longAccountPercent: number;         // Share of accounts that are long (%)
+    longShortRatioChange: number;       // % change of the global ratio over the window
+    crowdingScore: number;              // -1 (shorts crowded) .. 1 (longs crowded)
+    crowding: 'CROWDED_LONG' | 'CROWDED_SHORT' | 'BALANCED';
+    takerBuySellRatio: number;          // Taker buy / sell volume over the recent periods
+    takerRatioChange: number;           // % change of the taker ratio, recent half vs earlier half of the window
+    takerAggression: 'BUYERS' | 'SELLERS' | 'NEUTRAL';
+}
+
+export class PositioningAnalyzer {
+    /**
+     * Derive crowding and taker aggression from ratio histories (oldest first)
+     */
+    static analyze(
+        globalRatios: LongShortRatioData[],
+        topTraderRatios: LongShortRatioData[],
+        takerVolumes: TakerVolumeData[],
+        recentPeriods: number = 6
+    ): PositioningIndicators {
+        const latestGlobal = globalRatios[globalRatios.length - 1];
+        const latestTop = topTraderRatios[topTraderRatios.length - 1];
+
+        const globalLongShortRatio = latestGlobal?.longShortRatio ?? 1;
+        const topTraderLongShortRatio = latestTop?.longShortRatio ?? globalLongShortRatio;
+
+        // A ratio of 3:1 (or 1:3) counts as fully crowded
+        const ratioScore = (ratio: number) => Math.max(-1, Math.min(1, Math.log(ratio) / Math.log(3)));
+        const crowdingScore = (ratioScore(globalLongShortRatio) + ratioScore(topTraderLongShortRatio)) / 2;
+
+        let crowding: PositioningIndicators['crowding'] = 'BALANCED';
+        if (crowdingScore >= 0.5) {
+            crowding = 'CROWDED_LONG';
+        } else if (crowdingScore <= -0.5) {
+            crowding = 'CROWDED_SHORT';
+        }
+
+        const recentTaker = takerVolumes.slice(-recentPeriods);
+        const takerBuySellRatio = this.aggregateTakerRatio(recentTaker);
+
+        let takerAggression: PositioningIndicators['takerAggression'] = 'NEUTRAL';
+        if (takerBuySellRatio > 1.1) {
+            takerAggression = 'BUYERS';
+        } else if (takerBuySellRatio < 0.9) {
+            takerAggression = 'SELLERS';
+        }
+
+        const half = Math.floor(takerVolumes.length / 2);
+        const earlierTakerRatio = this.aggregateTakerRatio(takerVolumes.slice(0, half));
+        const laterTakerRatio = this.aggregateTakerRatio(takerVolumes.slice(half));
+
+        return {
+            globalLongShortRatio,
+            topTraderLongShortRatio,
+            longAccountPercent: Number(((latestGlobal?.longShare ?? 0.5) * 100).toFixed(2)),
+            longShortRatioChange: Number(this.percentChange(globalRatios[0]?.longShortRatio, globalLongShortRatio).toFixed(2)),
+            crowdingScore: Number(crowdingScore.toFixed(4)),
+            crowding,
+            takerBuySellRatio: Number(takerBuySellRatio.toFixed(4)),
+            takerRatioChange: Number(this.percentChange(earlierTakerRatio, laterTakerRatio).toFixed(2)),
+            takerAggression
+        };
+    }
+
+    /**
+     * Volume-weighted taker buy/sell ratio
+     */
+    private static aggregateTakerRatio(volumes: TakerVolumeData[]): number {
+        const buy = volumes.reduce((sum, item) => sum + item.buyVolume, 0);
+        const sell = volumes.reduce((sum, item) => sum + item.sellVolume, 0);
+        return sell > 0 ? buy / sell : 1;
+    }
+
+    private static percentChange(from: number | undefined, to: number): number {
+        if (!from) return 0;
+        return ((to - from) / from) * 100;
+    }
+}
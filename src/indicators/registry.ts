@@ -0,0 +1,229 @@
+// src/indicators/registry.ts
+import { FundingRateData, Kline, OpenInterestData } from '../binance/types';
+import { IndicatorSettings } from './indicatorSettings';
+
+// Data an indicator can depend on; indicators whose inputs are unavailable are skipped
+export type IndicatorInput = 'ohlcv' | 'takerVolume' | 'openInterest' | 'funding';
+
+export interface IndicatorInputs {
+    klines: Kline[];                            // OHLCV, oldest first
+    openInterestHistory?: OpenInterestData[];   // Aligned with the kline interval
+    fundingHistory?: FundingRateData[];
+}
+
+export interface IndicatorOutputField {
+    key: string;                    // Property of the indicator output
+    label: string;                  // Column / prompt label
+    format: 'price' | 'number' | 'text' | 'flag';   // flag: boolean shown as YES / NO
+    digits?: number;                // Decimal places for numbers (prices use the contract tick size)
+}
+
+// Contribution of an indicator to the local bullish / bearish score
+export interface IndicatorScore {
+    bullish: number;
+    bearish: number;
+    detail: string;
+}
+
+export interface IndicatorDefinition<P extends object = any, O extends object = any> {
+    id: string;
+    name: string;
+    inputs: IndicatorInput[];
+    outputs: IndicatorOutputField[];
+    defaultParams: (settings: IndicatorSettings) => P;
+    validate?: (params: P) => string[];         // Problems with the parameters, empty when valid
+    warmup: (params: P) => number;              // Candles needed before the output is fully formed
+    calculate: (inputs: IndicatorInputs, params: P) => O | undefined;
+    // Optional per-bar output aligned with the klines; without it the series is calculated on each prefix
+    calculateSeries?: (inputs: IndicatorInputs, params: P) => (O | undefined)[];
+    score?: (output: O, params: P) => IndicatorScore | undefined;
+}
+
+// One bar of an indicator series; value is null during the warm-up or when the indicator has no output
+export interface IndicatorSeriesPoint<O = any> {
+    time: number;                   // Kline open time
+    value: O | null;
+}
+
+/**
+ * Output of one indicator, self-describing so exporters and prompts don't need the registry
+ */
+export interface IndicatorResult<O = any> {
+    id: string;
+    name: string;
+    params: Record<string, unknown>;
+    warmup: number;
+    warmedUp: boolean;              // False when fewer candles than the warm-up length were available
+    outputs: IndicatorOutputField[];
+    value: O;
+    series?: IndicatorSeriesPoint<O>[];    // One point per kline, only when requested
+}
+
+export interface IndicatorSelection {
+    indicators?: string[];                                  // Ids to run, default every registered indicator
+    indicatorParams?: Record<string, Record<string, unknown>>; // Per-indicator parameter overrides
+}
+
+export interface IndicatorRunSettings {
+    series?: boolean;               // Also return the per-bar series of every indicator
+    precomputed?: Record<string, unknown>; // Latest values already calculated elsewhere (e.g. streaming), by id
+}
+
+export interface ResolvedIndicator {
+    definition: IndicatorDefinition;
+    params: Record<string, unknown>;
+}
+
+function hasInput(inputs: IndicatorInputs, input: IndicatorInput): boolean {
+    switch (input) {
+        case 'ohlcv':
+            return inputs.klines.length > 0;
+        case 'takerVolume':
+            return inputs.klines.length > 0 && inputs.klines.every(k => k.takerBuyBaseVolume !== undefined);
+        case 'openInterest':
+            return (inputs.openInterestHistory?.length ?? 0) > 0;
+        case 'funding':
+            return (inputs.fundingHistory?.length ?? 0) > 0;
+    }
+}
+
+/**
+ * Indicators by id, run in registration order
+ */
+export class IndicatorRegistry {
+    private definitions: Map<string, IndicatorDefinition> = new Map();
+
+    register(definition: IndicatorDefinition): this {
+        if (this.definitions.has(definition.id)) {
+            throw new Error(`Indicator "${definition.id}" is already registered`);
+        }
+        this.definitions.set(definition.id, definition);
+        return this;
+    }
+
+    get(id: string): IndicatorDefinition | undefined {
+        return this.definitions.get(id);
+    }
+
+    list(): IndicatorDefinition[] {
+        return Array.from(this.definitions.values());
+    }
+
+    /**
+     * Resolve the selected indicators and their parameters; throws one error listing every problem
+     */
+    resolve(settings: IndicatorSettings, selection: IndicatorSelection = {}): ResolvedIndicator[] {
+        const ids = selection.indicators ?? Array.from(this.definitions.keys());
+        const problems: string[] = [];
+        const resolved: ResolvedIndicator[] = [];
+
+        for (const id of Object.keys(selection.indicatorParams ?? {})) {
+            if (!ids.includes(id)) {
+                problems.push(`parameters given for indicator "${id}" which is not selected`);
+            }
+        }
+
+        for (const id of ids) {
+            const definition = this.definitions.get(id);
+            if (!definition) {
+                problems.push(`unknown indicator "${id}"`);
+                continue;
+            }
+            const params = { ...definition.defaultParams(settings), ...selection.indicatorParams?.[id] };
+            for (const problem of definition.validate?.(params) ?? []) {
+                problems.push(`${id}: ${problem}`);
+            }
+            resolved.push({ definition, params });
+        }
+
+        if (problems.length > 0) {
+            throw new Error(`Invalid indicator selection: ${problems.join('; ')}`);
+        }
+        return resolved;
+    }
+
+    /**
+     * Run the selected indicators over the available inputs
+     */
+    run(
+        inputs: IndicatorInputs,
+        settings: IndicatorSettings,
+        selection: IndicatorSelection = {},
+        runSettings: IndicatorRunSettings = {}
+    ): IndicatorResult[] {
+        const results: IndicatorResult[] = [];
+
+        for (const { definition, params } of this.resolve(settings, selection)) {
+            if (!definition.inputs.every(input => hasInput(inputs, input))) {
+                continue;
+            }
+            const value = runSettings.precomputed?.[definition.id] ?? definition.calculate(inputs, params);
+            if (value === undefined) {
+                continue;
+            }
+            const warmup = definition.warmup(params);
+            const result: IndicatorResult = {
+                id: definition.id,
+                name: definition.name,
+                params,
+                warmup,
+                warmedUp: inputs.klines.length >= warmup,
+                outputs: definition.outputs,
+                value
+            };
+            if (runSettings.series) {
+                result.series = this.calculateSeries(definition, inputs, params, warmup);
+            }
+            results.push(result);
+        }
+
+        return results;
+    }
+
+    /**
+     * Per-bar values, masked with null until the warm-up length is reached
+     */
+    private calculateSeries(
+        definition: IndicatorDefinition,
+        inputs: IndicatorInputs,
+        params: Record<string, unknown>,
+        warmup: number
+    ): IndicatorSeriesPoint[] {
+        const { klines } = inputs;
+        const intervalMs = klines.length > 1 ? klines[1].date - klines[0].date : 0;
+        const values = definition.calculateSeries
+            ? definition.calculateSeries(inputs, params)
+            : klines.map((_, i) => (i + 1 < warmup ? undefined : definition.calculate(prefixOf(inputs, i, intervalMs), params)));
+
+        return inputs.klines.map((kline, i) => ({
+            time: kline.date,
+            value: i + 1 < warmup ? null : values[i] ?? null
+        }));
+    }
+}
+
+// Inputs up to the kline at `index` (open interest and funding recorded before it closes)
+function prefixOf(inputs: IndicatorInputs, index: number, intervalMs: number): IndicatorInputs {
+    const kline = inputs.klines[index];
+    const closeTime = kline.closeTime ?? kline.date + Math.max(intervalMs - 1, 0);
+    return {
+        klines: inputs.klines.slice(0, index + 1),
+        openInterestHistory: inputs.openInterestHistory?.filter(item => item.timestamp <= closeTime),
+        fundingHistory: inputs.fundingHistory?.filter(item => item.fundingTime <= closeTime)
+    };
+}
+
+/**
+ * Format one output value of a result; prices fall back to 8 decimals when no formatter is given
+ */
+export function formatIndicatorField(
+    field: IndicatorOutputField,
+    value: unknown,
+    formatPrice: (price: number) => string = price => price.toFixed(8)
+): string {
+    if (value === undefined || value === null) return 'N/A';
+    if (field.format === 'flag') return value ? 'YES' : 'NO';
+    if (typeof value !== 'number') return String(value);
+    if (field.format === 'price') return formatPrice(value);
+    return field.digits !== undefined ? value.toFixed(field.digits) : value.toString();
+}
@@ -0,0 +1,531 @@
+// src/indicators/streaming.ts
+import { Kline } from '../binance/types';
+import { BinanceMarketStream, KlineEvent } from '../binance/marketStream';
+import { MACDResult } from './macd';
+import { BollingerBands, MovingAverages } from './basicIndicators';
+import { VolumeStats } from './volume';
+import { DEFAULT_INDICATOR_SETTINGS, IndicatorSettings, MovingAveragePeriods } from './indicatorSettings';
+
+/**
+ * Stateful indicator fed one candle at a time. `add` appends a candle, `updateLast` revises the latest
+ * (still open) candle; both are O(1). Values are null until the indicator is warmed up.
+ */
+export abstract class StreamingIndicator<I, O> {
+    private pending: I | undefined;
+    private latest: O | null = null;
+    private candles = 0;
+
+    add(input: I): O | null {
+        if (this.pending !== undefined) {
+            this.commit(this.pending);
+        }
+        this.candles++;
+        return this.updateLast(input);
+    }
+
+    updateLast(input: I): O | null {
+        if (this.candles === 0) {
+            return this.add(input);
+        }
+        this.pending = input;
+        this.latest = this.preview(input);
+        return this.latest;
+    }
+
+    get value(): O | null {
+        return this.latest;
+    }
+
+    get count(): number {
+        return this.candles;
+    }
+
+    // Fold a finished candle into the state
+    protected abstract commit(input: I): void;
+    // Value with the given candle as the latest one, without changing the state
+    protected abstract preview(input: I): O | null;
+}
+
+/**
+ * Fixed-size window of the most recent committed values
+ */
+class RingBuffer {
+    private values: number[];
+    private start = 0;
+    length = 0;
+
+    constructor(private readonly capacity: number) {
+        this.values = new Array(capacity);
+    }
+
+    get full(): boolean {
+        return this.length === this.capacity;
+    }
+
+    // Oldest value, the one dropped by the next push once full
+    get oldest(): number {
+        return this.values[this.start];
+    }
+
+    push(value: number): void {
+        if (this.full) {
+            this.values[this.start] = value;
+            this.start = (this.start + 1) % this.capacity;
+        } else {
+            this.values[(this.start + this.length) % this.capacity] = value;
+            this.length++;
+        }
+    }
+}
+
+/**
+ * EMA seeded with the simple average of the first period, as MACDCalculator.calculateEMA
+ */
+export class StreamingEMA extends StreamingIndicator<number, number> {
+    private readonly k: number;
+    private committed = 0;
+    private seedSum = 0;
+    private ema = NaN;
+
+    constructor(private readonly period: number) {
+        super();
+        this.k = 2 / (period + 1);
+    }
+
+    protected commit(input: number): void {
+        this.committed++;
+        if (this.committed < this.period) {
+            this.seedSum += input;
+        } else {
+            this.ema = this.next(input, this.committed);
+        }
+    }
+
+    protected preview(input: number): number | null {
+        const count = this.committed + 1;
+        return count < this.period ? null : this.next(input, count);
+    }
+
+    private next(input: number, count: number): number {
+        if (count === this.period) {
+            return (this.seedSum + input) / this.period;
+        }
+        return input * this.k + this.ema * (1 - this.k);
+    }
+}
+
+/**
+ * MACD from streaming EMAs, as MACDCalculator.calculate
+ */
+export class StreamingMACD extends StreamingIndicator<number, MACDResult> {
+    private readonly fast: StreamingEMA;
+    private readonly slow: StreamingEMA;
+    private readonly signal: StreamingEMA;
+    private signalCandles = 0;      // Candles of the slow EMA the signal line has seen
+
+    constructor(fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9) {
+        super();
+        this.fast = new StreamingEMA(fastPeriod);
+        this.slow = new StreamingEMA(slowPeriod);
+        this.signal = new StreamingEMA(signalPeriod);
+    }
+
+    // The EMAs keep their own pending candle, so committing only advances them on the next add
+    protected commit(): void {}
+
+    protected preview(input: number): MACDResult | null {
+        const isNewCandle = this.fast.count < this.count;
+        const fast = isNewCandle ? this.fast.add(input) : this.fast.updateLast(input);
+        const slow = isNewCandle ? this.slow.add(input) : this.slow.updateLast(input);
+        if (fast === null || slow === null) return null;
+
+        const dif = fast - slow;
+        const slowCandles = this.slow.count;
+        const dea = this.signalCandles < slowCandles ? this.signal.add(dif) : this.signal.updateLast(dif);
+        this.signalCandles = slowCandles;
+        if (dea === null) return null;
+
+        return { macd: dif, signal: dea, histogram: 2 * (dif - dea) };
+    }
+}
+
+/**
+ * Wilder RSI, as BasicIndicators.calculateRSI (null where the batch function returns the neutral 50)
+ */
+export class StreamingRSI extends StreamingIndicator<number, number> {
+    private previousClose = NaN;
+    private changes = 0;
+    private gains = 0;
+    private losses = 0;
+    private avgGain = 0;
+    private avgLoss = 0;
+
+    constructor(private readonly period: number = 14) {
+        super();
+    }
+
+    protected commit(input: number): void {
+        if (!Number.isNaN(this.previousClose)) {
+            const state = this.next(input);
+            this.changes++;
+            this.gains = state.gains;
+            this.losses = state.losses;
+            this.avgGain = state.avgGain;
+            this.avgLoss = state.avgLoss;
+        }
+        this.previousClose = input;
+    }
+
+    protected preview(input: number): number | null {
+        if (Number.isNaN(this.previousClose) || this.changes + 1 < this.period) return null;
+
+        const { avgGain, avgLoss } = this.next(input);
+        const rsi = avgLoss === 0 ? 100 : 100 - (100 / (1 + avgGain / avgLoss));
+        return Number(rsi.toFixed(2));
+    }
+
+    private next(input: number) {
+        const difference = input - this.previousClose;
+        const count = this.changes + 1;
+        let { gains, losses, avgGain, avgLoss } = this;
+
+        if (count <= this.period) {
+            if (difference >= 0) {
+                gains += difference;
+            } else {
+                losses -= difference;
+            }
+            if (count === this.period) {
+                avgGain = gains / this.period;
+                avgLoss = losses / this.period;
+            }
+        } else {
+            avgGain = (avgGain * (this.period - 1) + Math.max(difference, 0)) / this.period;
+            avgLoss = (avgLoss * (this.period - 1) + Math.max(-difference, 0)) / this.period;
+        }
+
+        return { gains, losses, avgGain, avgLoss };
+    }
+}
+
+/**
+ * Simple moving average over a running sum; equal to the batch average up to floating-point rounding
+ */
+export class StreamingSMA extends StreamingIndicator<number, number> {
+    private readonly window: RingBuffer;
+    private sum = 0;
+
+    constructor(private readonly period: number) {
+        super();
+        this.window = new RingBuffer(period);
+    }
+
+    protected commit(input: number): void {
+        this.sum = this.nextSum(input);
+        this.window.push(input);
+    }
+
+    protected preview(input: number): number | null {
+        return this.window.length + 1 < this.period ? null : this.nextSum(input) / this.period;
+    }
+
+    private nextSum(input: number): number {
+        return this.sum + input - (this.window.full ? this.window.oldest : 0);
+    }
+}
+
+/**
+ * Bollinger Bands over running sums, as BasicIndicators.calculateBollingerBands.
+ * Sums are taken relative to the first price to limit cancellation in the variance.
+ */
+export class StreamingBollingerBands extends StreamingIndicator<number, BollingerBands> {
+    private readonly window: RingBuffer;
+    private reference = NaN;
+    private sum = 0;
+    private sumSquares = 0;
+
+    constructor(private readonly period: number = 20, private readonly multiplier: number = 2) {
+        super();
+        this.window = new RingBuffer(period);
+    }
+
+    protected commit(input: number): void {
+        const { sum, sumSquares } = this.nextSums(input);
+        this.sum = sum;
+        this.sumSquares = sumSquares;
+        this.window.push(input - this.reference);
+    }
+
+    protected preview(input: number): BollingerBands | null {
+        if (Number.isNaN(this.reference)) {
+            this.reference = input; // Fixed on the first candle
+        }
+        if (this.window.length + 1 < this.period) return null;
+
+        const { sum, sumSquares } = this.nextSums(input);
+        const offset = sum / this.period;
+        const middle = this.reference + offset;
+        const stdDev = Math.sqrt(Math.max(sumSquares / this.period - offset * offset, 0));
+
+        const upper = middle + (this.multiplier * stdDev);
+        const lower = middle - (this.multiplier * stdDev);
+        let position: BollingerBands['position'] = 'NORMAL';
+        if (input > upper) {
+            position = 'OVERBOUGHT';
+        } else if (input < lower) {
+            position = 'OVERSOLD';
+        }
+
+        return {
+            upper: Number(upper.toFixed(8)),
+            middle: Number(middle.toFixed(8)),
+            lower: Number(lower.toFixed(8)),
+            bandwidth: Number((((upper - lower) / middle) * 100).toFixed(4)),
+            position
+        };
+    }
+
+    private nextSums(input: number): { sum: number; sumSquares: number } {
+        const shifted = input - this.reference;
+        const dropped = this.window.full ? this.window.oldest : 0;
+        return {
+            sum: this.sum + shifted - dropped,
+            sumSquares: this.sumSquares + shifted * shifted - dropped * dropped
+        };
+    }
+}
+
+/**
+ * Volume ratio and normalized volume trend, as VolumeAnalyzer.calculateVolumeStats.
+ * The regression slope is kept with running sums of y and x*y over the window.
+ */
+export class StreamingVolumeStats extends StreamingIndicator<number, VolumeStats> {
+    private readonly window: RingBuffer;
+    private sum = 0;
+    private sumXY = 0;      // Sum of index * volume, oldest value at index 0
+
+    constructor(private readonly period: number = 20) {
+        super();
+        this.window = new RingBuffer(period);
+    }
+
+    protected commit(input: number): void {
+        const { sum, sumXY } = this.nextSums(input);
+        this.sum = sum;
+        this.sumXY = sumXY;
+        this.window.push(input);
+    }
+
+    protected preview(input: number): VolumeStats {
+        const { sum, sumXY } = this.nextSums(input);
+        const n = Math.min(this.window.length + 1, this.period);
+        const averageVolume = sum / n;
+
+        // The batch trend needs a full window
+        let volumeTrend = 0;
+        if (n === this.period && averageVolume > 0) {
+            const sumX = (n * (n - 1)) / 2;
+            const sumXX = ((n - 1) * n * (2 * n - 1)) / 6;
+            volumeTrend = ((n * sumXY - sumX * sum) / (n * sumXX - sumX * sumX)) / averageVolume;
+        }
+
+        return {
+            currentVolume: input,
+            averageVolume,
+            volumeRatio: input / averageVolume,
+            volumeTrend
+        };
+    }
+
+    private nextSums(input: number): { sum: number; sumXY: number } {
+        if (!this.window.full) {
+            return { sum: this.sum + input, sumXY: this.sumXY + this.window.length * input };
+        }
+        // Dropping the oldest value moves every other value one index down
+        const remaining = this.sum - this.window.oldest;
+        return {
+            sum: remaining + input,
+            sumXY: this.sumXY - remaining + (this.period - 1) * input
+        };
+    }
+}
+
+/**
+ * Latest streaming values for one symbol; fields are missing until warmed up
+ */
+export interface StreamingSnapshot {
+    time: number;                   // Open time of the latest candle
+    currentPrice: number;
+    macd?: MACDResult;
+    rsi?: number;
+    ma?: MovingAverages;            // Once the long period is filled; trend once the trend period is
+    bollingerBands?: BollingerBands;
+    volume?: VolumeStats;
+}
+
+/**
+ * Streaming MACD, RSI, moving averages, Bollinger Bands and volume stats of one symbol
+ */
+export class StreamingIndicatorSet {
+    private readonly macd: StreamingMACD;
+    private readonly rsi: StreamingRSI;
+    private readonly averages: Record<keyof MovingAveragePeriods, StreamingSMA>;
+    private readonly bollingerBands: StreamingBollingerBands;
+    private readonly volume: StreamingVolumeStats;
+    private lastOpenTime = -Infinity;
+
+    constructor(private readonly settings: IndicatorSettings = DEFAULT_INDICATOR_SETTINGS) {
+        const { maPeriods } = settings;
+        this.macd = new StreamingMACD(settings.macdFastPeriod, settings.macdSlowPeriod, settings.macdSignalPeriod);
+        this.rsi = new StreamingRSI(settings.rsiPeriod);
+        this.averages = {
+            short: new StreamingSMA(maPeriods.short),
+            medium: new StreamingSMA(maPeriods.medium),
+            long: new StreamingSMA(maPeriods.long),
+            trend: new StreamingSMA(maPeriods.trend)
+        };
+        this.bollingerBands = new StreamingBollingerBands(settings.bbPeriod, settings.bbMultiplier);
+        this.volume = new StreamingVolumeStats(settings.volumePeriod);
+    }
+
+    /**
+     * Apply a candle: a newer open time appends it, the same open time revises the latest candle
+     */
+    update(kline: Kline): StreamingSnapshot {
+        if (kline.date < this.lastOpenTime) {
+            throw new Error(`Kline at ${kline.date} is older than the latest candle at ${this.lastOpenTime}`);
+        }
+
+        const method = kline.date > this.lastOpenTime ? 'add' : 'updateLast';
+        this.lastOpenTime = kline.date;
+
+        const snapshot: StreamingSnapshot = { time: kline.date, currentPrice: kline.close };
+        const macd = this.macd[method](kline.close);
+        const rsi = this.rsi[method](kline.close);
+        const short = this.averages.short[method](kline.close);
+        const medium = this.averages.medium[method](kline.close);
+        const long = this.averages.long[method](kline.close);
+        const trend = this.averages.trend[method](kline.close);
+        const bollingerBands = this.bollingerBands[method](kline.close);
+        const volume = this.volume[method](kline.volume);
+
+        if (macd) snapshot.macd = macd;
+        if (rsi !== null) snapshot.rsi = rsi;
+        if (short !== null && medium !== null && long !== null) {
+            snapshot.ma = {
+                short: Number(short.toFixed(8)),
+                medium: Number(medium.toFixed(8)),
+                long: Number(long.toFixed(8)),
+                periods: this.settings.maPeriods
+            };
+            if (trend !== null) snapshot.ma.trend = Number(trend.toFixed(8));
+        }
+        if (bollingerBands) snapshot.bollingerBands = bollingerBands;
+        if (volume) snapshot.volume = volume;
+
+        return snapshot;
+    }
+}
+
+// Market stream events and kline subscriptions the engine uses
+export type StreamingKlineSource = Pick<
+    BinanceMarketStream,
+    'on' | 'off' | 'subscribeKlines' | 'unsubscribeKlines' | 'isSubscribedToKlines'
+>;
+
+/**
+ * Streaming indicators for many symbols, seeded from REST history and fed from BinanceMarketStream
+ */
+export class StreamingIndicatorEngine {
+    private sets: Map<string, StreamingIndicatorSet> = new Map();
+    private snapshots: Map<string, StreamingSnapshot> = new Map();
+    private source: { stream: StreamingKlineSource; interval: string } | null = null;
+    private subscribed: Set<string> = new Set();    // Symbols whose kline stream the engine opened
+
+    constructor(private readonly settings: IndicatorSettings = DEFAULT_INDICATOR_SETTINGS) {}
+
+    /**
+     * Keep the seeded symbols up to date from a market stream: 'kline' events revise or append the
+     * latest candle and closes backfilled after a reconnect fill the gap. Seeded symbols are subscribed.
+     * Returns a function that stops the updates and drops the subscriptions the engine opened.
+     */
+    attach(stream: StreamingKlineSource, interval: string): () => void {
+        if (this.source) {
+            throw new Error('Streaming indicators are already attached to a market stream');
+        }
+
+        const apply = (event: KlineEvent) => {
+            const snapshot = this.snapshots.get(event.symbol);
+            // Only seeded symbols, and never a candle older than the latest one
+            if (event.interval !== interval || !snapshot || event.kline.date < snapshot.time) return;
+            this.update(event.symbol, event.kline);
+        };
+        // Live closes arrive as 'kline' events too; only backfilled ones are 'klineClose'-only
+        const applyBackfill = (event: KlineEvent) => {
+            if (event.backfilled) apply(event);
+        };
+
+        stream.on('kline', apply);
+        stream.on('klineClose', applyBackfill);
+        this.source = { stream, interval };
+        this.symbols().forEach(symbol => this.subscribe(symbol));
+
+        return () => {
+            if (this.source?.stream !== stream) return;
+            stream.off('kline', apply);
+            stream.off('klineClose', applyBackfill);
+            this.subscribed.forEach(symbol => stream.unsubscribeKlines(symbol, interval));
+            this.subscribed.clear();
+            this.source = null;
+        };
+    }
+
+    /**
+     * Replace the state of a symbol with the given history, oldest first
+     */
+    seed(symbol: string, klines: Kline[]): StreamingSnapshot | undefined {
+        this.sets.delete(symbol);
+        this.snapshots.delete(symbol);
+        for (const kline of klines) {
+            this.update(symbol, kline);
+        }
+        this.subscribe(symbol);
+        return this.snapshots.get(symbol);
+    }
+
+    update(symbol: string, kline: Kline): StreamingSnapshot {
+        let set = this.sets.get(symbol);
+        if (!set) {
+            set = new StreamingIndicatorSet(this.settings);
+            this.sets.set(symbol, set);
+        }
+        const snapshot = set.update(kline);
+        this.snapshots.set(symbol, snapshot);
+        return snapshot;
+    }
+
+    get(symbol: string): StreamingSnapshot | undefined {
+        return this.snapshots.get(symbol);
+    }
+
+    symbols(): string[] {
+        return Array.from(this.sets.keys());
+    }
+
+    remove(symbol: string): void {
+        this.sets.delete(symbol);
+        this.snapshots.delete(symbol);
+        if (this.source && this.subscribed.delete(symbol)) {
+            this.source.stream.unsubscribeKlines(symbol, this.source.interval);
+        }
+    }
+
+    // Subscribe to the klines of a symbol unless someone else already has
+    private subscribe(symbol: string): void {
+        if (!this.source || this.subscribed.has(symbol) || this.source.stream.isSubscribedToKlines(symbol, this.source.interval)) {
+            return;
+        }
+        this.source.stream.subscribeKlines(symbol, this.source.interval);
+        this.subscribed.add(symbol);
+    }
+}
@@ -0,0 +1,277 @@
+// src/indicators/supportResistance.ts
+import { Kline } from '../binance/types';
+import { intervalToMs } from '../binance/intervals';
+import { BasicIndicators } from './basicIndicators';
+import { DivergenceDetector, SwingPoint } from './divergence';
+
+export type LevelSource = 'SWING_HIGH' | 'SWING_LOW' | 'PIVOT' | 'FIBONACCI' | 'CAMARILLA' | 'ROUND_NUMBER';
+export type LevelSide = 'SUPPORT' | 'RESISTANCE';
+
+export interface PriceLevel {
+    price: number;                  // Average of the candidates merged into the level
+    side: LevelSide;                // Below / above the current price
+    sources: LevelSource[];         // Distinct sources merged into the level
+    labels: string[];               // Candidate names, e.g. "Classic R1", "Fib S2", "H3", "Swing high"
+    touches: number;                // Swing highs / lows within the tolerance of the level
+    volume: number;                 // Volume of the touching candles
+    strength: number;               // 0..100 from touches, their volume and source confluence
+    distancePercent: number;        // Signed distance from the current price
+}
+
+export interface PivotSet {
+    pivot: number;
+    r1: number;
+    r2: number;
+    r3: number;
+    s1: number;
+    s2: number;
+    s3: number;
+}
+
+export interface CamarillaPivots {
+    h1: number;
+    h2: number;
+    h3: number;
+    h4: number;
+    l1: number;
+    l2: number;
+    l3: number;
+    l4: number;
+}
+
+export interface PivotPoints {
+    interval: string;               // Higher timeframe the pivots come from
+    time: number;                   // Open time of the completed higher-timeframe candle
+    high: number;
+    low: number;
+    close: number;
+    classic: PivotSet;
+    fibonacci: PivotSet;
+    camarilla: CamarillaPivots;
+}
+
+export interface SupportResistanceLevels {
+    currentPrice: number;
+    tolerance: number;              // Price distance within which candidates merge and candles touch a level
+    supports: PriceLevel[];         // Strongest levels below price, nearest first
+    resistances: PriceLevel[];      // Strongest levels above price, nearest first
+    pivots?: PivotPoints;           // Undefined until a complete higher-timeframe candle is available
+}
+
+export interface SupportResistanceOptions {
+    pivotInterval?: string;         // Timeframe the klines are aggregated into for pivots, default '1d'
+    swingStrength?: number;         // Candles on each side of a swing point, default 3
+    maxLevels?: number;             // Levels reported on each side, default 3
+    atrPeriod?: number;             // Tolerance is half an ATR (at least 0.1% of price), default 14
+}
+
+interface LevelCandidate {
+    price: number;
+    source: LevelSource;
+    label: string;
+}
+
+// Strength weights (sum to 100) and the touch count that earns the full touch weight
+const TOUCH_WEIGHT = 40;
+const VOLUME_WEIGHT = 30;
+const CONFLUENCE_WEIGHT = 30;
+const FULL_TOUCHES = 5;
+
+const round = (value: number) => Number(value.toFixed(8));
+
+export class SupportResistanceAnalyzer {
+    /**
+     * Cluster swing highs / lows, pivot points of the last completed higher-timeframe candle and round numbers
+     * into levels, score them and keep the strongest on each side of the latest close
+     */
+    static analyze(klines: Kline[], options: SupportResistanceOptions = {}): SupportResistanceLevels {
+        const maxLevels = options.maxLevels ?? 3;
+        const highs = klines.map(k => k.high);
+        const lows = klines.map(k => k.low);
+        const closes = klines.map(k => k.close);
+        const currentPrice = closes[closes.length - 1];
+
+        const atr = BasicIndicators.calculateATR(highs, lows, closes, options.atrPeriod ?? 14);
+        const tolerance = Math.max(0.5 * atr, currentPrice * 0.001);
+        const pivots = this.calculatePivotPoints(klines, options.pivotInterval ?? '1d');
+
+        const swings = DivergenceDetector.findSwingPoints(highs, lows, options.swingStrength);
+        const candidates: LevelCandidate[] = [
+            ...swings.map(swing => ({
+                price: swing.price,
+                source: swing.type === 'HIGH' ? 'SWING_HIGH' : 'SWING_LOW',
+                label: swing.type === 'HIGH' ? 'Swing high' : 'Swing low'
+            } as LevelCandidate)),
+            ...(pivots ? this.pivotCandidates(pivots) : []),
+            ...this.roundNumbers(currentPrice).map(price => ({ price, source: 'ROUND_NUMBER', label: 'Round' } as LevelCandidate))
+        ];
+
+        const averageVolume = klines.reduce((sum, k) => sum + k.volume, 0) / klines.length;
+        const levels = this.cluster(candidates, tolerance)
+            .map(cluster => this.scoreLevel(cluster, swings, klines, currentPrice, tolerance, averageVolume))
+            .filter(level => level.price !== currentPrice);
+
+        const strongest = (side: LevelSide) => levels
+            .filter(level => level.side === side)
+            .sort((a, b) => b.strength - a.strength)
+            .slice(0, maxLevels)
+            .sort((a, b) => Math.abs(a.distancePercent) - Math.abs(b.distancePercent));
+
+        return {
+            currentPrice,
+            tolerance: round(tolerance),
+            supports: strongest('SUPPORT'),
+            resistances: strongest('RESISTANCE'),
+            pivots
+        };
+    }
+
+    /**
+     * Classic, Fibonacci and Camarilla pivots of the last completed `interval` candle built from the klines.
+     * Undefined when the klines do not cover a complete candle of that timeframe before the current one.
+     */
+    static calculatePivotPoints(klines: Kline[], interval: string = '1d'): PivotPoints | undefined {
+        const candles = this.aggregateKlines(klines, intervalToMs(interval));
+        const completed = candles[candles.length - 2];
+        if (!completed || completed.date < klines[0].date) return undefined;
+
+        const { high, low, close } = completed;
+        const pivot = (high + low + close) / 3;
+        const range = high - low;
+
+        return {
+            interval,
+            time: completed.date,
+            high,
+            low,
+            close,
+            classic: {
+                pivot: round(pivot),
+                r1: round(2 * pivot - low),
+                r2: round(pivot + range),
+                r3: round(high + 2 * (pivot - low)),
+                s1: round(2 * pivot - high),
+                s2: round(pivot - range),
+                s3: round(low - 2 * (high - pivot))
+            },
+            fibonacci: {
+                pivot: round(pivot),
+                r1: round(pivot + 0.382 * range),
+                r2: round(pivot + 0.618 * range),
+                r3: round(pivot + range),
+                s1: round(pivot - 0.382 * range),
+                s2: round(pivot - 0.618 * range),
+                s3: round(pivot - range)
+            },
+            camarilla: {
+                h1: round(close + range * 1.1 / 12),
+                h2: round(close + range * 1.1 / 6),
+                h3: round(close + range * 1.1 / 4),
+                h4: round(close + range * 1.1 / 2),
+                l1: round(close - range * 1.1 / 12),
+                l2: round(close - range * 1.1 / 6),
+                l3: round(close - range * 1.1 / 4),
+                l4: round(close - range * 1.1 / 2)
+            }
+        };
+    }
+
+    /**
+     * Combine klines into candles of a longer timeframe aligned to UTC (open time = bucket start)
+     */
+    static aggregateKlines(klines: Kline[], intervalMs: number): Kline[] {
+        const candles: Kline[] = [];
+        for (const kline of klines) {
+            const start = Math.floor(kline.date / intervalMs) * intervalMs;
+            const candle = candles[candles.length - 1];
+            if (candle && candle.date === start) {
+                candle.high = Math.max(candle.high, kline.high);
+                candle.low = Math.min(candle.low, kline.low);
+                candle.close = kline.close;
+                candle.volume += kline.volume;
+            } else {
+                candles.push({ date: start, open: kline.open, high: kline.high, low: kline.low, close: kline.close, volume: kline.volume });
+            }
+        }
+        return candles;
+    }
+
+    /**
+     * Multiples of half the price's order of magnitude around the price (e.g. 5000s for 87,000, 0.05s for 0.54)
+     */
+    static roundNumbers(price: number): number[] {
+        if (price <= 0) return [];
+        const step = Math.pow(10, Math.floor(Math.log10(price))) / 2;
+        const nearest = Math.floor(price / step);
+        return [nearest - 1, nearest, nearest + 1, nearest + 2]
+            .filter(multiple => multiple > 0)
+            .map(multiple => round(multiple * step));
+    }
+
+    /**
+     * Pivot levels used as candidates: all classic levels, Fibonacci R1-R3 / S1-S3 and Camarilla H3/H4/L3/L4
+     */
+    private static pivotCandidates(pivots: PivotPoints): LevelCandidate[] {
+        const { classic, fibonacci, camarilla } = pivots;
+        return [
+            { price: classic.pivot, source: 'PIVOT', label: 'PP' },
+            ...(['r1', 'r2', 'r3', 's1', 's2', 's3'] as (keyof PivotSet)[]).flatMap(key => [
+                { price: classic[key], source: 'PIVOT', label: `Classic ${key.toUpperCase()}` } as LevelCandidate,
+                { price: fibonacci[key], source: 'FIBONACCI', label: `Fib ${key.toUpperCase()}` } as LevelCandidate
+            ]),
+            ...(['h3', 'h4', 'l3', 'l4'] as (keyof CamarillaPivots)[]).map(key =>
+                ({ price: camarilla[key], source: 'CAMARILLA', label: key.toUpperCase() } as LevelCandidate))
+        ];
+    }
+
+    /**
+     * Group candidates, in price order, that lie within the tolerance of their group's average
+     */
+    private static cluster(candidates: LevelCandidate[], tolerance: number): LevelCandidate[][] {
+        const clusters: LevelCandidate[][] = [];
+        for (const candidate of [...candidates].sort((a, b) => a.price - b.price)) {
+            const current = clusters[clusters.length - 1];
+            const mean = current ? current.reduce((sum, item) => sum + item.price, 0) / current.length : NaN;
+            if (current && Math.abs(candidate.price - mean) <= tolerance) {
+                current.push(candidate);
+            } else {
+                clusters.push([candidate]);
+            }
+        }
+        return clusters;
+    }
+
+    /**
+     * Touches are swing points within the tolerance of the level, so candles trading through it do not count
+     */
+    private static scoreLevel(
+        cluster: LevelCandidate[],
+        swings: SwingPoint[],
+        klines: Kline[],
+        currentPrice: number,
+        tolerance: number,
+        averageVolume: number
+    ): PriceLevel {
+        const price = cluster.reduce((sum, candidate) => sum + candidate.price, 0) / cluster.length;
+        const sources = Array.from(new Set(cluster.map(candidate => candidate.source)));
+        const touches = swings.filter(swing => Math.abs(swing.price - price) <= tolerance);
+        const volume = touches.reduce((sum, swing) => sum + klines[swing.index].volume, 0);
+
+        // Touch count, volume of the touching candles (twice the average earns the full weight) and source confluence
+        const touchScore = Math.min(touches.length / FULL_TOUCHES, 1) * TOUCH_WEIGHT;
+        const relativeVolume = touches.length > 0 && averageVolume > 0 ? volume / touches.length / averageVolume : 0;
+        const volumeScore = Math.min(relativeVolume / 2, 1) * VOLUME_WEIGHT;
+        const confluenceScore = Math.min(sources.length / 3, 1) * CONFLUENCE_WEIGHT;
+
+        return {
+            price: round(price),
+            side: price < currentPrice ? 'SUPPORT' : 'RESISTANCE',
+            sources,
+            labels: Array.from(new Set(cluster.map(candidate => candidate.label))),
+            touches: touches.length,
+            volume,
+            strength: Math.round(touchScore + volumeScore + confluenceScore),
+            distancePercent: Number(((price - currentPrice) / currentPrice * 100).toFixed(2))
+        };
+    }
+}
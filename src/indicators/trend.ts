@@ -0,0 +1,323 @@
+// src/indicators/trend.ts
+import { BasicIndicators } from './basicIndicators';
+
+export type TrendState = 'STRONG_UPTREND' | 'UPTREND' | 'RANGING' | 'DOWNTREND' | 'STRONG_DOWNTREND';
+export type TrendDirection = 'UP' | 'DOWN';
+
+export interface DirectionalMovement {
+    adx: number;                    // Trend strength regardless of direction (0..100)
+    plusDI: number;                 // +DI
+    minusDI: number;                // -DI
+    trendState: TrendState;         // RANGING below ADX 20, STRONG_* from ADX 40, direction from the DI lines
+}
+
+export interface SuperTrend {
+    value: number;                  // Active band: lower band in an uptrend, upper band in a downtrend
+    direction: TrendDirection;
+    flipped: boolean;               // Direction changed on the latest candle
+    barsInTrend: number;            // Candles since the last flip
+    trendState: TrendState;
+}
+
+export interface IchimokuCloud {
+    tenkan: number;                 // Conversion line
+    kijun: number;                  // Base line
+    senkouA: number;                // Leading span A at the latest candle (projected from `displacement` candles ago)
+    senkouB: number;                // Leading span B at the latest candle
+    cloudTop: number;
+    cloudBottom: number;
+    chikou: number;                 // Lagging span: latest close, compared with the close `displacement` candles ago
+    pricePosition: 'ABOVE_CLOUD' | 'IN_CLOUD' | 'BELOW_CLOUD';
+    trendState: TrendState;
+}
+
+export interface ParabolicSAR {
+    sar: number;                    // Stop-and-reverse level at the latest candle
+    direction: TrendDirection;
+    extremePoint: number;           // Highest high (uptrend) or lowest low (downtrend) of the current trend
+    accelerationFactor: number;
+    flipped: boolean;               // Direction changed on the latest candle
+    trendState: TrendState;
+}
+
+export interface IchimokuOptions {
+    tenkanPeriod?: number;          // Default 9
+    kijunPeriod?: number;           // Default 26
+    senkouBPeriod?: number;         // Default 52
+    displacement?: number;          // Default 26
+}
+
+// ADX levels separating chop, trends and strong trends
+export const ADX_TREND_THRESHOLD = 20;
+export const ADX_STRONG_TREND_THRESHOLD = 40;
+
+const round = (value: number, digits: number = 8) => Number(value.toFixed(digits));
+
+function midpoint(highs: number[], lows: number[], end: number, period: number): number {
+    const start = Math.max(0, end - period + 1);
+    return (Math.max(...highs.slice(start, end + 1)) + Math.min(...lows.slice(start, end + 1))) / 2;
+}
+
+export class TrendIndicators {
+    /**
+     * ADX with +DI / -DI (Wilder smoothing)
+     */
+    static calculateDMI(highs: number[], lows: number[], closes: number[], period: number = 14): DirectionalMovement {
+        if (highs.length < 2) {
+            return { adx: 0, plusDI: 0, minusDI: 0, trendState: 'RANGING' };
+        }
+        const series = this.calculateDMISeries(highs, lows, closes, period);
+        return series[series.length - 1];
+    }
+
+    /**
+     * ADX with +DI / -DI for every candle. Before the first full period the ADX is the DX of the partial sums.
+     */
+    static calculateDMISeries(highs: number[], lows: number[], closes: number[], period: number = 14): DirectionalMovement[] {
+        const trueRanges = BasicIndicators.calculateTrueRanges(highs, lows, closes);
+        let smoothedTR = 0;
+        let smoothedPlusDM = 0;
+        let smoothedMinusDM = 0;
+        let dxSum = 0;
+        let adx = 0;
+
+        return highs.map((high, i) => {
+            if (i === 0) {
+                return { adx: 0, plusDI: 0, minusDI: 0, trendState: 'RANGING' };
+            }
+
+            const upMove = high - highs[i - 1];
+            const downMove = lows[i - 1] - lows[i];
+            const plusDM = upMove > downMove && upMove > 0 ? upMove : 0;
+            const minusDM = downMove > upMove && downMove > 0 ? downMove : 0;
+
+            if (i <= period) {
+                // Seed with the sums of the first period
+                smoothedTR += trueRanges[i];
+                smoothedPlusDM += plusDM;
+                smoothedMinusDM += minusDM;
+            } else {
+                smoothedTR = smoothedTR - smoothedTR / period + trueRanges[i];
+                smoothedPlusDM = smoothedPlusDM - smoothedPlusDM / period + plusDM;
+                smoothedMinusDM = smoothedMinusDM - smoothedMinusDM / period + minusDM;
+            }
+
+            const plusDI = smoothedTR > 0 ? (smoothedPlusDM / smoothedTR) * 100 : 0;
+            const minusDI = smoothedTR > 0 ? (smoothedMinusDM / smoothedTR) * 100 : 0;
+            const diSum = plusDI + minusDI;
+            const dx = diSum > 0 ? (Math.abs(plusDI - minusDI) / diSum) * 100 : 0;
+
+            // ADX: average of the first period of DX values, then Wilder smoothing
+            const dxCount = i - period + 1;
+            if (dxCount < 1) {
+                adx = dx;
+            } else if (dxCount <= period) {
+                dxSum += dx;
+                adx = dxSum / dxCount;
+            } else {
+                adx = (adx * (period - 1) + dx) / period;
+            }
+
+            return {
+                adx: round(adx, 2),
+                plusDI: round(plusDI, 2),
+                minusDI: round(minusDI, 2),
+                trendState: this.classifyDMI(adx, plusDI, minusDI)
+            };
+        });
+    }
+
+    static classifyDMI(adx: number, plusDI: number, minusDI: number): TrendState {
+        if (adx < ADX_TREND_THRESHOLD || plusDI === minusDI) return 'RANGING';
+        const strong = adx >= ADX_STRONG_TREND_THRESHOLD;
+        if (plusDI > minusDI) return strong ? 'STRONG_UPTREND' : 'UPTREND';
+        return strong ? 'STRONG_DOWNTREND' : 'DOWNTREND';
+    }
+
+    /**
+     * SuperTrend: ATR bands around the candle midpoint that only tighten until price closes through them
+     */
+    static calculateSuperTrend(
+        highs: number[],
+        lows: number[],
+        closes: number[],
+        period: number = 10,
+        multiplier: number = 3
+    ): SuperTrend {
+        const series = this.calculateSuperTrendSeries(highs, lows, closes, period, multiplier);
+        return series[series.length - 1];
+    }
+
+    /**
+     * SuperTrend for every candle
+     */
+    static calculateSuperTrendSeries(
+        highs: number[],
+        lows: number[],
+        closes: number[],
+        period: number = 10,
+        multiplier: number = 3
+    ): SuperTrend[] {
+        const trueRanges = BasicIndicators.calculateTrueRanges(highs, lows, closes);
+        let atr = 0;
+        let upperBand = 0;
+        let lowerBand = 0;
+        let direction: TrendDirection = 'UP';
+        let flipped = false;
+        let barsInTrend = 0;
+
+        return closes.map((close, i) => {
+            // Simple average until the period is filled, Wilder smoothing afterwards
+            atr = i < period ? (atr * i + trueRanges[i]) / (i + 1) : (atr * (period - 1) + trueRanges[i]) / period;
+            const hl2 = (highs[i] + lows[i]) / 2;
+            const basicUpper = hl2 + multiplier * atr;
+            const basicLower = hl2 - multiplier * atr;
+
+            if (i === 0) {
+                upperBand = basicUpper;
+                lowerBand = basicLower;
+            } else {
+                upperBand = basicUpper < upperBand || closes[i - 1] > upperBand ? basicUpper : upperBand;
+                lowerBand = basicLower > lowerBand || closes[i - 1] < lowerBand ? basicLower : lowerBand;
+
+                const previous = direction;
+                if (direction === 'UP' && close < lowerBand) {
+                    direction = 'DOWN';
+                } else if (direction === 'DOWN' && close > upperBand) {
+                    direction = 'UP';
+                }
+                flipped = direction !== previous;
+                barsInTrend = flipped ? 1 : barsInTrend + 1;
+            }
+
+            return {
+                value: round(direction === 'UP' ? lowerBand : upperBand),
+                direction,
+                flipped,
+                barsInTrend,
+                trendState: direction === 'UP' ? 'UPTREND' : 'DOWNTREND'
+            };
+        });
+    }
+
+    /**
+     * Ichimoku Cloud; uses whatever history is available when there are fewer candles than the periods
+     */
+    static calculateIchimoku(highs: number[], lows: number[], closes: number[], options: IchimokuOptions = {}): IchimokuCloud {
+        const tenkanPeriod = options.tenkanPeriod ?? 9;
+        const kijunPeriod = options.kijunPeriod ?? 26;
+        const senkouBPeriod = options.senkouBPeriod ?? 52;
+        const displacement = options.displacement ?? 26;
+
+        const last = closes.length - 1;
+        const currentPrice = closes[last];
+        const tenkan = midpoint(highs, lows, last, tenkanPeriod);
+        const kijun = midpoint(highs, lows, last, kijunPeriod);
+
+        // The cloud under the latest candle was projected `displacement` candles ago
+        const projectedFrom = Math.max(0, last - displacement);
+        const senkouA = (midpoint(highs, lows, projectedFrom, tenkanPeriod) + midpoint(highs, lows, projectedFrom, kijunPeriod)) / 2;
+        const senkouB = midpoint(highs, lows, projectedFrom, senkouBPeriod);
+        const cloudTop = Math.max(senkouA, senkouB);
+        const cloudBottom = Math.min(senkouA, senkouB);
+
+        const pricePosition = currentPrice > cloudTop ? 'ABOVE_CLOUD' : currentPrice < cloudBottom ? 'BELOW_CLOUD' : 'IN_CLOUD';
+        const laggingReference = closes[projectedFrom];
+
+        let trendState: TrendState = 'RANGING';
+        if (pricePosition === 'ABOVE_CLOUD') {
+            // Confirmed by the conversion line above the base line and the lagging span above past price
+            trendState = tenkan > kijun && currentPrice > laggingReference ? 'STRONG_UPTREND' : 'UPTREND';
+        } else if (pricePosition === 'BELOW_CLOUD') {
+            trendState = tenkan < kijun && currentPrice < laggingReference ? 'STRONG_DOWNTREND' : 'DOWNTREND';
+        }
+
+        return {
+            tenkan: round(tenkan),
+            kijun: round(kijun),
+            senkouA: round(senkouA),
+            senkouB: round(senkouB),
+            cloudTop: round(cloudTop),
+            cloudBottom: round(cloudBottom),
+            chikou: currentPrice,
+            pricePosition,
+            trendState
+        };
+    }
+
+    /**
+     * Parabolic SAR (Wilder), starting in the direction of the first close-to-close move
+     */
+    static calculateParabolicSAR(
+        highs: number[],
+        lows: number[],
+        closes: number[],
+        step: number = 0.02,
+        maxStep: number = 0.2
+    ): ParabolicSAR {
+        const series = this.calculateParabolicSARSeries(highs, lows, closes, step, maxStep);
+        return series[series.length - 1];
+    }
+
+    /**
+     * Parabolic SAR for every candle; the trend starts in the direction of the first move
+     * (upwards with a single candle), below the first low or above the first high
+     */
+    static calculateParabolicSARSeries(
+        highs: number[],
+        lows: number[],
+        closes: number[],
+        step: number = 0.02,
+        maxStep: number = 0.2
+    ): ParabolicSAR[] {
+        let direction: TrendDirection = closes.length > 1 && closes[1] < closes[0] ? 'DOWN' : 'UP';
+        let sar = direction === 'UP' ? lows[0] : highs[0];
+        let extremePoint = direction === 'UP' ? highs[0] : lows[0];
+        let accelerationFactor = step;
+        const result = (flipped: boolean): ParabolicSAR => ({
+            sar: round(sar),
+            direction,
+            extremePoint,
+            accelerationFactor: round(accelerationFactor, 4),
+            flipped,
+            trendState: direction === 'UP' ? 'UPTREND' : 'DOWNTREND'
+        });
+
+        const series: ParabolicSAR[] = closes.length > 0 ? [result(false)] : [];
+
+        for (let i = 1; i < closes.length; i++) {
+            let flipped = false;
+            sar = sar + accelerationFactor * (extremePoint - sar);
+
+            if (direction === 'UP') {
+                // SAR may not rise above the previous two lows
+                sar = Math.min(sar, lows[i - 1], lows[Math.max(0, i - 2)]);
+                if (lows[i] < sar) {
+                    direction = 'DOWN';
+                    sar = extremePoint;
+                    extremePoint = lows[i];
+                    accelerationFactor = step;
+                    flipped = true;
+                } else if (highs[i] > extremePoint) {
+                    extremePoint = highs[i];
+                    accelerationFactor = Math.min(accelerationFactor + step, maxStep);
+                }
+            } else {
+                sar = Math.max(sar, highs[i - 1], highs[Math.max(0, i - 2)]);
+                if (highs[i] > sar) {
+                    direction = 'UP';
+                    sar = extremePoint;
+                    extremePoint = highs[i];
+                    accelerationFactor = step;
+                    flipped = true;
+                } else if (lows[i] < extremePoint) {
+                    extremePoint = lows[i];
+                    accelerationFactor = Math.min(accelerationFactor + step, maxStep);
+                }
+            }
+            series.push(result(flipped));
+        }
+
+        return series;
+    }
+}
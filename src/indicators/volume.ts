@@ -1,11 +1,108 @@
 // src/indicators/volume.ts
+export interface VolumeStats {
+    currentVolume: number;
+    averageVolume: number;              // Over the period
+    volumeRatio: number;                // Latest volume / average volume
+    volumeTrend: number;                // Regression slope as a fraction of the average volume per candle
+}
+
+export type FlowTrend = 'RISING' | 'FALLING' | 'FLAT';
+
+export interface OnBalanceVolume {
+    obv: number;                        // Cumulative over the available candles
+    slope: number;                      // Regression slope over the period, in average volumes per candle
+    trend: FlowTrend;
+}
+
+export interface AccumulationDistribution {
+    adLine: number;                     // Cumulative money flow volume over the available candles
+    slope: number;                      // Regression slope over the period, in average volumes per candle
+    trend: FlowTrend;
+}
+
+export interface ChaikinMoneyFlow {
+    cmf: number;                        // Money flow volume / volume over the period (-1..1)
+    state: 'ACCUMULATION' | 'DISTRIBUTION' | 'NEUTRAL';
+}
+
+export interface VWAPBands {
+    vwap: number;
+    standardDeviation: number;          // Volume-weighted deviation of the typical price from VWAP
+    upper1: number;                     // VWAP ± 1 standard deviation
+    lower1: number;
+    upper2: number;                     // VWAP ± 2 standard deviations
+    lower2: number;
+    deviation: number;                  // (close - VWAP) / standard deviation, 0 when there is no spread
+    anchorTime: number;                 // Open time of the first candle included
+    candles: number;
+}
+
+export interface TakerPressure {
+    takerBuyRatio: number;              // Taker buy share of the latest candle's volume (0..1)
+    averageTakerBuyRatio: number;       // Taker buy share of the volume over the period
+    netTakerVolume: number;             // Taker buy - taker sell base volume over the period
+    pressure: 'BUY' | 'SELL' | 'NEUTRAL';
+}
+
+export interface VolumeProfileBin {
+    low: number;
+    high: number;
+    volume: number;
+}
+
+export type ValueAreaPosition = 'ABOVE_VALUE' | 'IN_VALUE' | 'BELOW_VALUE';
+
+export interface VolumeProfile {
+    poc: number;                        // Midpoint of the bin with the most volume (point of control)
+    valueAreaHigh: number;              // Top of the bins holding valueAreaPercent of the volume around the POC
+    valueAreaLow: number;
+    valueAreaPercent: number;           // Share of the volume actually inside the value area (>= the target)
+    highVolumeNodes: VolumeProfileBin[]; // Runs of adjacent bins with at least 1.5x the average bin volume
+    lowVolumeNodes: VolumeProfileBin[];  // Runs of adjacent interior bins with at most 0.5x the average bin volume
+    position: ValueAreaPosition;        // Latest close relative to the value area
+    bins: VolumeProfileBin[];           // Lowest price first
+    candles: number;
+}
+
+// Normalized slopes beyond these levels count as a rising / falling flow
+export const FLOW_SLOPE_THRESHOLD = 0.1;
+export const CMF_THRESHOLD = 0.05;
+
+// Bin volume relative to the average bin that makes a high / low volume node
+export const HIGH_VOLUME_NODE_RATIO = 1.5;
+export const LOW_VOLUME_NODE_RATIO = 0.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function linearRegressionSlope(values: number[]): number {
+    const n = values.length;
+    if (n < 2) return 0;
+
+    const sumX = values.reduce((sum, _, i) => sum + i, 0);
+    const sumY = values.reduce((sum, value) => sum + value, 0);
+    const sumXY = values.reduce((sum, value, i) => sum + value * i, 0);
+    const sumXX = values.reduce((sum, _, i) => sum + i * i, 0);
+
+    return (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
+}
+
+function average(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function classifyFlow(slope: number): FlowTrend {
+    if (slope > FLOW_SLOPE_THRESHOLD) return 'RISING';
+    if (slope < -FLOW_SLOPE_THRESHOLD) return 'FALLING';
+    return 'FLAT';
+}
+
 export class VolumeAnalyzer {
-    static calculateVolumeProfile(
+    static calculateVolumeStats(
         volumes: number[],
         prices: number[],
         periods: number = 20,
         trendPeriod?: number
-    ): any {
+    ): VolumeStats {
         // If trendPeriod is not provided, use periods
         const trendPeriods = trendPeriod || periods;
 
@@ -21,20 +118,384 @@ export class VolumeAnalyzer {
         };
     }
 
+    /**
+     * Buy/sell pressure from taker buy volume (kline fields 9 and 5)
+     */
+    static calculateTakerPressure(
+        volumes: number[],
+        takerBuyVolumes: number[],
+        periods: number = 20
+    ): TakerPressure {
+        const recentVolumes = volumes.slice(-periods);
+        const recentTakerBuys = takerBuyVolumes.slice(-periods);
+
+        const totalVolume = recentVolumes.reduce((sum, vol) => sum + vol, 0);
+        const totalTakerBuy = recentTakerBuys.reduce((sum, vol) => sum + vol, 0);
+        const currentVolume = volumes[volumes.length - 1];
+
+        const takerBuyRatio = currentVolume > 0 ? takerBuyVolumes[takerBuyVolumes.length - 1] / currentVolume : 0.5;
+        const averageTakerBuyRatio = totalVolume > 0 ? totalTakerBuy / totalVolume : 0.5;
+
+        let pressure: TakerPressure['pressure'] = 'NEUTRAL';
+        if (averageTakerBuyRatio > 0.55) {
+            pressure = 'BUY';
+        } else if (averageTakerBuyRatio < 0.45) {
+            pressure = 'SELL';
+        }
+
+        return {
+            takerBuyRatio: Number(takerBuyRatio.toFixed(4)),
+            averageTakerBuyRatio: Number(averageTakerBuyRatio.toFixed(4)),
+            netTakerVolume: totalTakerBuy - (totalVolume - totalTakerBuy),
+            pressure
+        };
+    }
+
+    /**
+     * On-balance volume: volume added on up closes and subtracted on down closes
+     */
+    static calculateOBV(closes: number[], volumes: number[], periods: number = 20): OnBalanceVolume {
+        const series = this.calculateOBVSeries(closes, volumes);
+        const slope = this.normalizedSlope(series, volumes, periods);
+        return { obv: series[series.length - 1], slope, trend: classifyFlow(slope) };
+    }
+
+    /**
+     * OnBalanceVolume for every candle, the slope over the period ending at that candle
+     */
+    static calculateOnBalanceVolumeSeries(closes: number[], volumes: number[], periods: number = 20): OnBalanceVolume[] {
+        const series = this.calculateOBVSeries(closes, volumes);
+        return series.map((obv, i) => {
+            const slope = this.normalizedSlope(series, volumes, periods, i + 1);
+            return { obv, slope, trend: classifyFlow(slope) };
+        });
+    }
+
+    /**
+     * On-balance volume for every candle, starting at 0
+     */
+    static calculateOBVSeries(closes: number[], volumes: number[]): number[] {
+        const series = [0];
+        for (let i = 1; i < closes.length; i++) {
+            const direction = Math.sign(closes[i] - closes[i - 1]);
+            series.push(series[i - 1] + direction * volumes[i]);
+        }
+        return series;
+    }
+
+    /**
+     * Accumulation/distribution line: cumulative volume weighted by the close location in the candle range
+     */
+    static calculateAccumulationDistribution(
+        highs: number[],
+        lows: number[],
+        closes: number[],
+        volumes: number[],
+        periods: number = 20
+    ): AccumulationDistribution {
+        const series = this.calculateADLine(highs, lows, closes, volumes);
+        const slope = this.normalizedSlope(series, volumes, periods);
+        return { adLine: series[series.length - 1], slope, trend: classifyFlow(slope) };
+    }
+
+    /**
+     * AccumulationDistribution for every candle, the slope over the period ending at that candle
+     */
+    static calculateAccumulationDistributionSeries(
+        highs: number[],
+        lows: number[],
+        closes: number[],
+        volumes: number[],
+        periods: number = 20
+    ): AccumulationDistribution[] {
+        const series = this.calculateADLine(highs, lows, closes, volumes);
+        return series.map((adLine, i) => {
+            const slope = this.normalizedSlope(series, volumes, periods, i + 1);
+            return { adLine, slope, trend: classifyFlow(slope) };
+        });
+    }
+
+    /**
+     * Chaikin Money Flow over the period
+     */
+    static calculateChaikinMoneyFlow(
+        highs: number[],
+        lows: number[],
+        closes: number[],
+        volumes: number[],
+        periods: number = 20
+    ): ChaikinMoneyFlow {
+        const moneyFlow = this.calculateMoneyFlowVolumes(highs, lows, closes, volumes).slice(-periods)
+            .reduce((sum, flow) => sum + flow, 0);
+        const volume = volumes.slice(-periods).reduce((sum, vol) => sum + vol, 0);
+        const cmf = volume > 0 ? moneyFlow / volume : 0;
+
+        let state: ChaikinMoneyFlow['state'] = 'NEUTRAL';
+        if (cmf > CMF_THRESHOLD) {
+            state = 'ACCUMULATION';
+        } else if (cmf < -CMF_THRESHOLD) {
+            state = 'DISTRIBUTION';
+        }
+
+        return { cmf: Number(cmf.toFixed(4)), state };
+    }
+
+    /**
+     * VWAP of the candles opened at or after anchorTime, with volume-weighted standard deviation bands.
+     * Falls back to the latest candle when none qualify.
+     */
+    static calculateVWAP(
+        highs: number[],
+        lows: number[],
+        closes: number[],
+        volumes: number[],
+        openTimes: number[],
+        anchorTime: number = 0
+    ): VWAPBands {
+        const firstIndex = openTimes.findIndex(time => time >= anchorTime);
+        const start = firstIndex === -1 ? openTimes.length - 1 : firstIndex;
+
+        let totalVolume = 0;
+        let weightedPrice = 0;
+        let weightedSquares = 0;
+        for (let i = start; i < closes.length; i++) {
+            const typicalPrice = (highs[i] + lows[i] + closes[i]) / 3;
+            totalVolume += volumes[i];
+            weightedPrice += typicalPrice * volumes[i];
+            weightedSquares += typicalPrice * typicalPrice * volumes[i];
+        }
+
+        return this.vwapBands(totalVolume, weightedPrice, weightedSquares, closes[closes.length - 1], openTimes[start], closes.length - start);
+    }
+
+    /**
+     * Anchored VWAP for every candle; candles opened before anchorTime fall back to themselves
+     */
+    static calculateVWAPSeries(
+        highs: number[],
+        lows: number[],
+        closes: number[],
+        volumes: number[],
+        openTimes: number[],
+        anchorTime: number = 0
+    ): VWAPBands[] {
+        return this.vwapSeries(highs, lows, closes, volumes, openTimes, () => anchorTime);
+    }
+
+    /**
+     * VWAP anchored at the start of the UTC day of the latest candle
+     */
+    static calculateSessionVWAP(
+        highs: number[],
+        lows: number[],
+        closes: number[],
+        volumes: number[],
+        openTimes: number[]
+    ): VWAPBands {
+        const sessionStart = Math.floor(openTimes[openTimes.length - 1] / DAY_MS) * DAY_MS;
+        return this.calculateVWAP(highs, lows, closes, volumes, openTimes, sessionStart);
+    }
+
+    /**
+     * Session VWAP for every candle, restarting at 00:00 UTC
+     */
+    static calculateSessionVWAPSeries(
+        highs: number[],
+        lows: number[],
+        closes: number[],
+        volumes: number[],
+        openTimes: number[]
+    ): VWAPBands[] {
+        return this.vwapSeries(highs, lows, closes, volumes, openTimes, i => Math.floor(openTimes[i] / DAY_MS) * DAY_MS);
+    }
+
+    /**
+     * Price-by-volume histogram of the last `lookback` candles. Each candle's volume is spread evenly over
+     * its high-low range, so a bin receives the share of the range it overlaps.
+     */
+    static calculateVolumeProfile(
+        highs: number[],
+        lows: number[],
+        closes: number[],
+        volumes: number[],
+        lookback: number = 100,
+        binCount: number = 24,
+        valueAreaPercent: number = 70
+    ): VolumeProfile {
+        const start = Math.max(0, closes.length - lookback);
+        const profileLow = Math.min(...lows.slice(start));
+        const profileHigh = Math.max(...highs.slice(start));
+        const binSize = (profileHigh - profileLow) / binCount;
+
+        const bins: VolumeProfileBin[] = Array.from({ length: binCount }, (_, i) => ({
+            low: profileLow + i * binSize,
+            high: i === binCount - 1 ? profileHigh : profileLow + (i + 1) * binSize,
+            volume: 0
+        }));
+        const binAt = (price: number) => (binSize > 0 ? Math.min(Math.floor((price - profileLow) / binSize), binCount - 1) : 0);
+
+        for (let i = start; i < closes.length; i++) {
+            const range = highs[i] - lows[i];
+            if (range <= 0) {
+                bins[binAt(closes[i])].volume += volumes[i];
+                continue;
+            }
+            for (let b = binAt(lows[i]); b <= binAt(highs[i]); b++) {
+                const overlap = Math.min(highs[i], bins[b].high) - Math.max(lows[i], bins[b].low);
+                if (overlap > 0) bins[b].volume += volumes[i] * overlap / range;
+            }
+        }
+
+        // Grow the value area from the POC towards the heavier neighbouring bin until it holds the target share
+        const totalVolume = bins.reduce((sum, bin) => sum + bin.volume, 0);
+        const pocIndex = bins.reduce((best, bin, i) => (bin.volume > bins[best].volume ? i : best), 0);
+        let lowIndex = pocIndex;
+        let highIndex = pocIndex;
+        let areaVolume = bins[pocIndex].volume;
+        while (areaVolume < totalVolume * valueAreaPercent / 100 && (lowIndex > 0 || highIndex < binCount - 1)) {
+            const below = lowIndex > 0 ? bins[lowIndex - 1].volume : -1;
+            const above = highIndex < binCount - 1 ? bins[highIndex + 1].volume : -1;
+            if (above >= below) {
+                areaVolume += bins[++highIndex].volume;
+            } else {
+                areaVolume += bins[--lowIndex].volume;
+            }
+        }
+
+        const averageBin = totalVolume / binCount;
+        const currentPrice = closes[closes.length - 1];
+        const valueAreaHigh = bins[highIndex].high;
+        const valueAreaLow = bins[lowIndex].low;
+        const roundBin = (bin: VolumeProfileBin): VolumeProfileBin => ({
+            low: Number(bin.low.toFixed(8)),
+            high: Number(bin.high.toFixed(8)),
+            volume: Number(bin.volume.toFixed(4))
+        });
+
+        return {
+            poc: Number(((bins[pocIndex].low + bins[pocIndex].high) / 2).toFixed(8)),
+            valueAreaHigh: Number(valueAreaHigh.toFixed(8)),
+            valueAreaLow: Number(valueAreaLow.toFixed(8)),
+            valueAreaPercent: totalVolume > 0 ? Number((areaVolume / totalVolume * 100).toFixed(2)) : 0,
+            // Edge bins are thin by construction, so they are not reported as low volume nodes
+            highVolumeNodes: this.volumeNodes(bins, bin => bin.volume >= HIGH_VOLUME_NODE_RATIO * averageBin).map(roundBin),
+            lowVolumeNodes: this.volumeNodes(bins, (bin, i) => i > 0 && i < binCount - 1
+                && bin.volume <= LOW_VOLUME_NODE_RATIO * averageBin).map(roundBin),
+            position: currentPrice > valueAreaHigh ? 'ABOVE_VALUE' : currentPrice < valueAreaLow ? 'BELOW_VALUE' : 'IN_VALUE',
+            bins: bins.map(roundBin),
+            candles: closes.length - start
+        };
+    }
+
+    /**
+     * Merge runs of adjacent bins that match into single price zones
+     */
+    private static volumeNodes(bins: VolumeProfileBin[], matches: (bin: VolumeProfileBin, index: number) => boolean): VolumeProfileBin[] {
+        const nodes: VolumeProfileBin[] = [];
+        let previous = -2;
+        bins.forEach((bin, i) => {
+            if (!matches(bin, i)) return;
+            const node = nodes[nodes.length - 1];
+            if (node && previous === i - 1) {
+                node.high = bin.high;
+                node.volume += bin.volume;
+            } else {
+                nodes.push({ ...bin });
+            }
+            previous = i;
+        });
+        return nodes;
+    }
+
+    /**
+     * Running VWAP sums, restarted whenever the anchor of a candle moves past the current start
+     */
+    private static vwapSeries(
+        highs: number[],
+        lows: number[],
+        closes: number[],
+        volumes: number[],
+        openTimes: number[],
+        anchorAt: (index: number) => number
+    ): VWAPBands[] {
+        let start = -1;
+        let totalVolume = 0;
+        let weightedPrice = 0;
+        let weightedSquares = 0;
+
+        return closes.map((close, i) => {
+            const anchorTime = anchorAt(i);
+            if (start === -1 || openTimes[start] < anchorTime || openTimes[i] < anchorTime) {
+                start = i;
+                totalVolume = 0;
+                weightedPrice = 0;
+                weightedSquares = 0;
+            }
+            const typicalPrice = (highs[i] + lows[i] + close) / 3;
+            totalVolume += volumes[i];
+            weightedPrice += typicalPrice * volumes[i];
+            weightedSquares += typicalPrice * typicalPrice * volumes[i];
+            return this.vwapBands(totalVolume, weightedPrice, weightedSquares, close, openTimes[start], i - start + 1);
+        });
+    }
+
+    private static vwapBands(
+        totalVolume: number,
+        weightedPrice: number,
+        weightedSquares: number,
+        currentPrice: number,
+        anchorTime: number,
+        candles: number
+    ): VWAPBands {
+        const vwap = totalVolume > 0 ? weightedPrice / totalVolume : currentPrice;
+        const variance = totalVolume > 0 ? weightedSquares / totalVolume - vwap * vwap : 0;
+        const standardDeviation = Math.sqrt(Math.max(variance, 0));
+
+        return {
+            vwap: Number(vwap.toFixed(8)),
+            standardDeviation: Number(standardDeviation.toFixed(8)),
+            upper1: Number((vwap + standardDeviation).toFixed(8)),
+            lower1: Number((vwap - standardDeviation).toFixed(8)),
+            upper2: Number((vwap + 2 * standardDeviation).toFixed(8)),
+            lower2: Number((vwap - 2 * standardDeviation).toFixed(8)),
+            deviation: standardDeviation > 0 ? Number(((currentPrice - vwap) / standardDeviation).toFixed(4)) : 0,
+            anchorTime,
+            candles
+        };
+    }
+
+    private static calculateADLine(highs: number[], lows: number[], closes: number[], volumes: number[]): number[] {
+        const series: number[] = [];
+        this.calculateMoneyFlowVolumes(highs, lows, closes, volumes)
+            .forEach((flow, i) => series.push((i > 0 ? series[i - 1] : 0) + flow));
+        return series;
+    }
+
+    private static calculateMoneyFlowVolumes(highs: number[], lows: number[], closes: number[], volumes: number[]): number[] {
+        return closes.map((close, i) => {
+            const range = highs[i] - lows[i];
+            return range > 0 ? (((close - lows[i]) - (highs[i] - close)) / range) * volumes[i] : 0;
+        });
+    }
+
+    /**
+     * Regression slope of the `periods` values before `end`, in average volumes per candle so it compares across symbols
+     */
+    private static normalizedSlope(series: number[], volumes: number[], periods: number, end: number = series.length): number {
+        const start = Math.max(0, end - periods);
+        const averageVolume = average(volumes.slice(start, end));
+        if (averageVolume <= 0) return 0;
+        return Number((linearRegressionSlope(series.slice(start, end)) / averageVolume).toFixed(4));
+    }
+
     private static calculateVolumeTrend(volumes: number[], trendPeriods: number): number {
         if (volumes.length < trendPeriods) {
             return 0;
         }
 
+        // Normalized by the average volume so the trend compares across symbols
         const recentVolumes = volumes.slice(-trendPeriods);
-        const sumX = recentVolumes.reduce((sum, _, i) => sum + i, 0);
-        const sumY = recentVolumes.reduce((sum, vol) => sum + vol, 0);
-        const sumXY = recentVolumes.reduce((sum, vol, i) => sum + vol * i, 0);
-        const sumXX = recentVolumes.reduce((sum, _, i) => sum + i * i, 0);
-
-        const n = recentVolumes.length;
-        const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
-
-        return slope;
+        const averageVolume = average(recentVolumes);
+        return averageVolume > 0 ? linearRegressionSlope(recentVolumes) / averageVolume : 0;
     }
 }
\ No newline at end of file
@@ -1,38 +1,133 @@
 // src/prediction/marketPredictor.ts
 // 市场预测器 - 负责获取市场数据、计算技术指标、生成交易信号
 import { Worker, isMainThread, parentPort, workerData } from 'worker_threads';
-import { BinanceClient } from '../binance/client';
+import { ExchangeClient } from '../exchanges/types';
 import { IndicatorCalculator } from '../indicators/indicatorCalculator';
-import { PredictionConfig, PredictedSymbol } from './types';
-import { OpenInterestData, PriceData } from '../binance/types';
-import { DeepSeekAnalyzer } from '../analysis/deepseekAnalyzer';
+import { IndicatorSettings, resolveIndicatorSettings } from '../indicators/indicatorSettings';
+import { IndicatorRegistry, IndicatorResult } from '../indicators/registry';
+import { CORE_INDICATOR_IDS, defaultIndicatorRegistry } from '../indicators/builtinIndicators';
+import { FundingRateData, Kline } from '../binance/types';
+import { FundingAnalyzer, FundingMetrics } from '../indicators/funding';
+import { PositioningAnalyzer, PositioningIndicators } from '../indicators/positioning';
+import { toFuturesDataPeriod } from '../binance/intervals';
+import { SymbolUniverse } from '../binance/symbolUniverse';
+import { OpenInterestAnalyzer } from '../indicators/openInterest';
+import { OrderBookAnalyzer, OrderBookMetrics } from '../indicators/orderBook';
+import { TrendState } from '../indicators/trend';
+import { OscillatorState, Oscillators } from '../indicators/oscillators';
+import { DivergenceDetector, DivergenceType } from '../indicators/divergence';
+import { CandlestickPatterns } from '../indicators/candlestickPatterns';
+import { SupportResistanceAnalyzer } from '../indicators/supportResistance';
+import { StreamingIndicatorEngine, StreamingKlineSource, StreamingSnapshot } from '../indicators/streaming';
+import { ContractMetadata, PredictionConfig, PredictedSymbol, ScreenedSymbol, SymbolMarketContext } from './types';
+import { DeepSeekAnalyzer, DeepSeekAnalyzerOptions } from '../analysis/deepseekAnalyzer';
 import * as fs from 'fs';
 import * as path from 'path';
 
+const DEFAULT_MIN_OPEN_INTEREST_VALUE = 50 * 1000000; // 50M USDT
+const DEFAULT_OPEN_INTEREST_LOOKBACK = 6;
+const THIN_BOOK_MAX_CONFIDENCE = 60; // 盘口稀薄时信号置信度上限
+const VOLUME_TREND_THRESHOLD = 0.01; // 成交量趋势阈值：每根K线变化均量的1%
+const OSCILLATOR_AGREEMENT = 3;      // 判断超买/超卖反转所需的振荡指标数量 (可用指标更少时全部一致)
+const DIVERGENCE_MAX_SCORE = 2;      // 背离信号单边累计得分上限 (RSI/MACD/OBV同时背离不重复计满)
+const CANDLESTICK_MAX_SCORE = 1.5;   // K线形态单边累计得分上限
+
+// 背离类型的基础分 (乘以背离强度) 和日志标签
+const DIVERGENCE_SCORES: Record<DivergenceType, number> = {
+    REGULAR_BULLISH: 1.5, HIDDEN_BULLISH: 0.75, REGULAR_BEARISH: 1.5, HIDDEN_BEARISH: 0.75
+};
+const DIVERGENCE_LABELS: Record<DivergenceType, string> = {
+    REGULAR_BULLISH: '常规看涨背离', HIDDEN_BULLISH: '隐藏看涨背离', REGULAR_BEARISH: '常规看跌背离', HIDDEN_BEARISH: '隐藏看跌背离'
+};
+
+// 趋势状态的评分 (正数看涨，负数看跌) 和日志标签
+const TREND_STATE_SCORES: Record<TrendState, number> = {
+    STRONG_UPTREND: 1.5, UPTREND: 1, RANGING: 0, DOWNTREND: -1, STRONG_DOWNTREND: -1.5
+};
+const TREND_STATE_LABELS: Record<TrendState, string> = {
+    STRONG_UPTREND: '强势上涨', UPTREND: '上涨', RANGING: '震荡', DOWNTREND: '下跌', STRONG_DOWNTREND: '强势下跌'
+};
+
+// 市场预测器可选配置
+export interface MarketPredictorOptions {
+    deepSeek?: DeepSeekAnalyzerOptions; // DeepSeek分析器的传输层和API地址
+    now?: () => number;                 // 时间来源 (回放录制数据时使用录制时间)
+    symbolUniverse?: SymbolUniverse;    // 合约列表 (默认根据exchangeInfo筛选配置的计价资产和合约类型)
+    indicatorRegistry?: IndicatorRegistry; // 指标注册表 (默认内置指标，可注册自定义指标)
+}
+
 // 市场预测类
 export class MarketPredictor {
-    private binanceClient: BinanceClient; // Binance API客户端
+    private exchangeClient: ExchangeClient; // 交易所行情客户端 (Binance/Bybit/OKX)
     private config: PredictionConfig; // 预测配置参数
     private deepSeekApiKey?: string; // DeepSeek API密钥
     private deepSeekAnalyzer?: DeepSeekAnalyzer; // DeepSeek AI分析器
     private excludedPairs: Set<string> = new Set(); // 排除的交易对集合
+    private now: () => number; // 时间来源
+    private symbolUniverse: SymbolUniverse; // 可交易合约列表 (exchangeInfo缓存)
+    private indicatorSettings: IndicatorSettings; // 技术指标参数 (构造时校验)
+    private indicatorRegistry: IndicatorRegistry; // 指标注册表
+    private streamingIndicators?: StreamingIndicatorEngine; // 流式指标 (连接行情流后实时更新)
 
     constructor(
-        binanceClient: BinanceClient,
+        exchangeClient: ExchangeClient,
         config: PredictionConfig,
-        deepSeekApiKey?: string
+        deepSeekApiKey?: string,
+        options: MarketPredictorOptions = {}
     ) {
-        this.binanceClient = binanceClient;
+        this.exchangeClient = exchangeClient;
         this.config = config;
         this.deepSeekApiKey = deepSeekApiKey;
+        this.now = options.now || Date.now;
+        // 校验技术指标参数，配置错误时立即失败而不是在扫描中途
+        this.indicatorSettings = resolveIndicatorSettings({
+            rsiPeriod: config.rsiPeriod,
+            macdFastPeriod: config.macdFastPeriod,
+            macdSlowPeriod: config.macdSlowPeriod,
+            macdSignalPeriod: config.macdSignalPeriod,
+            bbPeriod: config.bbPeriod,
+            bbMultiplier: config.bbMultiplier,
+            maPeriods: config.maPeriods,
+            volumePeriod: config.volumePeriod
+        });
+        this.indicatorRegistry = options.indicatorRegistry || defaultIndicatorRegistry;
+        this.indicatorRegistry.resolve(this.indicatorSettings, {
+            indicators: config.indicators,
+            indicatorParams: config.indicatorParams
+        });
+        this.symbolUniverse = options.symbolUniverse || new SymbolUniverse(exchangeClient, {
+            quoteAsset: config.quoteAsset,
+            contractTypes: config.contractTypes,
+            newListingDays: config.newListingDays,
+            now: this.now
+        });
         // 如果提供了DeepSeek API密钥，则初始化分析器
         if (deepSeekApiKey) {
-            this.deepSeekAnalyzer = new DeepSeekAnalyzer(deepSeekApiKey);
+            this.deepSeekAnalyzer = new DeepSeekAnalyzer(deepSeekApiKey, {
+                quoteAsset: config.quoteAsset,
+                ...options.deepSeek
+            });
         }
         // 加载排除的交易对列表
         this.loadExcludedPairs();
     }
 
+    /**
+     * 连接行情流: 已处理的交易对订阅K线，流式指标随行情实时更新
+     * 返回断开的函数
+     */
+    attachMarketStream(stream: StreamingKlineSource): () => void {
+        const engine = new StreamingIndicatorEngine(this.indicatorSettings);
+        const detach = engine.attach(stream, this.config.klineInterval);
+        this.streamingIndicators = engine;
+        return () => {
+            detach();
+            if (this.streamingIndicators === engine) {
+                this.streamingIndicators = undefined;
+            }
+        };
+    }
+
     /**
      * 从excluded_pairs.txt文件加载排除的交易对列表
      */
@@ -74,7 +169,7 @@ export class MarketPredictor {
 
     /**
      * 主要预测工作流:
-     * 1. 从Binance获取24小时交易量数据
+     * 1. 从交易所获取24小时交易量数据
      * 2. 根据涨幅和成交量条件筛选交易对
      * 3. 获取已筛选交易对的K线数据
      * 4. 计算技术指标 (MACD, RSI, 布林带等)
@@ -120,6 +215,15 @@ export class MarketPredictor {
                 }
             }
             
+            // 不再入选的交易对停止流式更新
+            const streamingIndicators = this.streamingIndicators;
+            if (streamingIndicators) {
+                const active = new Set(predictedSymbols.map(p => p.symbol));
+                streamingIndicators.symbols()
+                    .filter(symbol => !active.has(symbol))
+                    .forEach(symbol => streamingIndicators.remove(symbol));
+            }
+            
             // 排序: 先按24小时涨幅倒序，再按成交量倒序
             predictedSymbols.sort((a, b) => {
                 // 首先按价格涨幅排序 (高值优先)
@@ -129,6 +233,11 @@ export class MarketPredictor {
                 // 如果涨幅相同，则按成交量排序 (高值优先)
                 return b.volume24h - a.volume24h;
             });
+
+            const usage = this.exchangeClient.getRateLimitUsage?.();
+            if (usage) {
+                console.log(`📶 本分钟API权重使用: ${usage.usedWeight}/${usage.weightLimit} (排队请求: ${usage.queued})`);
+            }
             
             return predictedSymbols;
         } catch (error) {
@@ -139,59 +248,88 @@ export class MarketPredictor {
 
     /**
      * 获取并筛选满足条件的交易对
-     * 条件1: OI价值 > 50M USDT (sumOpenInterestValue)
-     * 条件2: 24小时涨幅 > 5% (priceChangePercent)
+     * 条件1: OI价值 > minOpenInterestValue (默认50M USDT)
+     * 条件2: 24小时涨幅 > minPriceChangePercent
      * 条件3: 并排除excluded_pairs.txt中的交易对
+     * OI历史按K线周期获取，后续用于持仓变化分析
      */
-    private async getFilteredSymbols(): Promise<PriceData[]> {
+    private async getFilteredSymbols(): Promise<ScreenedSymbol[]> {
         try {
             console.log('📊 正在获取所有交易对的数据...');
             
             // 获取所有24小时行情数据
-            const allTickers = await this.binanceClient.getAll24hrTickers();
+            const allTickers = await this.exchangeClient.getAll24hrTickers();
             console.log(`📈 共获得 ${allTickers.length} 个交易对的数据`);
+
+            // 获取合约列表 (失败时退回到按计价资产后缀筛选)
+            const quoteAsset = this.config.quoteAsset ?? 'USDT';
+            let universeAvailable = true;
+            try {
+                await this.symbolUniverse.refresh();
+            } catch (error) {
+                universeAvailable = false;
+                console.warn(`⚠️  获取exchangeInfo失败，退回到按${quoteAsset}后缀筛选交易对`);
+            }
             
-            // 第一步: 根据OI价值和24小时涨幅初步筛选
-            console.log('🔍 第1步: 根据 OI价值 > 50M 和 24h涨幅 > 5% 进行初步筛选...');
+            const oiMinThreshold = this.config.minOpenInterestValue ?? DEFAULT_MIN_OPEN_INTEREST_VALUE;
+            const oiThresholdLabel = `${(oiMinThreshold / 1000000).toFixed(0)}M`;
+            const changeLabel = `${this.config.minPriceChangePercent}%`;
+
+            // 第一步: 根据24小时涨幅初步筛选
+            console.log(`🔍 第1步: 根据 24h涨幅 > ${changeLabel} 进行初步筛选...`);
             const candidateSymbols = allTickers.filter(ticker => {
-                // 仅保留USDT交易对
-                if (!ticker.symbol.endsWith('USDT')) {
+                // 仅保留交易中的目标合约 (排除已下架、结算中和非目标类型合约)
+                // COIN-M合约带后缀 (BTCUSD_PERP)，按交易对部分匹配计价资产
+                const tradable = universeAvailable
+                    ? this.symbolUniverse.isTradable(ticker.symbol)
+                    : ticker.symbol.split('_')[0].endsWith(quoteAsset);
+                if (!tradable) {
                     return false;
                 }
                 
-                // 条件2: 24小时涨幅 > 5%
+                // 条件2: 24小时涨幅
                 if (ticker.priceChangePercent < this.config.minPriceChangePercent) {
                     return false;
                 }
                 
+                // 新上线合约: 按配置跳过或标记
+                if (this.config.excludeNewListings && this.symbolUniverse.isNewListing(ticker.symbol)) {
+                    console.log(`   ⏭️  跳过新上线合约: ${ticker.symbol}`);
+                    return false;
+                }
+                
                 return true;
             });
             
-            console.log(`✅ 初步筛选后得到 ${candidateSymbols.length} 个符合条件的交易对 (满足: USDT + 24h涨幅>5%)`);
+            console.log(`✅ 初步筛选后得到 ${candidateSymbols.length} 个符合条件的交易对 (满足: ${quoteAsset}合约 + 24h涨幅>${changeLabel})`);
             
-            // 第二步: 获取OI数据并进一步筛选
-            console.log('🔍 第2步: 获取OI数据，筛选 OI价值 > 50M 的交易对...');
-            const oiMinThreshold = 50 * 1000000; // 50M USDT
-            const filteredSymbols: PriceData[] = [];
+            // 第二步: 获取OI历史并进一步筛选
+            console.log(`🔍 第2步: 获取OI历史，筛选 OI价值 > ${oiThresholdLabel} 的交易对...`);
+            const period = toFuturesDataPeriod(this.config.klineInterval);
+            const lookback = this.config.openInterestLookback ?? DEFAULT_OPEN_INTEREST_LOOKBACK;
+            const filteredSymbols: ScreenedSymbol[] = [];
             
             for (const ticker of candidateSymbols) {
                 try {
-                    // 获取该交易对的OI数据
-                    const openInterestData = await this.binanceClient.getOpenInterestStatistics({
+                    // 获取该交易对与K线周期对齐的OI历史 (多取一期作为变化基准)
+                    const openInterestHistory = await this.exchangeClient.getOpenInterestStatistics({
                         symbol: ticker.symbol,
-                        period: '1d',
-                        limit: 1
+                        period,
+                        limit: lookback + 1
                     });
                     
-                    if (openInterestData && openInterestData.length > 0) {
-                        const sumOpenInterestValue = parseFloat(openInterestData[0].sumOpenInterestValue);
+                    if (openInterestHistory && openInterestHistory.length > 0) {
+                        const latest = openInterestHistory[openInterestHistory.length - 1];
+                        const sumOpenInterestValue = parseFloat(latest.sumOpenInterestValue);
                         
-                        // 条件1: OI价值 > 50M
+                        // 条件1: OI价值门槛
                         if (sumOpenInterestValue > oiMinThreshold) {
-                            // 将OI数据临时保存到ticker对象中（用于后续处理）
-                            (ticker as any).sumOpenInterestValue = sumOpenInterestValue;
-                            filteredSymbols.push(ticker);
-                            console.log(`   ✓ ${ticker.symbol}: OI=${(sumOpenInterestValue / 1000000).toFixed(2)}M USDT, 涨幅=${ticker.priceChangePercent.toFixed(2)}%`);
+                            const contract = this.getContractMetadata(ticker.symbol);
+                            filteredSymbols.push({ ...ticker, sumOpenInterestValue, openInterestHistory, contract });
+                            if (contract?.isNewListing) {
+                                console.log(`   🆕 ${ticker.symbol}: 新上线合约 (上线 ${contract.listingAgeDays} 天)`);
+                            }
+                            console.log(`   ✓ ${ticker.symbol}: OI=${(sumOpenInterestValue / 1000000).toFixed(2)}M ${quoteAsset}, 涨幅=${ticker.priceChangePercent.toFixed(2)}%`);
                         }
                     }
                 } catch (error) {
@@ -201,7 +339,7 @@ export class MarketPredictor {
                 }
             }
             
-            console.log(`🎯 OI筛选后得到 ${filteredSymbols.length} 个符合条件的交易对 (同时满足: OI>50M + 24h涨幅>5%)`);
+            console.log(`🎯 OI筛选后得到 ${filteredSymbols.length} 个符合条件的交易对 (同时满足: OI>${oiThresholdLabel} + 24h涨幅>${changeLabel})`);
             
             // 第三步: 排除黑名单中的交易对
             console.log('🔍 第3步: 排除黑名单中的交易对...');
@@ -221,18 +359,37 @@ export class MarketPredictor {
         }
     }
 
+    /**
+     * 从exchangeInfo缓存中获取合约规则
+     */
+    private getContractMetadata(symbol: string): ContractMetadata | undefined {
+        const info = this.symbolUniverse.getSymbolInfo(symbol);
+        if (!info) return undefined;
+
+        return {
+            contractType: info.contractType,
+            tickSize: info.tickSize,
+            stepSize: info.stepSize,
+            minNotional: info.minNotional,
+            contractSize: info.contractSize,
+            onboardDate: info.onboardDate,
+            listingAgeDays: this.symbolUniverse.getListingAgeDays(symbol),
+            isNewListing: this.symbolUniverse.isNewListing(symbol)
+        };
+    }
+
     /**
      * 处理单个交易对: 获取K线数据并计算技术指标
-     * 注意: OI数据已在getFilteredSymbols中获取，不需要重复获取
+     * 注意: OI历史已在getFilteredSymbols中获取，不需要重复获取
      */
-    private async processSymbol(symbolData: PriceData): Promise<PredictedSymbol | null> {
+    private async processSymbol(symbolData: ScreenedSymbol): Promise<PredictedSymbol | null> {
         try {
-            const { symbol, price, quoteVolume, priceChangePercent } = symbolData;
+            const { symbol, price, quoteVolume, priceChangePercent, sumOpenInterestValue } = symbolData;
             
             console.log(`⏳ 正在处理 ${symbol}...`);
             
             // 获取K线数据
-            const klines = await this.binanceClient.getKlines(
+            const klines = await this.exchangeClient.getKlines(
                 symbol,
                 this.config.klineInterval,
                 this.config.klineLimit
@@ -243,32 +400,79 @@ export class MarketPredictor {
                 return null;
             }
             
-            // 获取算法已经在getFilteredSymbols中执行，这里介取之前存储的OI值
-            // 如果没有（比如直接调用processSymbol）则默认为0
-            const sumOpenInterestValue = (symbolData as any).sumOpenInterestValue || 0;
-            
-            // 计算所有技术指标
-            const indicators = IndicatorCalculator.calculateAllIndicators(klines);
+            // 流式指标: 行情流已更新到最新K线时直接使用其指标值，否则用REST K线重新初始化
+            const streamed = this.readStreamingIndicators(symbol, klines);
+
+            // 获取资金费率、多空持仓和盘口数据 (失败时不影响其他指标)
+            const [{ funding, fundingHistory }, positioning, orderBook] = await Promise.all([
+                this.getFundingData(symbol),
+                this.getPositioningIndicators(symbol),
+                this.getOrderBookMetrics(symbol)
+            ]);
+
+            // 计算注册表中配置的技术指标 (K线、OI历史和资金费率历史作为输入)
+            // 流式引擎已有的MACD、RSI、均线、布林带和成交量不再重新计算
+            const indicators = IndicatorCalculator.calculateAllIndicators(klines, this.indicatorSettings, {
+                registry: this.indicatorRegistry,
+                indicators: this.config.indicators,
+                indicatorParams: this.config.indicatorParams,
+                openInterestHistory: symbolData.openInterestHistory,
+                fundingHistory,
+                precomputed: this.getStreamedIndicatorValues(streamed)
+            });
+            // 价格与流式指标取自同一根K线
+            if (streamed) {
+                indicators.currentPrice = streamed.currentPrice;
+            }
+
+            // 持仓量变化分析 (OI与价格在同一窗口内的变化方向)
+            const openInterest = OpenInterestAnalyzer.analyze(
+                symbolData.openInterestHistory,
+                klines,
+                quoteVolume,
+                this.config.openInterestLookback ?? DEFAULT_OPEN_INTEREST_LOOKBACK
+            );
+            // 价格摆动点与RSI、MACD柱状图、OBV的背离
+            const divergences = indicators.priceData
+                ? DivergenceDetector.analyze(indicators.priceData, this.indicatorSettings)
+                : undefined;
+            // 最近K线的形态及其相对布林带、均线的位置
+            const candlestickPatterns = CandlestickPatterns.detect(klines, this.indicatorSettings);
+            // 支撑/阻力位 (摆动点聚类、日线枢轴点、整数关口)，报告和交易计划共用
+            const supportResistance = SupportResistanceAnalyzer.analyze(klines);
+            const marketContext: SymbolMarketContext = {
+                funding, positioning, openInterest, orderBook, divergences, candlestickPatterns, supportResistance
+            };
             
             // 进行本地指标分析生成初始信号和置信度
-            const localAnalysis = this.generateLocalAnalysis(indicators);
+            const localAnalysis = this.generateLocalAnalysis(indicators, marketContext);
             
             const predictedSymbol: PredictedSymbol = {
                 symbol,
-                currentPrice: price,
+                exchange: this.exchangeClient.exchange,
+                currentPrice: streamed ? indicators.currentPrice : price,
                 volume24h: quoteVolume,
                 priceChangePercent24h: priceChangePercent,
+                contract: symbolData.contract,
                 sumOpenInterestValue,
+                openInterest,
                 technicalIndicators: indicators,
+                indicatorSettings: this.indicatorSettings,
+                funding,
+                positioning,
+                orderBook,
+                divergences,
+                candlestickPatterns,
+                supportResistance,
                 prediction: localAnalysis.prediction,
                 confidence: localAnalysis.confidence,
-                timestamp: Date.now()
+                timestamp: this.now()
             };
             
             // 如果启用了DeepSeek分析，则尝试进行AI分析(可选增强)
             if (this.config.deepSeekEnabled && this.deepSeekApiKey) {
                 try {
-                    const analysis = await this.getDeepSeekAnalysis(indicators, symbol);
+                    const analysis = await this.getDeepSeekAnalysis(indicators, symbol, marketContext);
                     // 使用DeepSeek的分析结果覆盖本地分析(如果成功)
                     if (analysis.prediction) {
                         predictedSymbol.prediction = analysis.prediction;
@@ -279,6 +483,12 @@ export class MarketPredictor {
                     // 失败时保持本地分析结果
                 }
             }
+
+            // 盘口稀薄时限制置信度，避免在流动性不足时按信号下单
+            if (orderBook?.isThinBook) {
+                predictedSymbol.confidence = Math.min(predictedSymbol.confidence ?? 0, THIN_BOOK_MAX_CONFIDENCE);
+                console.warn(`⚠️  ${symbol} 盘口稀薄 (${orderBook.thinBookReasons.join('; ')})，置信度上限 ${THIN_BOOK_MAX_CONFIDENCE}%`);
+            }
             
             return predictedSymbol;
         } catch (error) {
@@ -287,15 +497,104 @@ export class MarketPredictor {
         }
     }
 
+    /**
+     * 读取交易对的流式指标快照，快照落后于REST K线时 (新入选或断流) 用K线重新初始化
+     */
+    private readStreamingIndicators(symbol: string, klines: Kline[]): StreamingSnapshot | undefined {
+        if (!this.streamingIndicators) return undefined;
+        const snapshot = this.streamingIndicators.get(symbol);
+        if (snapshot && snapshot.time >= klines[klines.length - 1].date) {
+            return snapshot;
+        }
+        return this.streamingIndicators.seed(symbol, klines);
+    }
+
+    /**
+     * 流式快照中已预热的指标值 (按注册表id)，单独配置了参数的指标仍按K线计算
+     */
+    private getStreamedIndicatorValues(snapshot?: StreamingSnapshot): Record<string, unknown> | undefined {
+        if (!snapshot) return undefined;
+        const values: Record<string, unknown> = {
+            macd: snapshot.macd,
+            rsi: snapshot.rsi === undefined ? undefined : { rsi: snapshot.rsi },
+            ma: snapshot.ma,
+            bollingerBands: snapshot.bollingerBands,
+            volume: snapshot.volume
+        };
+        return Object.fromEntries(Object.entries(values)
+            .filter(([id, value]) => value !== undefined && !this.config.indicatorParams?.[id]));
+    }
+
+    /**
+     * 获取资金费率指标 (溢价指数 + 最近的资金费率历史)
+     * 历史数据同时作为注册表指标的 funding 输入
+     */
+    private async getFundingData(symbol: string): Promise<{ funding?: FundingMetrics; fundingHistory?: FundingRateData[] }> {
+        try {
+            const [premiumIndex, history] = await Promise.all([
+                this.exchangeClient.getPremiumIndex(symbol),
+                this.exchangeClient.getFundingRateHistory({ symbol, limit: 30 })
+            ]);
+            return { funding: FundingAnalyzer.analyze(premiumIndex, history), fundingHistory: history };
+        } catch (error) {
+            console.warn(`⚠️  获取 ${symbol} 的资金费率数据失败，跳过资金费率分析`);
+            return {};
+        }
+    }
+
+    /**
+     * 获取多空持仓指标 (全市场多空账户比、大户持仓多空比、主动买卖量)
+     * 统计周期与K线周期对齐
+     */
+    private async getPositioningIndicators(symbol: string): Promise<PositioningIndicators | undefined> {
+        const client = this.exchangeClient;
+        // 仅部分交易所提供多空比统计
+        if (!client.getGlobalLongShortAccountRatio || !client.getTopLongShortPositionRatio || !client.getTakerLongShortRatio) {
+            return undefined;
+        }
+
+        try {
+            const params = { symbol, period: toFuturesDataPeriod(this.config.klineInterval), limit: 30 };
+            const [globalRatios, topTraderRatios, takerVolumes] = await Promise.all([
+                client.getGlobalLongShortAccountRatio(params),
+                client.getTopLongShortPositionRatio(params),
+                client.getTakerLongShortRatio(params)
+            ]);
+            return PositioningAnalyzer.analyze(globalRatios, topTraderRatios, takerVolumes);
+        } catch (error) {
+            console.warn(`⚠️  获取 ${symbol} 的多空持仓数据失败，跳过持仓分析`);
+            return undefined;
+        }
+    }
+
+    /**
+     * 获取盘口流动性指标 (价差、深度失衡、挂单墙、滑点)
+     */
+    private async getOrderBookMetrics(symbol: string): Promise<OrderBookMetrics | undefined> {
+        try {
+            const depth = await this.exchangeClient.getDepth(symbol, 100);
+            return OrderBookAnalyzer.analyze(depth, {
+                referenceNotional: this.config.slippageReferenceNotional
+            });
+        } catch (error) {
+            console.warn(`⚠️  获取 ${symbol} 的盘口数据失败，跳过流动性分析`);
+            return undefined;
+        }
+    }
+
     /**
      * 获取DeepSeek AI分析
      * 调用DeepSeek API进行深度技术分析，生成交易信号和分析报告
      */
-    private async getDeepSeekAnalysis(indicators: any, symbol: string): Promise<{ prediction: string; confidence: number; analysis?: string }> {
+    private async getDeepSeekAnalysis(
+        indicators: any,
+        symbol: string,
+        marketContext: SymbolMarketContext = {}
+    ): Promise<{ prediction: string; confidence: number; analysis?: string }> {
         // 如果未初始化分析器，使用降级方案
         if (!this.deepSeekAnalyzer) {
             console.warn(`⚠️  ${symbol} - DeepSeek分析器未初始化，使用本地分析`);
-            return this.generateLocalAnalysis(indicators);
+            return this.generateLocalAnalysis(indicators, marketContext);
         }
 
         try {
@@ -304,10 +603,35 @@ export class MarketPredictor {
                 currentPrice: indicators.currentPrice || 0,
                 macd: indicators.macd,
                 volume: indicators.volume,
+                obv: indicators.obv,
+                accumulationDistribution: indicators.accumulationDistribution,
+                cmf: indicators.cmf,
+                vwap: indicators.vwap,
+                anchoredVwap: indicators.anchoredVwap,
+                volumeProfile: indicators.volumeProfile,
                 rsi: indicators.rsi,
+                stochastic: indicators.stochastic,
+                stochRsi: indicators.stochRsi,
+                williamsR: indicators.williamsR,
+                cci: indicators.cci,
+                mfi: indicators.mfi,
                 ma: indicators.ma,
+                adx: indicators.adx,
+                superTrend: indicators.superTrend,
+                ichimoku: indicators.ichimoku,
+                parabolicSar: indicators.parabolicSar,
                 bollingerBands: indicators.bollingerBands,
-                priceData: indicators.priceData
+                volatility: indicators.volatility,
+                takerPressure: indicators.takerPressure,
+                indicatorResults: indicators.results,
+                priceData: indicators.priceData,
+                funding: marketContext.funding,
+                positioning: marketContext.positioning,
+                openInterest: marketContext.openInterest,
+                orderBook: marketContext.orderBook,
+                divergences: marketContext.divergences,
+                candlestickPatterns: marketContext.candlestickPatterns,
+                supportResistance: marketContext.supportResistance
             };
 
             // 调用DeepSeek进行分析
@@ -327,15 +651,18 @@ export class MarketPredictor {
         } catch (error) {
             console.error(`❌ ${symbol} - DeepSeek API调用失败:`, error);
             // API调用失败，回退到本地分析
-            return this.generateLocalAnalysis(indicators);
+            return this.generateLocalAnalysis(indicators, marketContext);
         }
     }
 
     /**
      * 本地分析方法 - 基于多指标的综合评分
-     * 使用MACD、RSI、MA、布林带、成交量等指标综合判断
+     * 使用MACD、RSI及振荡指标、背离、K线形态、MA、趋势强度、布林带、成交量及资金流向、资金费率等指标综合判断
      */
-    private generateLocalAnalysis(indicators: any): { prediction: string; confidence: number } {
+    private generateLocalAnalysis(
+        indicators: any,
+        marketContext: SymbolMarketContext = {}
+    ): { prediction: string; confidence: number } {
         let bullishScore = 0;
         let bearishScore = 0;
         let scoreDetails: string[] = [];
@@ -358,13 +685,10 @@ export class MarketPredictor {
             }
         }
 
-        // ========== RSI 分析 (权重: 1.5) ==========
+        // ========== RSI 分析 (权重: 1.5，超买/超卖见振荡指标共振) ==========
         if (indicators.rsi !== undefined) {
             const rsi = indicators.rsi;
-            if (rsi >= 70) {
-                bearishScore += 1.5;
-                scoreDetails.push(`RSI: 超买区(${rsi.toFixed(1)}) (-1.5)`);
-            } else if (rsi >= 60 && rsi < 70) {
+            if (rsi >= 60 && rsi < 70) {
                 bullishScore += 0.5;
                 scoreDetails.push(`RSI: 强势区(${rsi.toFixed(1)}) (+0.5)`);
             } else if (rsi > 50 && rsi < 60) {
@@ -376,12 +700,79 @@ export class MarketPredictor {
             } else if (rsi > 30 && rsi <= 40) {
                 bearishScore += 1;
                 scoreDetails.push(`RSI: 温和看空(${rsi.toFixed(1)}) (-1)`);
-            } else if (rsi <= 30) {
-                bullishScore += 1.5;
-                scoreDetails.push(`RSI: 超卖反弹(${rsi.toFixed(1)}) (+1.5)`);
             }
         }
 
+        // ========== 振荡指标共振 (权重: 1.5) ==========
+        // 单一振荡指标的超买/超卖不足以判断反转，需要多个指标同时确认
+        const oscillatorStates: Array<[string, OscillatorState | undefined]> = [
+            ['RSI', indicators.rsi !== undefined ? Oscillators.classifyRSI(indicators.rsi) : undefined],
+            ['Stoch', indicators.stochastic?.state],
+            ['StochRSI', indicators.stochRsi?.state],
+            ['W%R', indicators.williamsR?.state],
+            ['CCI', indicators.cci?.state],
+            ['MFI', indicators.mfi?.state]
+        ];
+        const availableStates = oscillatorStates.filter(([, state]) => state !== undefined);
+        const overbought = availableStates.filter(([, state]) => state === 'OVERBOUGHT').map(([name]) => name);
+        const oversold = availableStates.filter(([, state]) => state === 'OVERSOLD').map(([name]) => name);
+        const requiredAgreement = Math.min(OSCILLATOR_AGREEMENT, availableStates.length);
+
+        if (availableStates.length > 0 && oversold.length >= requiredAgreement) {
+            bullishScore += 1.5;
+            scoreDetails.push(`OSC: 超卖共振 ${oversold.join('/')} (${oversold.length}/${availableStates.length}) (+1.5)`);
+        } else if (availableStates.length > 0 && overbought.length >= requiredAgreement) {
+            bearishScore += 1.5;
+            scoreDetails.push(`OSC: 超买共振 ${overbought.join('/')} (${overbought.length}/${availableStates.length}) (-1.5)`);
+        } else if (oversold.length > 0 || overbought.length > 0) {
+            scoreDetails.push(`OSC: 超买 ${overbought.length} / 超卖 ${oversold.length}，未形成共振不计分`);
+        }
+
+        // ========== 背离分析 (权重: 强度加权，单边上限2) ==========
+        // 常规背离提示反转，隐藏背离提示趋势延续；强度越高得分越高
+        let divergenceBullish = 0;
+        let divergenceBearish = 0;
+        for (const divergence of marketContext.divergences || []) {
+            const score = Number((DIVERGENCE_SCORES[divergence.type] * divergence.strength).toFixed(1));
+            if (score === 0) continue;
+            const label = `DIV: ${divergence.source}${DIVERGENCE_LABELS[divergence.type]}(强度${divergence.strength.toFixed(2)}, ${divergence.barsAgo}根K线前)`;
+            if (divergence.bias === 'BULLISH') {
+                divergenceBullish += score;
+                scoreDetails.push(`${label} (+${score})`);
+            } else {
+                divergenceBearish += score;
+                scoreDetails.push(`${label} (-${score})`);
+            }
+        }
+        bullishScore += Math.min(divergenceBullish, DIVERGENCE_MAX_SCORE);
+        bearishScore += Math.min(divergenceBearish, DIVERGENCE_MAX_SCORE);
+
+        // ========== K线形态分析 (权重: 单边上限1.5) ==========
+        // 只有位置得到确认的形态计分 (反转形态在布林带边缘或回踩均线，持续形态在均线同侧)；多根K线组成的形态权重更高
+        // 同一形态连续出现时 (如四连阴构成两次三只乌鸦) 只计最近一次
+        let patternBullish = 0;
+        let patternBearish = 0;
+        const latestPatterns = [...(marketContext.candlestickPatterns || [])].reverse()
+            .filter((pattern, i, patterns) => patterns.findIndex(other => other.pattern === pattern.pattern) === i);
+        for (const pattern of latestPatterns) {
+            if (pattern.bias === 'NEUTRAL') continue;
+            const label = `CANDLE: ${pattern.pattern}(${pattern.barsAgo}根K线前)`;
+            if (!pattern.confirmed) {
+                scoreDetails.push(`${label} 位置未确认，不计分`);
+                continue;
+            }
+            const score = pattern.candles > 1 ? 1 : 0.5;
+            if (pattern.bias === 'BULLISH') {
+                patternBullish += score;
+                scoreDetails.push(`${label} (+${score})`);
+            } else {
+                patternBearish += score;
+                scoreDetails.push(`${label} (-${score})`);
+            }
+        }
+        bullishScore += Math.min(patternBullish, CANDLESTICK_MAX_SCORE);
+        bearishScore += Math.min(patternBearish, CANDLESTICK_MAX_SCORE);
+
         // ========== 布林带分析 (权重: 1) ==========
         if (indicators.bollingerBands) {
             const { position } = indicators.bollingerBands;
@@ -396,36 +787,69 @@ export class MarketPredictor {
 
         // ========== 移动平均线分析 (权重: 1.5) ==========
         if (indicators.ma) {
-            const { ma5, ma10, ma20, ma50 } = indicators.ma;
+            const { short, medium, long, trend } = indicators.ma;
             const price = indicators.currentPrice || 0;
 
-            // 短期均线排列 (MA5, MA10, MA20)
-            if (price > ma5 && ma5 > ma10 && ma10 > ma20) {
+            // 短期均线排列 (短/中/长周期，默认 MA5, MA10, MA20)
+            if (price > short && short > medium && medium > long) {
                 bullishScore += 2;
                 scoreDetails.push('MA: 完美多头排列(+2)');
-            } else if (price < ma5 && ma5 < ma10 && ma10 < ma20) {
+            } else if (price < short && short < medium && medium < long) {
                 bearishScore += 2;
                 scoreDetails.push('MA: 完美空头排列(-2)');
-            } else if (price > ma5 && price > ma10 && price > ma20) {
+            } else if (price > short && price > medium && price > long) {
                 bullishScore += 1;
                 scoreDetails.push('MA: 价格在主要均线上方(+1)');
-            } else if (price < ma5 && price < ma10 && price < ma20) {
+            } else if (price < short && price < medium && price < long) {
                 bearishScore += 1;
                 scoreDetails.push('MA: 价格在主要均线下方(-1)');
             }
 
-            // 中期趋势确认 (MA20 vs MA50)
-            if (ma20 && ma50) {
-                if (ma20 > ma50) {
+            // 中期趋势确认 (长周期 vs 趋势周期，默认 MA20 vs MA50)
+            if (long && trend) {
+                if (long > trend) {
                     bullishScore += 0.5;
                     scoreDetails.push('MA: 中期上升趋势(+0.5)');
-                } else if (ma20 < ma50) {
+                } else if (long < trend) {
                     bearishScore += 0.5;
                     scoreDetails.push('MA: 中期下降趋势(-0.5)');
                 }
             }
         }
 
+        // ========== 趋势强度分析 (ADX / SuperTrend / 一目均衡表 / 抛物线SAR) ==========
+        // ADX区分趋势与震荡：震荡市中其他趋势指标只记录不计分
+        const addTrendScore = (label: string, state: TrendState, weight: number) => {
+            const score = TREND_STATE_SCORES[state] * weight;
+            if (score > 0) {
+                bullishScore += score;
+                scoreDetails.push(`${label}: ${TREND_STATE_LABELS[state]}(+${score})`);
+            } else if (score < 0) {
+                bearishScore += -score;
+                scoreDetails.push(`${label}: ${TREND_STATE_LABELS[state]}(${score})`);
+            }
+        };
+        if (indicators.adx) {
+            const { adx, trendState } = indicators.adx;
+            if (trendState === 'RANGING') {
+                scoreDetails.push(`ADX: 震荡市(${adx.toFixed(1)})，趋势信号不计分`);
+            } else {
+                addTrendScore(`ADX(${adx.toFixed(1)})`, trendState, 1);
+            }
+        }
+        if (indicators.adx?.trendState !== 'RANGING') {
+            if (indicators.superTrend) {
+                const flip = indicators.superTrend.flipped ? ' 刚翻转' : '';
+                addTrendScore(`SuperTrend${flip}`, indicators.superTrend.trendState, 1);
+            }
+            if (indicators.ichimoku) {
+                addTrendScore('Ichimoku', indicators.ichimoku.trendState, 1);
+            }
+            if (indicators.parabolicSar) {
+                addTrendScore('SAR', indicators.parabolicSar.trendState, 0.5);
+            }
+        }
+
         // ========== 成交量分析 (权重: 1) ==========
         if (indicators.volume) {
             const { volumeRatio, volumeTrend } = indicators.volume;
@@ -447,16 +871,138 @@ export class MarketPredictor {
                 scoreDetails.push('VOL: 成交量萎缩(-0.5)');
             }
 
-            // 成交量趋势
-            if (volumeTrend > 0.001) {
+            // 成交量趋势 (按均量归一化，可跨币种比较)
+            if (volumeTrend > VOLUME_TREND_THRESHOLD) {
                 bullishScore += 0.5;
                 scoreDetails.push('VOL: 成交量上升趋势(+0.5)');
-            } else if (volumeTrend < -0.001) {
+            } else if (volumeTrend < -VOLUME_TREND_THRESHOLD) {
                 bearishScore += 0.5;
                 scoreDetails.push('VOL: 成交量下降趋势(-0.5)');
             }
         }
 
+        // ========== 资金流向分析 (OBV / CMF, 权重: 1) ==========
+        if (indicators.obv) {
+            const { trend, slope } = indicators.obv;
+            if (trend === 'RISING') {
+                bullishScore += 0.5;
+                scoreDetails.push(`OBV: 能量潮上升(${slope.toFixed(2)}) (+0.5)`);
+            } else if (trend === 'FALLING') {
+                bearishScore += 0.5;
+                scoreDetails.push(`OBV: 能量潮下降(${slope.toFixed(2)}) (-0.5)`);
+            }
+        }
+        if (indicators.cmf) {
+            const { state, cmf } = indicators.cmf;
+            if (state === 'ACCUMULATION') {
+                bullishScore += 0.5;
+                scoreDetails.push(`CMF: 资金流入(${cmf.toFixed(2)}) (+0.5)`);
+            } else if (state === 'DISTRIBUTION') {
+                bearishScore += 0.5;
+                scoreDetails.push(`CMF: 资金流出(${cmf.toFixed(2)}) (-0.5)`);
+            }
+        }
+
+        // ========== 成交量分布分析 (价值区, 权重: 0.5) ==========
+        // 放量离开价值区视为突破，缩量离开价值区则倾向回归POC
+        if (indicators.volumeProfile && indicators.volume) {
+            const { position, poc } = indicators.volumeProfile;
+            const expanding = indicators.volume.volumeRatio > 1.2;
+            if (position === 'ABOVE_VALUE') {
+                if (expanding) {
+                    bullishScore += 0.5;
+                    scoreDetails.push('VP: 放量突破价值区上沿(+0.5)');
+                } else {
+                    bearishScore += 0.5;
+                    scoreDetails.push(`VP: 缩量位于价值区上方，或回归POC ${poc} (-0.5)`);
+                }
+            } else if (position === 'BELOW_VALUE') {
+                if (expanding) {
+                    bearishScore += 0.5;
+                    scoreDetails.push('VP: 放量跌破价值区下沿(-0.5)');
+                } else {
+                    bullishScore += 0.5;
+                    scoreDetails.push(`VP: 缩量位于价值区下方，或回归POC ${poc} (+0.5)`);
+                }
+            }
+        }
+
+        // ========== 资金费率分析 (权重: 1) ==========
+        if (marketContext.funding) {
+            const { predictedFundingRate, fundingTrend } = marketContext.funding;
+            const ratePercent = predictedFundingRate * 100;
+
+            // 资金费率过高说明多头拥挤，反向风险增加；深度负费率则存在轧空可能
+            if (predictedFundingRate >= 0.0005) {
+                bearishScore += 1;
+                scoreDetails.push(`FUND: 多头拥挤(${ratePercent.toFixed(3)}%) (-1)`);
+            } else if (predictedFundingRate <= -0.0005) {
+                bullishScore += 1;
+                scoreDetails.push(`FUND: 空头拥挤(${ratePercent.toFixed(3)}%) (+1)`);
+            } else if (predictedFundingRate >= 0.0003 && fundingTrend === 'RISING') {
+                bearishScore += 0.5;
+                scoreDetails.push(`FUND: 费率持续上升(${ratePercent.toFixed(3)}%) (-0.5)`);
+            } else if (predictedFundingRate <= -0.0003 && fundingTrend === 'FALLING') {
+                bullishScore += 0.5;
+                scoreDetails.push(`FUND: 费率持续下降(${ratePercent.toFixed(3)}%) (+0.5)`);
+            }
+        }
+
+        // ========== 多空持仓分析 (权重: 1) ==========
+        if (marketContext.positioning) {
+            const { crowding, takerAggression, takerBuySellRatio } = marketContext.positioning;
+
+            // 主动买卖方向反映真实资金，多空比反映杠杆拥挤程度
+            if (takerAggression === 'BUYERS') {
+                bullishScore += 1;
+                scoreDetails.push(`POS: 主动买盘占优(${takerBuySellRatio.toFixed(2)}) (+1)`);
+            } else if (takerAggression === 'SELLERS') {
+                bearishScore += 1;
+                scoreDetails.push(`POS: 主动卖盘占优(${takerBuySellRatio.toFixed(2)}) (-1)`);
+            }
+
+            if (crowding === 'CROWDED_LONG' && takerAggression !== 'BUYERS') {
+                bearishScore += 1;
+                scoreDetails.push('POS: 多头拥挤且缺乏主动买盘，上涨由杠杆多头驱动 (-1)');
+            } else if (crowding === 'CROWDED_SHORT' && takerAggression === 'BUYERS') {
+                bullishScore += 0.5;
+                scoreDetails.push('POS: 空头拥挤+主动买入，存在轧空可能 (+0.5)');
+            }
+        }
+
+        // ========== 持仓量变化分析 (权重: 1) ==========
+        if (marketContext.openInterest) {
+            const { quadrant, oiChangePercent, priceChangePercent } = marketContext.openInterest;
+            const change = `OI ${oiChangePercent.toFixed(1)}%, 价格 ${priceChangePercent.toFixed(1)}%`;
+
+            if (quadrant === 'NEW_LONGS') {
+                bullishScore += 1;
+                scoreDetails.push(`OI: 增仓上涨，新多头入场(${change}) (+1)`);
+            } else if (quadrant === 'SHORT_COVERING') {
+                // 空头回补推动的上涨缺乏新资金，持续性较弱
+                bullishScore += 0.5;
+                scoreDetails.push(`OI: 减仓上涨，空头回补(${change}) (+0.5)`);
+            } else if (quadrant === 'NEW_SHORTS') {
+                bearishScore += 1;
+                scoreDetails.push(`OI: 增仓下跌，新空头入场(${change}) (-1)`);
+            } else if (quadrant === 'LONG_LIQUIDATION') {
+                bearishScore += 0.5;
+                scoreDetails.push(`OI: 减仓下跌，多头平仓(${change}) (-0.5)`);
+            }
+        }
+
+        // ========== 扩展指标分析 (权重: 由指标定义) ==========
+        const customResults: IndicatorResult[] = (indicators.results || [])
+            .filter((result: IndicatorResult) => !CORE_INDICATOR_IDS.includes(result.id));
+        for (const result of customResults) {
+            const score = this.indicatorRegistry.get(result.id)?.score?.(result.value, result.params);
+            if (score) {
+                bullishScore += score.bullish;
+                bearishScore += score.bearish;
+                scoreDetails.push(`${result.name}: ${score.detail}`);
+            }
+        }
+
         // ========== 综合评分生成信号 ==========
         let prediction = 'HOLD';
         let confidence = 50;
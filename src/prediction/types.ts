@@ -1,10 +1,29 @@
 // src/prediction/types.ts
 import { AllIndicators } from '../indicators/indicatorCalculator';
+import { FundingMetrics } from '../indicators/funding';
+import { PositioningIndicators } from '../indicators/positioning';
+import { OpenInterestMetrics } from '../indicators/openInterest';
+import { OrderBookMetrics } from '../indicators/orderBook';
+import { Divergence } from '../indicators/divergence';
+import { CandlestickPattern } from '../indicators/candlestickPatterns';
+import { SupportResistanceLevels } from '../indicators/supportResistance';
+import { IndicatorSettings, MovingAveragePeriods } from '../indicators/indicatorSettings';
+import { OpenInterestData, PriceData } from '../binance/types';
+import { ExchangeId } from '../exchanges/types';
 
 export interface PredictionConfig {
-    // Volume filter settings
+    // Contract selection
+    quoteAsset?: string;                 // USDT (default) or USDC on USDⓈ-M, USD on COIN-M
+    contractTypes?: string[];            // Contract types to scan (default ['PERPETUAL'])
+    
+    // Volume filter settings (volume and OI are quote-currency notional on every market, COIN-M contracts included)
     minVolumeThreshold: number;          // Minimum 24h volume in USDT (e.g., 50,000,000 = 50M)
     minPriceChangePercent: number;       // Minimum 24h price change percentage (e.g., 5 for 5%)
+    minOpenInterestValue?: number;       // Minimum open interest value in USDT (default 50,000,000 = 50M)
+    openInterestLookback?: number;       // OI history periods compared against price (default 6)
+    slippageReferenceNotional?: number;  // Order size in USDT for the order book slippage estimate (default 10,000)
+    newListingDays?: number;             // Contracts onboarded within this many days are new listings (default 14)
+    excludeNewListings?: boolean;        // Skip new listings instead of flagging them
     
     // K-line settings
     klineInterval: string;               // Interval for K-line data (e.g., '15m')
@@ -17,6 +36,10 @@ export interface PredictionConfig {
     macdSignalPeriod: number;             // MACD signal period
     bbPeriod: number;                    // Bollinger Bands period
     bbMultiplier: number;                // Bollinger Bands multiplier
+    maPeriods?: MovingAveragePeriods;    // Moving average periods (default 5/10/20/50)
+    volumePeriod?: number;               // Volume average / trend / taker pressure window (default 20)
+    indicators?: string[];               // Registry indicator ids to run (default every registered indicator)
+    indicatorParams?: Record<string, Record<string, unknown>>; // Per-indicator parameter overrides
     
     // Analysis settings
     deepSeekEnabled: boolean;            // Whether to use DeepSeek for analysis
@@ -24,12 +47,52 @@ export interface PredictionConfig {
 
 export interface PredictedSymbol {
     symbol: string;
+    exchange?: ExchangeId;               // Venue the market data came from
     currentPrice: number;
     volume24h: number;
     priceChangePercent24h: number;
-    sumOpenInterestValue?: number;       // 24h open interest value in USDT
+    contract?: ContractMetadata;         // Contract rules from exchangeInfo
+    sumOpenInterestValue?: number;       // Latest open interest value in USDT
+    openInterest?: OpenInterestMetrics;  // OI change, OI/volume and price-vs-OI quadrant
     technicalIndicators: AllIndicators;
+    indicatorSettings?: IndicatorSettings; // Parameters the technical indicators were calculated with
+    funding?: FundingMetrics;            // Funding rate and mark/index basis
+    positioning?: PositioningIndicators; // Long/short ratios and taker aggression
+    orderBook?: OrderBookMetrics;        // Spread, depth imbalance, walls and slippage
+    divergences?: Divergence[];          // Recent RSI / MACD / OBV divergences against price swings
+    candlestickPatterns?: CandlestickPattern[]; // Patterns on the latest candles with their Bollinger / MA location
+    supportResistance?: SupportResistanceLevels; // Strongest support / resistance levels and pivot points
     prediction?: string;                 // Prediction from DeepSeek analysis
     confidence?: number;                 // Confidence level of prediction
     timestamp: number;
-}
\ No newline at end of file
+}
+
+// Contract metadata from exchangeInfo, used to round prices in reports and to flag new listings
+export interface ContractMetadata {
+    contractType: string;
+    tickSize: number;
+    stepSize: number;
+    minNotional: number;
+    contractSize?: number;               // COIN-M: USD value of one contract
+    onboardDate: number;
+    listingAgeDays?: number;
+    isNewListing: boolean;
+}
+
+// A ticker that passed screening, with the OI history fetched for the open interest gate
+export interface ScreenedSymbol extends PriceData {
+    sumOpenInterestValue: number;
+    openInterestHistory: OpenInterestData[];
+    contract?: ContractMetadata;
+}
+
+// Market data beyond the indicator values that feeds the local score and the DeepSeek prompt
+export interface SymbolMarketContext {
+    funding?: FundingMetrics;
+    positioning?: PositioningIndicators;
+    openInterest?: OpenInterestMetrics;
+    orderBook?: OrderBookMetrics;
+    divergences?: Divergence[];
+    candlestickPatterns?: CandlestickPattern[];
+    supportResistance?: SupportResistanceLevels;
+}
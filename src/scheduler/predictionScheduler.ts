@@ -1,9 +1,10 @@
 // src/scheduler/predictionScheduler.ts
 // 预测调度器 - 使用Cron定时执行市场预测任务，每15分钟一次
 import { CronJob } from 'cron';
-import { MarketPredictor } from '../prediction/marketPredictor';
+import { MarketPredictor, MarketPredictorOptions } from '../prediction/marketPredictor';
 import { CSVExporter } from '../storage/csvExporter';
-import { BinanceClient } from '../binance/client';
+import { ExchangeClient } from '../exchanges/types';
+import { BinanceMarketStream, KlineEvent } from '../binance/marketStream';
 import { PredictionConfig } from '../prediction/types';
 import { SimplifiedReporter, SimplifiedSummary } from '../analysis/simplifiedReporter';
 import * as fs from 'fs';
@@ -12,19 +13,26 @@ import * as path from 'path';
 // 预测调度器类
 export class PredictionScheduler {
     private cronJob: CronJob | null = null; // Cron定时任务
+    private marketStream: BinanceMarketStream | null = null; // K线收盘触发模式下的行情流
+    private klineCloseListener: ((event: KlineEvent) => void) | null = null;
+    private detachStreamingIndicators: (() => void) | null = null; // 断开预测器的流式指标
+    private config: PredictionConfig; // 预测配置参数
     private marketPredictor: MarketPredictor; // 市场预测器实例
     private isRunning: boolean = false; // 当前是否有预测在运行
     private executionCount: number = 0; // 执行次数计数器
 
     constructor(
-        binanceClient: BinanceClient,
+        exchangeClient: ExchangeClient,
         config: PredictionConfig,
-        deepSeekApiKey?: string
+        deepSeekApiKey?: string,
+        predictorOptions: MarketPredictorOptions = {}
     ) {
+        this.config = config;
         this.marketPredictor = new MarketPredictor(
-            binanceClient,
+            exchangeClient,
             config,
-            deepSeekApiKey
+            deepSeekApiKey,
+            predictorOptions
         );
     }
 
@@ -53,11 +61,55 @@ export class PredictionScheduler {
         this.executePrediction();
     }
 
+    /**
+     * Run predictions whenever a candle of the reference symbol closes,
+     * instead of on a fixed cron schedule
+     */
+    async startOnCandleClose(marketStream: BinanceMarketStream, referenceSymbol: string = 'BTCUSDT'): Promise<void> {
+        if (this.cronJob || this.marketStream) {
+            console.log('⚠️  Scheduler is already running');
+            return;
+        }
+
+        const interval = this.config.klineInterval;
+        console.log(`🕐 Starting prediction scheduler (on ${referenceSymbol} ${interval} candle close)`);
+
+        this.marketStream = marketStream;
+        this.klineCloseListener = (event: KlineEvent) => {
+            // 断线期间补回的K线只用于补齐数据，不重复触发历史周期
+            if (event.backfilled || event.symbol !== referenceSymbol || event.interval !== interval) {
+                return;
+            }
+            this.executePrediction();
+        };
+        marketStream.on('klineClose', this.klineCloseListener);
+        marketStream.subscribeKlines(referenceSymbol, interval);
+        // 预测过的交易对由行情流实时更新流式指标
+        this.detachStreamingIndicators = this.marketPredictor.attachMarketStream(marketStream);
+
+        // connect() keeps retrying until the socket opens; roll back if the stream is closed first
+        try {
+            await marketStream.connect();
+        } catch (error) {
+            if (this.marketStream === marketStream) {
+                this.detachMarketStream();
+            }
+            throw error;
+        }
+
+        // Also run once immediately
+        console.log('\n▶️  Running initial prediction...');
+        this.executePrediction();
+    }
+
     /**
      * 停止调度器
      */
     stop(): void {
-        if (this.cronJob) {
+        if (this.marketStream) {
+            this.detachMarketStream();
+            console.log('⚫ Prediction scheduler \u505c\u6b62\u4e86');
+        } else if (this.cronJob) {
             this.cronJob.stop();
             this.cronJob = null;
             console.log('⚫ Prediction scheduler \u505c\u6b62\u4e86');
@@ -66,6 +118,30 @@ export class PredictionScheduler {
         }
     }
 
+    /**
+     * Remove the candle-close listener and streaming indicators, then close the stream
+     */
+    private detachMarketStream(): void {
+        if (!this.marketStream) return;
+        if (this.klineCloseListener) {
+            this.marketStream.off('klineClose', this.klineCloseListener);
+            this.klineCloseListener = null;
+        }
+        if (this.detachStreamingIndicators) {
+            this.detachStreamingIndicators();
+            this.detachStreamingIndicators = null;
+        }
+        this.marketStream.disconnect();
+        this.marketStream = null;
+    }
+
+    /**
+     * Run a single prediction cycle without scheduling further runs
+     */
+    async runOnce(): Promise<void> {
+        await this.executePrediction();
+    }
+
     /**
      * Execute a single prediction cycle
      */
@@ -116,6 +192,8 @@ export class PredictionScheduler {
                 currentPrice: p.currentPrice,
                 signal: p.prediction || 'HOLD',
                 confidence: p.confidence || 0,
+                support: p.supportResistance?.supports[0]?.price,
+                resistance: p.supportResistance?.resistances[0]?.price,
                 timestamp: p.timestamp
             }));
 
@@ -168,7 +246,7 @@ export class PredictionScheduler {
      * 检查调度器是否还在运行
      */
     isSchedulerRunning(): boolean {
-        return this.cronJob !== null;
+        return this.cronJob !== null || this.marketStream !== null;
     }
 
     /**
@@ -2,6 +2,16 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { PredictedSymbol } from '../prediction/types';
+import { formatPrice } from '../binance/symbolUniverse';
+import { formatIndicatorSettings } from '../indicators/indicatorSettings';
+import { formatIndicatorField, IndicatorOutputField } from '../indicators/registry';
+import { PriceLevel } from '../indicators/supportResistance';
+
+// One CSV column per indicator output
+interface IndicatorColumn {
+    id: string;
+    field: IndicatorOutputField;
+}
 
 export class CSVExporter {
     /**
@@ -23,6 +33,63 @@ export class CSVExporter {
         const beijingDate = new Date(date.getTime() + 8 * 60 * 60 * 1000);
         return beijingDate.toISOString().replace('Z', '+08:00');
     }
+    /**
+     * Format a price with the contract tick size when known
+     */
+    private static formatPriceField(prediction: PredictedSymbol, price: number | undefined, fallbackDigits: number = 8): string {
+        if (price === undefined || price === null) return 'N/A';
+        const tickSize = prediction.contract?.tickSize;
+        return tickSize ? formatPrice(price, tickSize) : price.toFixed(fallbackDigits);
+    }
+
+    /**
+     * Divergences as "SOURCE TYPE strength/barsAgo", e.g. "RSI REGULAR_BULLISH 0.62/4"
+     */
+    private static formatDivergences(prediction: PredictedSymbol): string {
+        if (!prediction.divergences) return 'N/A';
+        if (prediction.divergences.length === 0) return 'NONE';
+        return prediction.divergences
+            .map(divergence => `${divergence.source} ${divergence.type} ${divergence.strength.toFixed(2)}/${divergence.barsAgo}`)
+            .join('; ');
+    }
+
+    /**
+     * Patterns as "PATTERN@klineIndex", marked "(confirmed)" when the location supports them
+     */
+    private static formatCandlestickPatterns(prediction: PredictedSymbol): string {
+        if (!prediction.candlestickPatterns) return 'N/A';
+        if (prediction.candlestickPatterns.length === 0) return 'NONE';
+        return prediction.candlestickPatterns
+            .map(pattern => `${pattern.pattern}@${pattern.index}${pattern.confirmed ? ' (confirmed)' : ''}`)
+            .join('; ');
+    }
+
+    /**
+     * Levels nearest first as "price (strength)", e.g. "85000.0 (72); 82500.0 (55)"
+     */
+    private static formatLevels(prediction: PredictedSymbol, levels: PriceLevel[] | undefined): string {
+        if (!levels) return 'N/A';
+        if (levels.length === 0) return 'NONE';
+        return levels.map(level => `${this.formatPriceField(prediction, level.price)} (${level.strength})`).join('; ');
+    }
+
+    /**
+     * Indicator output columns, in the order the indicators ran (union over all predictions)
+     */
+    private static getIndicatorColumns(predictions: PredictedSymbol[]): IndicatorColumn[] {
+        const columns: IndicatorColumn[] = [];
+        for (const prediction of predictions) {
+            for (const result of prediction.technicalIndicators.results || []) {
+                for (const field of result.outputs) {
+                    if (!columns.some(column => column.id === result.id && column.field.key === field.key)) {
+                        columns.push({ id: result.id, field });
+                    }
+                }
+            }
+        }
+        return columns;
+    }
+
     /**
      * Export predictions to CSV format
      */
@@ -31,27 +98,42 @@ export class CSVExporter {
             return 'No predictions available';
         }
 
+        const indicatorColumns = this.getIndicatorColumns(predictions);
+
         // CSV Header
         const headers = [
             'Symbol',
+            'Exchange',
+            'Contract Type',
+            'New Listing',
+            'Listing Age (days)',
             'Current Price',
             'Volume 24h (USDT)',
             'Open Interest Value (USDT)',
+            'OI Change (%)',
+            'OI/Volume Ratio',
+            'OI Quadrant',
             'Price Change 24h (%)',
-            'MACD',
-            'MACD Signal',
-            'MACD Histogram',
-            'RSI',
-            'MA5',
-            'MA10',
-            'MA20',
-            'MA50',
-            'Bollinger Upper',
-            'Bollinger Middle',
-            'Bollinger Lower',
-            'Bollinger Position',
-            'Volume Ratio',
-            'Volume Trend',
+            ...indicatorColumns.map(column => column.field.label),
+            'Divergences',
+            'Candlestick Patterns',
+            'Support Levels',
+            'Resistance Levels',
+            'Funding Rate (%)',
+            'Predicted Funding (%)',
+            'Funding Trend',
+            'Basis (%)',
+            'Long/Short Ratio',
+            'Top Trader L/S Ratio',
+            'Crowding',
+            'Taker Buy/Sell Ratio',
+            'Taker Aggression',
+            'Spread (bps)',
+            'Depth Imbalance 1%',
+            'Buy Slippage (bps)',
+            'Sell Slippage (bps)',
+            'Thin Book',
+            'Indicator Settings',
             'Prediction',
             'Confidence (%)',
             'Timestamp'
@@ -64,24 +146,41 @@ export class CSVExporter {
             const indicators = prediction.technicalIndicators;
             const row = [
                 prediction.symbol,
-                prediction.currentPrice.toFixed(8),
+                prediction.exchange || 'N/A',
+                prediction.contract?.contractType || 'N/A',
+                prediction.contract ? (prediction.contract.isNewListing ? 'YES' : 'NO') : 'N/A',
+                prediction.contract?.listingAgeDays ?? 'N/A',
+                this.formatPriceField(prediction, prediction.currentPrice),
                 prediction.volume24h.toFixed(2),
                 (prediction.sumOpenInterestValue || 0).toFixed(2),
+                prediction.openInterest?.oiChangePercent?.toFixed(2) || 'N/A',
+                prediction.openInterest?.oiToVolumeRatio?.toFixed(4) || 'N/A',
+                prediction.openInterest?.quadrant || 'N/A',
                 prediction.priceChangePercent24h.toFixed(2),
-                indicators.macd?.macd?.toFixed(8) || 'N/A',
-                indicators.macd?.signal?.toFixed(8) || 'N/A',
-                indicators.macd?.histogram?.toFixed(8) || 'N/A',
-                indicators.rsi?.toFixed(2) || 'N/A',
-                indicators.ma?.ma5?.toFixed(8) || 'N/A',
-                indicators.ma?.ma10?.toFixed(8) || 'N/A',
-                indicators.ma?.ma20?.toFixed(8) || 'N/A',
-                indicators.ma?.ma50?.toFixed(8) || 'N/A',
-                indicators.bollingerBands?.upper?.toFixed(8) || 'N/A',
-                indicators.bollingerBands?.middle?.toFixed(8) || 'N/A',
-                indicators.bollingerBands?.lower?.toFixed(8) || 'N/A',
-                indicators.bollingerBands?.position || 'N/A',
-                indicators.volume?.volumeRatio?.toFixed(4) || 'N/A',
-                indicators.volume?.volumeTrend?.toFixed(6) || 'N/A',
+                ...indicatorColumns.map(column => {
+                    const result = indicators.results?.find(item => item.id === column.id);
+                    return formatIndicatorField(column.field, result?.value?.[column.field.key],
+                        price => this.formatPriceField(prediction, price));
+                }),
+                this.formatDivergences(prediction),
+                this.formatCandlestickPatterns(prediction),
+                this.formatLevels(prediction, prediction.supportResistance?.supports),
+                this.formatLevels(prediction, prediction.supportResistance?.resistances),
+                prediction.funding ? (prediction.funding.currentFundingRate * 100).toFixed(4) : 'N/A',
+                prediction.funding ? (prediction.funding.predictedFundingRate * 100).toFixed(4) : 'N/A',
+                prediction.funding?.fundingTrend || 'N/A',
+                prediction.funding?.basisPercent?.toFixed(4) || 'N/A',
+                prediction.positioning?.globalLongShortRatio?.toFixed(4) || 'N/A',
+                prediction.positioning?.topTraderLongShortRatio?.toFixed(4) || 'N/A',
+                prediction.positioning?.crowding || 'N/A',
+                prediction.positioning?.takerBuySellRatio?.toFixed(4) || 'N/A',
+                prediction.positioning?.takerAggression || 'N/A',
+                prediction.orderBook?.spreadBps?.toFixed(2) || 'N/A',
+                prediction.orderBook?.imbalances.find(band => band.bandPercent === 1)?.imbalance?.toFixed(4) || 'N/A',
+                prediction.orderBook?.buySlippageBps?.toFixed(2) || 'N/A',
+                prediction.orderBook?.sellSlippageBps?.toFixed(2) || 'N/A',
+                prediction.orderBook ? (prediction.orderBook.isThinBook ? 'YES' : 'NO') : 'N/A',
+                prediction.indicatorSettings ? formatIndicatorSettings(prediction.indicatorSettings) : 'N/A',
                 prediction.prediction || 'HOLD',
                 (prediction.confidence || 0).toFixed(1),
                 this.toBeiJingTimeISO(prediction.timestamp)
@@ -137,6 +236,7 @@ export class CSVExporter {
             'Price'.padEnd(12),
             'Vol 24h'.padEnd(12),
             'OI Value'.padEnd(12),
+            'OI Chg%'.padEnd(8),
             'Chg%'.padEnd(8),
             'MACD'.padEnd(10),
             'RSI'.padEnd(8),
@@ -159,10 +259,11 @@ export class CSVExporter {
             const timestamp = this.toBeiJingTime(prediction.timestamp);
 
             const row = [
-                prediction.symbol.padEnd(12),
-                prediction.currentPrice.toFixed(4).padEnd(12),
+                (prediction.symbol + (prediction.contract?.isNewListing ? '*' : '')).padEnd(12),
+                this.formatPriceField(prediction, prediction.currentPrice, 4).padEnd(12),
                 (prediction.volume24h / 1000000).toFixed(1).padEnd(12) + 'M',
                 ((prediction.sumOpenInterestValue || 0) / 1000000).toFixed(1).padEnd(12) + 'M',
+                (prediction.openInterest?.oiChangePercent?.toFixed(2) || 'N/A').padEnd(8),
                 prediction.priceChangePercent24h.toFixed(2).padEnd(8),
                 macdValue.padEnd(10),
                 rsiValue.padEnd(8),
@@ -177,6 +278,9 @@ export class CSVExporter {
 
         console.log('='.repeat(165));
         console.log(`Total Symbols: ${predictions.length}`);
+        if (predictions.some(p => p.contract?.isNewListing)) {
+            console.log('* New listing');
+        }
         console.log('='.repeat(150));
     }
 
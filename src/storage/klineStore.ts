@@ -0,0 +1,117 @@
+// src/storage/klineStore.ts
+// K线本地存储 - 按交易对/周期持久化已收盘的K线，支持增量更新
+import * as fs from 'fs';
+import * as path from 'path';
+import { Kline } from '../binance/types';
+
+export interface KlineStoreOptions {
+    baseDir?: string;                    // 存储目录 (默认 ./data/klines)
+    maxCandlesPerSeries?: number;        // 每个交易对/周期最多保留的K线数量
+}
+
+export class KlineStore {
+    private readonly baseDir: string;
+    private readonly maxCandlesPerSeries: number;
+    private cache: Map<string, Kline[]> = new Map(); // 内存缓存，避免重复读取文件
+
+    constructor(options: KlineStoreOptions = {}) {
+        this.baseDir = options.baseDir || './data/klines';
+        this.maxCandlesPerSeries = options.maxCandlesPerSeries || 5000;
+    }
+
+    /**
+     * 读取已存储的K线 (按开盘时间升序)
+     */
+    load(symbol: string, interval: string): Kline[] {
+        const key = this.getKey(symbol, interval);
+        const cached = this.cache.get(key);
+        if (cached) {
+            return cached;
+        }
+
+        const filePath = this.getFilePath(symbol, interval);
+        let klines: Kline[] = [];
+        if (fs.existsSync(filePath)) {
+            try {
+                const content = fs.readFileSync(filePath, 'utf-8');
+                const parsed = JSON.parse(content);
+                if (Array.isArray(parsed)) {
+                    klines = parsed as Kline[];
+                }
+            } catch (error) {
+                console.warn(`⚠️  读取K线存储失败 (${filePath})，将重新获取:`, error);
+            }
+        }
+
+        this.cache.set(key, klines);
+        return klines;
+    }
+
+    /**
+     * 合并新的K线到存储中 (按开盘时间去重，新数据覆盖旧数据) 并写入文件
+     */
+    merge(symbol: string, interval: string, klines: Kline[]): Kline[] {
+        const existing = this.load(symbol, interval);
+        if (klines.length === 0) {
+            return existing;
+        }
+
+        const byOpenTime = new Map<number, Kline>();
+        for (const kline of existing) {
+            byOpenTime.set(kline.date, kline);
+        }
+        for (const kline of klines) {
+            byOpenTime.set(kline.date, kline);
+        }
+
+        const merged = Array.from(byOpenTime.values())
+            .sort((a, b) => a.date - b.date)
+            .slice(-this.maxCandlesPerSeries);
+
+        this.save(symbol, interval, merged);
+        return merged;
+    }
+
+    /**
+     * 获取最后一根已存储K线的开盘时间
+     */
+    getLastOpenTime(symbol: string, interval: string): number | null {
+        const klines = this.load(symbol, interval);
+        return klines.length > 0 ? klines[klines.length - 1].date : null;
+    }
+
+    /**
+     * 清除某个交易对/周期的存储
+     */
+    clear(symbol: string, interval: string): void {
+        this.cache.delete(this.getKey(symbol, interval));
+        const filePath = this.getFilePath(symbol, interval);
+        if (fs.existsSync(filePath)) {
+            fs.unlinkSync(filePath);
+        }
+    }
+
+    /**
+     * 写入文件 (先写临时文件再重命名，避免中断时留下损坏的文件)
+     */
+    private save(symbol: string, interval: string, klines: Kline[]): void {
+        if (!fs.existsSync(this.baseDir)) {
+            fs.mkdirSync(this.baseDir, { recursive: true });
+        }
+
+        const filePath = this.getFilePath(symbol, interval);
+        const tempPath = `${filePath}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(klines), 'utf-8');
+        fs.renameSync(tempPath, filePath);
+
+        this.cache.set(this.getKey(symbol, interval), klines);
+    }
+
+    private getKey(symbol: string, interval: string): string {
+        return `${symbol}_${interval}`;
+    }
+
+    private getFilePath(symbol: string, interval: string): string {
+        return path.join(this.baseDir, `${this.getKey(symbol, interval)}.json`);
+    }
+}
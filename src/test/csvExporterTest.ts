@@ -1,6 +1,27 @@
 // src/test/csvExporterTest.ts
 import { CSVExporter } from '../storage/csvExporter';
 import { PredictedSymbol } from '../prediction/types';
+import { IndicatorCalculator } from '../indicators/indicatorCalculator';
+import { Kline } from '../binance/types';
+
+/**
+ * Indicators over 60 synthetic 15m candles drifting towards the given price
+ */
+function sampleIndicators(price: number, drift: number) {
+  const klines: Kline[] = Array.from({ length: 60 }, (_, i) => {
+    const close = price * (1 - drift * (59 - i)) * (1 + 0.002 * Math.sin(i));
+    return {
+      date: 1700000000000 + i * 900000,
+      open: close * 0.999,
+      high: close * 1.002,
+      low: close * 0.997,
+      close,
+      volume: 500 + 100 * Math.cos(i),
+      takerBuyBaseVolume: 260 + 60 * Math.cos(i)
+    };
+  });
+  return IndicatorCalculator.calculateAllIndicators(klines);
+}
 
 async function testCSVExporter() {
   console.log('🧪 Testing CSV Exporter...\n');
@@ -15,15 +36,7 @@ async function testCSVExporter() {
       prediction: 'BUY',
       confidence: 75,
       timestamp: Date.now(),
-      technicalIndicators: {
-        macd: { macd: 0.00234, signal: 0.00189, histogram: 0.00045 },
-        volume: { currentVolume: 745.458, averageVolume: 800, volumeRatio: 0.93, volumeTrend: 5.2 },
-        currentPrice: 87231.7,
-        rsi: 65,
-        ma: { ma5: 87100, ma10: 87050, ma20: 86900, ma50: 86500 },
-        bollingerBands: { upper: 87500, middle: 87200, lower: 86900, bandwidth: 0.34, position: 'NORMAL' },
-        priceData: { highs: [], lows: [], closes: [] }
-      }
+      technicalIndicators: sampleIndicators(87231.7, 0.0004)
     },
     {
       symbol: 'ETHUSDT',
@@ -33,15 +46,7 @@ async function testCSVExporter() {
       prediction: 'SELL',
       confidence: 68,
       timestamp: Date.now(),
-      technicalIndicators: {
-        macd: { macd: -0.00123, signal: -0.00145, histogram: 0.00022 },
-        volume: { currentVolume: 450.123, averageVolume: 500, volumeRatio: 0.90, volumeTrend: -3.1 },
-        currentPrice: 3245.89,
-        rsi: 72,
-        ma: { ma5: 3240, ma10: 3200, ma20: 3180, ma50: 3100 },
-        bollingerBands: { upper: 3280, middle: 3240, lower: 3200, bandwidth: 0.25, position: 'OVERBOUGHT' },
-        priceData: { highs: [], lows: [], closes: [] }
-      }
+      technicalIndicators: sampleIndicators(3245.89, -0.0006)
     },
     {
       symbol: 'BNBUSDT',
@@ -51,15 +56,7 @@ async function testCSVExporter() {
       prediction: 'HOLD',
       confidence: 55,
       timestamp: Date.now(),
-      technicalIndicators: {
-        macd: { macd: 0.00001, signal: 0.00005, histogram: -0.00004 },
-        volume: { currentVolume: 234.567, averageVolume: 250, volumeRatio: 0.94, volumeTrend: 1.2 },
-        currentPrice: 612.34,
-        rsi: 50,
-        ma: { ma5: 610, ma10: 608, ma20: 605, ma50: 600 },
-        bollingerBands: { upper: 620, middle: 612, lower: 604, bandwidth: 0.26, position: 'NORMAL' },
-        priceData: { highs: [], lows: [], closes: [] }
-      }
+      technicalIndicators: sampleIndicators(612.34, 0.0001)
     }
   ];
 
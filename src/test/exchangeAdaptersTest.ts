@@ -0,0 +1,262 @@
+// src/test/exchangeAdaptersTest.ts
+import * as fs from 'fs';
+import * as path from 'path';
+import { BinanceClient } from '../binance/client';
+import { SymbolUniverse } from '../binance/symbolUniverse';
+import { BybitClient } from '../exchanges/bybitClient';
+import { OkxClient } from '../exchanges/okxClient';
+import { compareAcrossVenues } from '../exchanges/crossVenue';
+import { InMemoryTransport } from '../transport/fakeTransport';
+import { assert } from './helpers';
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures');
+
+function fixture(venue: string, name: string): any {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, venue, `${name}.json`), 'utf-8'));
+}
+
+/**
+ * Recorded Bybit v5 payloads
+ */
+function createBybitTransport(): InMemoryTransport {
+  return new InMemoryTransport()
+    .on('GET', '/v5/market/tickers', request => {
+      const symbol = new URL(request.url).searchParams.get('symbol');
+      const body = fixture('bybit', 'tickers');
+      if (symbol) {
+        body.result.list = body.result.list.filter((item: any) => item.symbol === symbol);
+      }
+      return { body };
+    })
+    .on('GET', '/v5/market/kline', { body: fixture('bybit', 'kline') })
+    .on('GET', '/v5/market/open-interest', { body: fixture('bybit', 'open-interest') })
+    .on('GET', '/v5/market/funding/history', { body: fixture('bybit', 'funding-history') })
+    .on('GET', '/v5/market/orderbook', { body: fixture('bybit', 'orderbook') })
+    .on('GET', '/v5/market/instruments-info', { body: fixture('bybit', 'instruments-info') });
+}
+
+/**
+ * Recorded OKX v5 payloads
+ */
+function createOkxTransport(): InMemoryTransport {
+  return new InMemoryTransport()
+    .on('GET', '/api/v5/market/tickers?', { body: fixture('okx', 'tickers') })
+    .on('GET', '/api/v5/market/ticker?', { body: fixture('okx', 'ticker') })
+    .on('GET', '/api/v5/market/candles', { body: fixture('okx', 'candles') })
+    .on('GET', '/api/v5/rubik/stat/contracts/open-interest-history', { body: fixture('okx', 'open-interest-history') })
+    .on('GET', '/api/v5/public/funding-rate?', { body: fixture('okx', 'funding-rate') })
+    .on('GET', '/api/v5/public/funding-rate-history', { body: fixture('okx', 'funding-rate-history') })
+    .on('GET', '/api/v5/public/mark-price', { body: fixture('okx', 'mark-price') })
+    .on('GET', '/api/v5/market/index-tickers', { body: fixture('okx', 'index-tickers') })
+    .on('GET', '/api/v5/market/books', { body: fixture('okx', 'books') })
+    .on('GET', '/api/v5/public/instruments', { body: fixture('okx', 'instruments') });
+}
+
+/**
+ * Recorded Binance COIN-M (dapi) payloads
+ */
+function createCoinMarginedTransport(): InMemoryTransport {
+  return new InMemoryTransport()
+    .on('GET', '/dapi/v1/exchangeInfo', { body: fixture('binance-coinm', 'exchangeInfo') })
+    .on('GET', '/dapi/v1/ticker/24hr', { body: fixture('binance-coinm', 'ticker-24hr') })
+    .on('GET', '/dapi/v1/klines', { body: fixture('binance-coinm', 'klines') })
+    .on('GET', '/dapi/v1/premiumIndex', { body: fixture('binance-coinm', 'premiumIndex') })
+    .on('GET', '/dapi/v1/depth', { body: fixture('binance-coinm', 'depth') })
+    .on('GET', '/futures/data/openInterestHist', { body: fixture('binance-coinm', 'openInterestHist') })
+    .on('GET', '/futures/data/takerBuySellVol', { body: fixture('binance-coinm', 'takerBuySellVol') })
+    .on('GET', '/futures/data/topLongShortPositionRatio', { body: fixture('binance-coinm', 'topLongShortPositionRatio') });
+}
+
+async function testBinanceCoinMargined() {
+  console.log('Binance COIN-M');
+  const transport = createCoinMarginedTransport();
+  const client = new BinanceClient({ market: 'coinm', transport });
+
+  const tickers = await client.getAll24hrTickers();
+  assert(tickers[0].symbol === 'BTCUSD_PERP' && tickers[0].quoteVolume === 9512030 * 100, '24h volume is converted from contracts to USD');
+
+  const ticker = await client.get24hrTicker('BTCUSD_PERP');
+  assert(ticker.price === 37120.5, 'single ticker is read from the list response');
+
+  const klines = await client.getKlines('BTCUSD_PERP', '15m', 2);
+  assert(klines[1].volume === 129.4 && klines[1].quoteVolume === 48000 * 100, 'kline volume is in base coin and turnover in USD');
+  assert(klines[1].takerBuyBaseVolume === 80.9 && klines[1].takerBuyQuoteVolume === 30000 * 100, 'taker buy volume is split the same way');
+
+  const openInterest = await client.getOpenInterestStatistics({ symbol: 'BTCUSD_PERP', period: '15m', limit: 2 });
+  const oiUrl = new URL(transport.requests.find(r => r.url.includes('openInterestHist'))!.url);
+  assert(oiUrl.searchParams.get('pair') === 'BTCUSD' && oiUrl.searchParams.get('contractType') === 'PERPETUAL',
+    'open interest is queried by pair and contract type');
+  assert(openInterest[1].symbol === 'BTCUSD_PERP' && openInterest[1].sumOpenInterestValue === (6500000 * 100).toString(),
+    'open interest value is contracts times contract size in USD');
+
+  const premiumIndex = await client.getPremiumIndex('BTCUSD_PERP');
+  assert(premiumIndex.markPrice === 37121.8 && premiumIndex.fundingRate === 0.0001, 'premium index is read from the list response');
+
+  const depth = await client.getDepth('BTCUSD_PERP', 50);
+  assert(Math.abs(depth.bids[0].quantity * depth.bids[0].price - 1200 * 100) < 1e-6, 'book sizes are converted from contracts to base coin');
+
+  const taker = await client.getTakerLongShortRatio({ symbol: 'BTCUSD_PERP', period: '15m', limit: 1 });
+  assert(taker[0].buySellRatio === 1.5 && taker[0].buyVolume === 120000, 'taker volume comes from takerBuySellVol');
+
+  const topRatio = await client.getTopLongShortPositionRatio({ symbol: 'BTCUSD_PERP', period: '15m', limit: 1 });
+  assert(topRatio[0].symbol === 'BTCUSD_PERP' && topRatio[0].longShare === 0.6, 'top trader ratio uses the position shares');
+
+  const universe = new SymbolUniverse(client, { quoteAsset: 'USD' });
+  await universe.refresh();
+  assert(universe.isTradable('BTCUSD_PERP') && !universe.isTradable('BTCUSD_240329'), 'contractStatus is read as status and quarterlies are skipped');
+  assert(universe.getSymbolInfo('BTCUSD_PERP')?.contractSize === 100, 'contract size is kept in the symbol info');
+  assert(transport.requests.filter(r => r.url.includes('exchangeInfo')).length === 2, 'contract specs are fetched once and reused across conversions');
+}
+
+async function testCoinMarginedContractRefresh() {
+  console.log('\nBinance COIN-M contract specs');
+  // ETHUSD_PERP is listed after the first exchangeInfo load; XRPUSD_PERP never appears in it
+  const exchangeInfo = fixture('binance-coinm', 'exchangeInfo');
+  const [btc] = fixture('binance-coinm', 'ticker-24hr');
+  const listed = { ...exchangeInfo.symbols[0], symbol: 'ETHUSD_PERP', pair: 'ETHUSD', contractSize: 10 };
+  let exchangeInfoCalls = 0;
+  const transport = new InMemoryTransport()
+    .on('GET', '/dapi/v1/exchangeInfo', () => {
+      exchangeInfoCalls++;
+      return { body: exchangeInfoCalls === 1 ? exchangeInfo : { ...exchangeInfo, symbols: [...exchangeInfo.symbols, listed] } };
+    })
+    .on('GET', '/dapi/v1/ticker/24hr', {
+      body: [btc, { ...btc, symbol: 'ETHUSD_PERP', volume: '2000' }, { ...btc, symbol: 'XRPUSD_PERP' }]
+    });
+  const client = new BinanceClient({ market: 'coinm', transport });
+
+  await client.getExchangeInfo();
+  const tickers = await client.getAll24hrTickers();
+  assert(exchangeInfoCalls === 2 && tickers.find(t => t.symbol === 'ETHUSD_PERP')?.quoteVolume === 2000 * 10,
+    'a contract listed after the last load refreshes the specs');
+  assert(tickers.length === 2 && !tickers.some(t => t.symbol === 'XRPUSD_PERP'), 'tickers still unknown are skipped instead of failing the batch');
+
+  const expiring = new BinanceClient({ market: 'coinm', transport, contractSpecTtlMs: 0 });
+  await expiring.getAll24hrTickers();
+  await expiring.getAll24hrTickers();
+  assert(exchangeInfoCalls === 4, 'expired specs are reloaded');
+}
+
+async function testBybit() {
+  console.log('\nBybit adapter');
+  const client = new BybitClient({ transport: createBybitTransport() });
+
+  const tickers = await client.getAll24hrTickers();
+  const btc = tickers.find(t => t.symbol === 'BTCUSDT');
+  assert(tickers.length === 2 && btc?.price === 37120.5, 'tickers are normalised to PriceData');
+  assert(Math.abs((btc?.priceChangePercent ?? 0) - 5.0085) < 1e-9, '24h change fraction is converted to percent');
+
+  const klines = await client.getKlines('BTCUSDT', '15m', 5);
+  assert(klines.length === 5 && klines[0].date < klines[4].date, 'klines are returned oldest first');
+  assert(klines[4].close === 37025 && klines[4].quoteVolume === 1200 * 37000, 'kline rows keep price, volume and turnover');
+
+  const openInterest = await client.getOpenInterestStatistics({ symbol: 'BTCUSDT', period: '15m', limit: 3 });
+  assert(openInterest[2].sumOpenInterest === '52143.28100000', 'open interest is returned oldest first in base coin');
+  assert(Math.abs(parseFloat(openInterest[2].sumOpenInterestValue) - 52143.281 * 37122.8) < 1e-3, 'open interest is valued at the mark price');
+
+  // No 2h bucket: hourly points are fetched and every second one kept
+  const hourly = Array.from({ length: 6 }, (_, i) => ({ openInterest: String(50000 + i), timestamp: String(1700000000000 - i * 3600000) }));
+  const bucketTransport = new InMemoryTransport()
+    .on('GET', '/v5/market/open-interest', { body: { retCode: 0, retMsg: 'OK', result: { symbol: 'BTCUSDT', list: hourly } } })
+    .on('GET', '/v5/market/tickers', { body: fixture('bybit', 'tickers') });
+  const twoHourly = await new BybitClient({ transport: bucketTransport })
+    .getOpenInterestStatistics({ symbol: 'BTCUSDT', period: '2h', limit: 3 });
+  const bucketRequest = new URL(bucketTransport.requests[0].url).searchParams;
+  assert(bucketRequest.get('intervalTime') === '1h' && bucketRequest.get('limit') === '6',
+    'periods without a Bybit bucket request proportionally more shorter buckets');
+  assert(JSON.stringify(twoHourly.map(item => item.sumOpenInterest)) === '["50004","50002","50000"]'
+    && twoHourly[2].timestamp - twoHourly[1].timestamp === 2 * 3600000, 'the points are spaced by the requested period');
+
+  const premiumIndex = await client.getPremiumIndex('BTCUSDT');
+  assert(premiumIndex.fundingRate === 0.00012 && premiumIndex.indexPrice === 37135.12, 'mark/index price and funding come from the ticker');
+
+  const funding = await client.getFundingRateHistory({ symbol: 'BTCUSDT', limit: 3 });
+  assert(funding.length === 3 && funding[2].fundingRate === 0.0001, 'funding history is returned oldest first');
+
+  const depth = await client.getDepth('BTCUSDT', 50);
+  assert(depth.bids[0].price === 37120.4 && depth.asks[2].quantity === 8.75, 'order book levels are parsed');
+
+  const info = await client.getExchangeInfo();
+  const perpetual = info.symbols.find(s => s.symbol === 'BTCUSDT');
+  assert(perpetual?.contractType === 'PERPETUAL' && perpetual.status === 'TRADING', 'instrument type and status use the Binance vocabulary');
+  assert(perpetual?.tickSize === 0.1 && perpetual.stepSize === 0.001 && perpetual.minNotional === 5, 'tick size, step size and min notional are parsed');
+  assert(info.symbols.find(s => s.symbol === 'BTC-29DEC23')?.contractType === 'DELIVERY', 'dated futures are not perpetual');
+
+  let apiError: Error | null = null;
+  const failing = new BybitClient({
+    transport: new InMemoryTransport().on('GET', '/v5/market/tickers', { body: { retCode: 10001, retMsg: 'params error', result: {} } })
+  });
+  try {
+    await failing.getAll24hrTickers();
+  } catch (error) {
+    apiError = error as Error;
+  }
+  assert(apiError?.message.includes('10001') === true, 'non-zero retCode is raised as an error');
+}
+
+async function testOkx() {
+  console.log('\nOKX adapter');
+  const client = new OkxClient({ transport: createOkxTransport() });
+
+  const tickers = await client.getAll24hrTickers();
+  assert(tickers.length === 1 && tickers[0].symbol === 'BTCUSDT', 'only USDT swaps are returned, with Binance symbols');
+  assert(Math.abs(tickers[0].priceChangePercent - ((37118.9 - 35402.1) / 35402.1) * 100) < 1e-9, '24h change is derived from open24h');
+
+  const ticker = await client.get24hrTicker('BTCUSDT');
+  assert(ticker.quoteVolume === 98541.32 * 37118.9, 'quote volume is derived from base volume');
+
+  const klines = await client.getKlines('BTCUSDT', '15m', 4);
+  assert(klines.length === 4 && klines[0].date < klines[3].date, 'candles are returned oldest first');
+  assert(klines[3].volume === 1200 && klines[3].open === 37000, 'candle volume is in base asset');
+
+  const openInterest = await client.getOpenInterestStatistics({ symbol: 'BTCUSDT', period: '15m', limit: 3 });
+  assert(openInterest[2].sumOpenInterest === '52143.281' && openInterest[2].sumOpenInterestValue === '1935640012.4',
+    'open interest history uses base coin and USD value');
+
+  const premiumIndex = await client.getPremiumIndex('BTCUSDT');
+  assert(premiumIndex.markPrice === 37121.4 && premiumIndex.indexPrice === 37130.2 && premiumIndex.fundingRate === 0.000115,
+    'premium index combines mark price, index price and funding rate');
+
+  const funding = await client.getFundingRateHistory({ symbol: 'BTCUSDT', limit: 2 });
+  assert(funding[1].fundingRate === 0.0000998, 'funding history uses the realized rate, oldest first');
+
+  const depth = await client.getDepth('BTCUSDT', 50);
+  assert(Math.abs(depth.asks[0].quantity - 1.2) < 1e-9, 'book sizes are converted from contracts with ctVal');
+
+  const info = await client.getExchangeInfo();
+  const btc = info.symbols.find(s => s.symbol === 'BTCUSDT');
+  assert(info.symbols.length === 1 && btc?.status === 'TRADING', 'inverse swaps are excluded and state maps to TRADING');
+  assert(btc?.stepSize === 0.01 && btc.tickSize === 0.1, 'lot size is expressed in base asset');
+}
+
+async function testCrossVenue() {
+  console.log('\nCross-venue comparison');
+  const comparison = await compareAcrossVenues('BTCUSDT', [
+    new BybitClient({ transport: createBybitTransport() }),
+    new OkxClient({ transport: createOkxTransport() })
+  ]);
+
+  assert(comparison.quotes.length === 2 && comparison.failed.length === 0, 'both venues are quoted');
+  assert(Math.abs(comparison.priceSpreadBps - ((37120.5 - 37118.9) / 37118.9) * 10000) < 0.01, 'price spread is measured in bps');
+  assert(comparison.volumeLeader === 'bybit', 'volume leader is the venue with the largest quote volume');
+}
+
+async function testExchangeAdapters() {
+  console.log('🧪 Testing exchange adapters against recorded payloads...\n');
+
+  try {
+    await testBinanceCoinMargined();
+    await testCoinMarginedContractRefresh();
+    await testBybit();
+    await testOkx();
+    await testCrossVenue();
+    console.log('\n✅ All exchange adapter tests completed!');
+  } catch (error) {
+    console.error('❌ Exchange adapter test failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+if (require.main === module) {
+  testExchangeAdapters();
+}
@@ -0,0 +1,44 @@
+// src/test/helpers.ts
+import { Kline } from '../binance/types';
+
+// Generated candles are 15m apart from START_TIME
+export const START_TIME = 1700000000000;
+export const INTERVAL_MS = 15 * 60 * 1000;
+
+export function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+  console.log(`  ✓ ${message}`);
+}
+
+/**
+ * A candle with open, high, low and close all at one price
+ */
+export function makeKline(date: number, close: number): Kline {
+  return { date, open: close, high: close, low: close, close, volume: 1 };
+}
+
+export interface KlineShape {
+  body?: number;                      // close - open, default 0.5
+  range?: number;                     // high - close and close - low, default 1
+  volume?: (index: number) => number; // Default 1000
+}
+
+/**
+ * `count` consecutive candles from START_TIME with the given closes
+ */
+export function makeKlineSeries(count: number, closeAt: (index: number) => number, shape: KlineShape = {}): Kline[] {
+  const { body = 0.5, range = 1, volume = () => 1000 } = shape;
+  return Array.from({ length: count }, (_, i) => {
+    const close = closeAt(i);
+    return {
+      date: START_TIME + i * INTERVAL_MS,
+      open: close - body,
+      high: close + range,
+      low: close - range,
+      close,
+      volume: volume(i)
+    };
+  });
+}
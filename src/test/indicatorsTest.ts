@@ -0,0 +1,682 @@
+// src/test/indicatorsTest.ts
+import { Kline, FundingRateData, MarkPriceData, LongShortRatioData, TakerVolumeData, OrderBookDepth } from '../binance/types';
+import { IndicatorCalculator } from '../indicators/indicatorCalculator';
+import { BasicIndicators } from '../indicators/basicIndicators';
+import { Oscillators } from '../indicators/oscillators';
+import { VolumeAnalyzer } from '../indicators/volume';
+import { MACDCalculator, MACDResult } from '../indicators/macd';
+import { DivergenceDetector } from '../indicators/divergence';
+import { TrendIndicators } from '../indicators/trend';
+import { CandlestickPatterns } from '../indicators/candlestickPatterns';
+import { FundingAnalyzer } from '../indicators/funding';
+import { PositioningAnalyzer } from '../indicators/positioning';
+import { OrderBookAnalyzer } from '../indicators/orderBook';
+import { SupportResistanceAnalyzer } from '../indicators/supportResistance';
+import { createDefaultIndicatorRegistry, CORE_INDICATOR_IDS } from '../indicators/builtinIndicators';
+import { DEFAULT_INDICATOR_SETTINGS } from '../indicators/indicatorSettings';
+import { IndicatorDefinition } from '../indicators/registry';
+import { CSVExporter } from '../storage/csvExporter';
+import { assert, INTERVAL_MS, makeKlineSeries } from './helpers';
+
+// Rising closes with a sine wiggle
+function makeKlines(count: number, start: number = 100, step: number = 0.5): Kline[] {
+  return makeKlineSeries(count, i => start + step * i + Math.sin(i) * 2, { volume: i => 1000 + (i % 5) * 100 });
+}
+
+// Average funding over the window: a custom indicator using the 'funding' input
+const fundingBiasIndicator: IndicatorDefinition<{ periods: number }, { averageFundingRate: number; bias: string }> = {
+  id: 'fundingBias',
+  name: 'Funding Bias',
+  inputs: ['funding'],
+  outputs: [
+    { key: 'averageFundingRate', label: 'Avg Funding Rate', format: 'number', digits: 6 },
+    { key: 'bias', label: 'Funding Bias', format: 'text' }
+  ],
+  defaultParams: () => ({ periods: 3 }),
+  validate: params => (params.periods > 0 ? [] : ['periods must be positive']),
+  warmup: () => 0,
+  calculate: ({ fundingHistory }, params) => {
+    const recent = (fundingHistory || []).slice(-params.periods);
+    const averageFundingRate = recent.reduce((sum, item) => sum + item.fundingRate, 0) / recent.length;
+    return { averageFundingRate, bias: averageFundingRate > 0 ? 'LONGS_PAY' : 'SHORTS_PAY' };
+  },
+  score: output => (output.bias === 'LONGS_PAY'
+    ? { bullish: 0, bearish: 0.5, detail: '多头付费(-0.5)' }
+    : { bullish: 0.5, bearish: 0, detail: '空头付费(+0.5)' })
+};
+
+function testRegistry() {
+  console.log('Test 1: Built-in registry');
+  const klines = makeKlines(80);
+  const indicators = IndicatorCalculator.calculateAllIndicators(klines);
+
+  assert(JSON.stringify(indicators.results?.map(r => r.id)) === JSON.stringify(CORE_INDICATOR_IDS.filter(id => id !== 'takerPressure')),
+    'core indicators run in registration order; taker pressure is skipped without taker volume');
+  assert(indicators.macd === indicators.results?.find(r => r.id === 'macd')?.value, 'typed fields are read from the registry results');
+  assert(indicators.results?.every(r => r.warmedUp) === true, 'results are warmed up with enough candles');
+
+  const short = IndicatorCalculator.calculateAllIndicators(makeKlines(30));
+  const ma = short.results?.find(r => r.id === 'ma');
+  assert(ma?.warmup === 50 && ma.warmedUp === false, 'results carry their warm-up length and flag short history');
+
+  const selected = IndicatorCalculator.calculateAllIndicators(klines, DEFAULT_INDICATOR_SETTINGS, {
+    indicators: ['rsi', 'macd'],
+    indicatorParams: { rsi: { period: 7 } }
+  });
+  assert(selected.results?.length === 2 && selected.ma === undefined, 'only the configured indicators run');
+  assert(selected.results?.[0].params.period === 7, 'parameter overrides are applied and recorded');
+
+  const streamedRsi = { rsi: 42 };
+  const precomputed = IndicatorCalculator.calculateAllIndicators(klines, DEFAULT_INDICATOR_SETTINGS, { precomputed: { rsi: streamedRsi } });
+  assert(precomputed.rsi === 42 && precomputed.results?.find(r => r.id === 'rsi')?.value === streamedRsi
+    && precomputed.results?.find(r => r.id === 'rsi')?.warmedUp === true, 'precomputed values replace the calculation in the results');
+  assert(JSON.stringify(precomputed.macd) === JSON.stringify(indicators.macd), 'indicators without a precomputed value are calculated');
+}
+
+function testCustomIndicator() {
+  console.log('\nTest 2: Custom indicator');
+  const registry = createDefaultIndicatorRegistry().register(fundingBiasIndicator);
+  const klines = makeKlines(60);
+  const fundingHistory: FundingRateData[] = [0.0001, 0.0003, 0.0002].map((fundingRate, i) => ({
+    symbol: 'TESTUSDT', fundingRate, fundingTime: 1700000000000 + i * 8 * 3600000
+  }));
+
+  const withoutFunding = IndicatorCalculator.calculateAllIndicators(klines, DEFAULT_INDICATOR_SETTINGS, { registry });
+  assert(!withoutFunding.results?.some(r => r.id === 'fundingBias'), 'indicators are skipped when their inputs are missing');
+
+  const withFunding = IndicatorCalculator.calculateAllIndicators(klines, DEFAULT_INDICATOR_SETTINGS, { registry, fundingHistory });
+  const bias = withFunding.results?.find(r => r.id === 'fundingBias');
+  assert(Math.abs(bias?.value.averageFundingRate - 0.0002) < 1e-12 && bias?.value.bias === 'LONGS_PAY', 'custom indicator gets the funding input');
+
+  // Funding settled part-way through the last candle belongs to that candle's point
+  const lastOpen = klines[klines.length - 1].date;
+  const midBarFunding: FundingRateData[] = [
+    { symbol: 'TESTUSDT', fundingRate: 0.0001, fundingTime: klines[0].date },
+    { symbol: 'TESTUSDT', fundingRate: -0.0005, fundingTime: lastOpen + 5 * 60 * 1000 }
+  ];
+  const withSeries = IndicatorCalculator.calculateAllIndicators(klines, DEFAULT_INDICATOR_SETTINGS, { registry, fundingHistory: midBarFunding, series: true });
+  const biasSeries = IndicatorCalculator.getSeries<{ averageFundingRate: number }>(withSeries, 'fundingBias') || [];
+  const lastBias = withSeries.results?.find(r => r.id === 'fundingBias')?.value;
+  assert(JSON.stringify(biasSeries[biasSeries.length - 1].value) === JSON.stringify(lastBias)
+    && biasSeries[biasSeries.length - 2].value?.averageFundingRate === 0.0001, 'series points include funding recorded before the candle closes');
+
+  const csv = CSVExporter.toCsvString([{
+    symbol: 'TESTUSDT',
+    currentPrice: withFunding.currentPrice,
+    volume24h: 1000000,
+    priceChangePercent24h: 6,
+    technicalIndicators: withFunding,
+    timestamp: 1700000000000
+  }]);
+  const [header, row] = csv.split('\n');
+  const columns = header.split(',');
+  assert(columns.includes('Avg Funding Rate') && columns.includes('Funding Bias'), 'custom outputs become CSV columns');
+  assert(row.split(',')[columns.indexOf('Avg Funding Rate')] === '0.000200', 'custom values use the declared format');
+
+  let duplicateError: Error | null = null;
+  try {
+    registry.register(fundingBiasIndicator);
+  } catch (error) {
+    duplicateError = error as Error;
+  }
+  assert(duplicateError !== null, 'ids must be unique');
+
+  let selectionError: Error | null = null;
+  try {
+    registry.resolve(DEFAULT_INDICATOR_SETTINGS, {
+      indicators: ['macd', 'unknown'],
+      indicatorParams: { macd: { fastPeriod: 40 }, fundingBias: { periods: 2 } }
+    });
+  } catch (error) {
+    selectionError = error as Error;
+  }
+  const message = selectionError?.message || '';
+  assert(message.includes('unknown indicator "unknown"') && message.includes('macd: fastPeriod must be shorter than slowPeriod')
+    && message.includes('"fundingBias" which is not selected'), 'selection problems are reported together');
+}
+
+function testVolatility() {
+  console.log('\nTest 3: Volatility suite');
+  // Flat closes inside a fixed 2-point range: ATR is exactly the range
+  const flat: Kline[] = Array.from({ length: 40 }, (_, i) => ({
+    date: 1700000000000 + i * INTERVAL_MS, open: 100, high: 101, low: 99, close: 100, volume: 1000
+  }));
+  const flatResult = IndicatorCalculator.calculateAllIndicators(flat).volatility;
+  assert(flatResult?.atr === 2 && flatResult.atrPercent === 2, 'ATR equals the constant true range');
+  assert(flatResult?.keltnerUpper === 104 && flatResult.keltnerLower === 96, 'Keltner channel is EMA ± 2 ATR');
+  assert(flatResult?.donchianUpper === 101 && flatResult.donchianLower === 99, 'Donchian channel spans the highest high and lowest low');
+  assert(flatResult?.historicalVolatility === 0 && flatResult.squeeze === false, 'no realized volatility and no squeeze without band width');
+
+  // Closes barely move while candles keep a wide range: Bollinger Bands sit inside Keltner
+  const quiet = flat.map((k, i) => ({ ...k, close: 100 + (i % 2 === 0 ? 0.05 : -0.05) }));
+  const quietResult = IndicatorCalculator.calculateAllIndicators(quiet).volatility;
+  assert(quietResult?.squeeze === true, 'squeeze is detected when Bollinger Bands fit inside Keltner');
+
+  const trending = makeKlines(60);
+  const trendingCloses = trending.map(k => k.close);
+  const keltnerEma = MACDCalculator.calculateEMA(trendingCloses, 20);
+  const trendingResult = IndicatorCalculator.calculateAllIndicators(trending).volatility;
+  assert(trendingResult?.keltnerMiddle === Number(keltnerEma[keltnerEma.length - 1].toFixed(8)),
+    'the Keltner middle line is the SMA-seeded EMA used by MACD');
+  const early = BasicIndicators.calculateVolatility(quiet.slice(0, 10).map(k => k.high), quiet.slice(0, 10).map(k => k.low),
+    quiet.slice(0, 10).map(k => k.close), INTERVAL_MS);
+  assert(early.keltnerMiddle === 100 && early.squeeze === false, 'before the EMA is seeded the channel uses the average close and reports no squeeze');
+
+  const window = quiet.slice(-21).map(k => k.close);
+  const returns = window.slice(1).map((close, i) => Math.log(close / window[i]));
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const stdev = Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1));
+  const annualized = stdev * Math.sqrt(365 * 24 * 4) * 100;
+  assert(Math.abs((quietResult?.historicalVolatility ?? 0) - annualized) < 0.01, 'historical volatility is annualized from the candle interval');
+  const parkinson = BasicIndicators.calculateParkinsonVolatility([101], [99], 1);
+  assert(Math.abs(parkinson - Math.log(101 / 99) / Math.sqrt(4 * Math.LN2)) < 1e-12, 'Parkinson volatility uses the log high-low range');
+
+  const csv = CSVExporter.toCsvString([{
+    symbol: 'TESTUSDT',
+    currentPrice: 100,
+    volume24h: 1000000,
+    priceChangePercent24h: 0,
+    technicalIndicators: IndicatorCalculator.calculateAllIndicators(quiet),
+    timestamp: 1700000000000
+  }]);
+  const [header, row] = csv.split('\n');
+  const columns = header.split(',');
+  assert(columns.includes('ATR') && row.split(',')[columns.indexOf('Squeeze')] === 'YES', 'volatility outputs are exported with flags as YES / NO');
+}
+
+function makeTrend(count: number, step: number): Kline[] {
+  return makeKlineSeries(count, i => 200 + step * i, { body: step, range: 0.5 });
+}
+
+function testTrendStrength() {
+  console.log('\nTest 4: Trend strength');
+  const up = IndicatorCalculator.calculateAllIndicators(makeTrend(90, 1));
+  assert((up.adx?.plusDI ?? 0) > 0 && up.adx?.minusDI === 0 && up.adx.adx === 100, 'a straight rally has only +DM and maximal ADX');
+  assert(up.adx?.trendState === 'STRONG_UPTREND', 'ADX classifies a strong uptrend');
+  assert(up.superTrend?.direction === 'UP' && up.superTrend.value < up.currentPrice && !up.superTrend.flipped, 'SuperTrend trails below price in an uptrend');
+  assert(up.ichimoku?.pricePosition === 'ABOVE_CLOUD' && up.ichimoku.trendState === 'STRONG_UPTREND', 'Ichimoku confirms price above a rising cloud');
+  assert(up.parabolicSar?.direction === 'UP' && up.parabolicSar.accelerationFactor === 0.2, 'Parabolic SAR accelerates to its maximum step');
+
+  const down = IndicatorCalculator.calculateAllIndicators(makeTrend(90, -1));
+  assert(down.adx?.trendState === 'STRONG_DOWNTREND' && down.superTrend?.trendState === 'DOWNTREND'
+    && down.ichimoku?.trendState === 'STRONG_DOWNTREND' && down.parabolicSar?.trendState === 'DOWNTREND', 'a decline is classified as a downtrend by every indicator');
+  const decline = makeTrend(90, -1);
+  const sarSeries = TrendIndicators.calculateParabolicSARSeries(decline.map(k => k.high), decline.map(k => k.low), decline.map(k => k.close));
+  assert(sarSeries[0].direction === 'DOWN' && sarSeries[0].sar === decline[0].high && sarSeries.every(point => !point.flipped),
+    'a decline starts the Parabolic SAR series downwards above the first high, without a flip');
+
+  // Candles oscillating around 100, closing on the midpoint: no directional movement dominates
+  const chop: Kline[] = Array.from({ length: 90 }, (_, i) => {
+    const close = i === 89 ? 100 : 100 + (i % 2 === 0 ? 1 : -1);
+    return { date: 1700000000000 + i * INTERVAL_MS, open: 100, high: close + 1, low: close - 1, close, volume: 1000 };
+  });
+  const ranging = IndicatorCalculator.calculateAllIndicators(chop);
+  assert(ranging.adx?.trendState === 'RANGING' && ranging.adx.adx < 20, 'ADX reports chop as ranging');
+  assert(ranging.ichimoku?.pricePosition === 'IN_CLOUD' && ranging.ichimoku.trendState === 'RANGING', 'price inside the cloud is ranging');
+
+  // A rally ending in a sharp drop reverses the trailing indicators on the last candle
+  const reversal = makeTrend(60, 1);
+  const last = reversal[reversal.length - 1];
+  reversal.push({ ...last, date: last.date + INTERVAL_MS, open: last.close, high: last.close, low: last.close - 30, close: last.close - 29 });
+  const reversed = IndicatorCalculator.calculateAllIndicators(reversal);
+  assert(reversed.parabolicSar?.direction === 'DOWN' && reversed.parabolicSar.flipped, 'Parabolic SAR flips when price crosses it');
+  assert(reversed.superTrend?.direction === 'DOWN' && reversed.superTrend.flipped && reversed.superTrend.barsInTrend === 1, 'SuperTrend flips when price closes through the lower band');
+
+  let paramsError: Error | null = null;
+  try {
+    createDefaultIndicatorRegistry().resolve(DEFAULT_INDICATOR_SETTINGS, {
+      indicatorParams: { ichimoku: { tenkanPeriod: 30 }, parabolicSar: { step: 0.5 } }
+    });
+  } catch (error) {
+    paramsError = error as Error;
+  }
+  assert(paramsError?.message.includes('ichimoku: periods must increase') === true
+    && paramsError.message.includes('parabolicSar: step must be positive'), 'trend indicator parameters are validated');
+}
+
+function testOscillators() {
+  console.log('\nTest 5: Oscillators');
+  // Closes 0.5 below the high of a steady rally
+  const rally = IndicatorCalculator.calculateAllIndicators(makeTrend(60, 1));
+  assert(rally.stochastic?.k === 96.43 && rally.stochastic.state === 'OVERBOUGHT', 'Stochastic %K locates the close in the 14-candle range');
+  assert(rally.williamsR?.value === -3.57 && rally.williamsR.state === 'OVERBOUGHT', 'Williams %R mirrors %K below zero');
+  assert(rally.mfi?.value === 100 && rally.mfi.state === 'OVERBOUGHT', 'MFI is 100 when money only flows in');
+  assert(rally.cci?.state === 'OVERBOUGHT' && rally.cci.value > 100, 'CCI is above +100 at the top of a rally');
+  assert(rally.stochRsi?.k === 50 && rally.stochRsi.state === 'NEUTRAL', 'StochRSI is neutral while RSI is pinned');
+
+  const decline = IndicatorCalculator.calculateAllIndicators(makeTrend(60, -1));
+  assert([decline.stochastic, decline.williamsR, decline.cci, decline.mfi].every(o => o?.state === 'OVERSOLD'), 'a decline is oversold on price and money-flow oscillators');
+
+  // Typical prices 10, 11, 10.5 with volumes 1, 2, 4: +22 inflow, -42 outflow
+  const mfi = Oscillators.calculateMFI([10, 11, 10.5], [10, 11, 10.5], [10, 11, 10.5], [1, 2, 4], 2);
+  assert(mfi.value === Number((100 - 100 / (1 + 22 / 42)).toFixed(2)), 'MFI weights typical price changes by volume');
+
+  // CCI of typical prices 1..4 (period 4): mean 2.5, mean deviation 1
+  const cci = Oscillators.calculateCCI([1, 2, 3, 4], [1, 2, 3, 4], [1, 2, 3, 4], 4);
+  assert(cci.value === 100 && cci.state === 'OVERBOUGHT', 'CCI divides by 0.015 times the mean deviation');
+
+  const rsiSeries = Oscillators.calculateRSISeries(makeKlines(80).map(k => k.close), 14);
+  const rsi = BasicIndicators.calculateRSI(makeKlines(80).map(k => k.close), 14);
+  assert(Math.abs(rsiSeries[rsiSeries.length - 1] - rsi) < 0.01, 'the RSI series behind StochRSI ends at the reported RSI');
+
+  const csv = CSVExporter.toCsvString([{
+    symbol: 'TESTUSDT',
+    currentPrice: rally.currentPrice,
+    volume24h: 1000000,
+    priceChangePercent24h: 0,
+    technicalIndicators: rally,
+    timestamp: 1700000000000
+  }]);
+  const [header, row] = csv.split('\n');
+  const columns = header.split(',');
+  assert(['Stoch %K', 'StochRSI %K', 'Williams %R', 'CCI', 'MFI'].every(column => columns.includes(column))
+    && row.split(',')[columns.indexOf('MFI State')] === 'OVERBOUGHT', 'oscillator values and states are exported');
+}
+
+function testVolumeFlow() {
+  console.log('\nTest 6: Volume and money flow');
+  const obv = VolumeAnalyzer.calculateOBV([1, 2, 1, 3], [10, 20, 30, 40], 4);
+  assert(obv.obv === 30, 'OBV adds volume on up closes and subtracts it on down closes');
+
+  // Closes at the high: all volume is money flow in
+  const highs = [11, 12, 13];
+  const lows = [9, 10, 11];
+  const ad = VolumeAnalyzer.calculateAccumulationDistribution(highs, lows, highs, [5, 10, 15], 3);
+  const cmf = VolumeAnalyzer.calculateChaikinMoneyFlow(highs, lows, highs, [5, 10, 15], 3);
+  assert(ad.adLine === 30 && ad.trend === 'RISING', 'A/D line accumulates volume weighted by the close location');
+  assert(cmf.cmf === 1 && cmf.state === 'ACCUMULATION', 'CMF is 1 when every candle closes at its high');
+
+  // Yesterday's candle is excluded; today: typical price 10 x 1 and 20 x 3
+  const day = 24 * 60 * 60 * 1000;
+  const session = 1700000000000 - (1700000000000 % day);
+  const vwap = VolumeAnalyzer.calculateSessionVWAP([50, 10, 20], [50, 10, 20], [50, 10, 20], [100, 1, 3], [session - INTERVAL_MS, session, session + INTERVAL_MS]);
+  assert(vwap.vwap === 17.5 && vwap.candles === 2 && vwap.anchorTime === session, 'session VWAP starts at 00:00 UTC');
+  assert(Math.abs(vwap.standardDeviation - Math.sqrt(18.75)) < 1e-8 && vwap.upper2 === Number((17.5 + 2 * Math.sqrt(18.75)).toFixed(8)),
+    'VWAP bands use the volume-weighted standard deviation');
+  const anchored = VolumeAnalyzer.calculateVWAP([50, 10, 20], [50, 10, 20], [50, 10, 20], [100, 1, 3], [session - INTERVAL_MS, session, session + INTERVAL_MS]);
+  assert(anchored.candles === 3 && anchored.vwap === Number(((5000 + 10 + 60) / 104).toFixed(8)), 'anchored VWAP defaults to the first candle');
+
+  // Same candles with 1000x the volume: normalized trends are unchanged
+  const klines = makeKlines(60).map((k, i) => ({ ...k, volume: 1000 + i * 20 }));
+  const small = IndicatorCalculator.calculateAllIndicators(klines);
+  const large = IndicatorCalculator.calculateAllIndicators(klines.map(k => ({ ...k, volume: k.volume * 1000 })));
+  assert(Math.abs((small.volume?.volumeTrend ?? 0) - (large.volume?.volumeTrend ?? 1)) < 1e-12 && (small.volume?.volumeTrend ?? 0) > 0.01,
+    'volume trend is a fraction of the average volume');
+  assert(small.obv?.slope === large.obv?.slope && small.accumulationDistribution?.slope === large.accumulationDistribution?.slope,
+    'OBV and A/D slopes compare across symbols with different volumes');
+  assert(small.vwap !== undefined && small.anchoredVwap?.candles === 60 && small.cmf !== undefined, 'volume indicators are typed fields');
+}
+
+function testSeries() {
+  console.log('\nTest 7: Indicator series');
+  const klines = makeKlines(80);
+  const indicators = IndicatorCalculator.calculateAllIndicators(klines, DEFAULT_INDICATOR_SETTINGS, { series: true });
+  assert(indicators.results?.every(result => result.series?.length === klines.length
+    && result.series.every((point, i) => point.time === klines[i].date)) === true, 'every result has one point per kline, timed by its open time');
+  assert(IndicatorCalculator.calculateAllIndicators(klines).results?.every(result => result.series === undefined) === true,
+    'series are only calculated on request');
+
+  const macd = IndicatorCalculator.getSeries<MACDResult>(indicators, 'macd') || [];
+  assert(macd.slice(0, 33).every(point => point.value === null) && macd[33].value !== null, 'MACD is masked until slow + signal - 1 candles');
+  assert(JSON.stringify(macd[macd.length - 1].value) === JSON.stringify(indicators.macd), 'the last MACD point is the reported value');
+
+  const atBar = IndicatorCalculator.calculateAllIndicators(klines.slice(0, 60));
+  const ma = IndicatorCalculator.getSeries(indicators, 'ma') || [];
+  const bands = IndicatorCalculator.getSeries(indicators, 'bollingerBands') || [];
+  assert(JSON.stringify(ma[59].value) === JSON.stringify(atBar.ma) && JSON.stringify(bands[59].value) === JSON.stringify(atBar.bollingerBands),
+    'each point matches the indicator calculated with the klines up to that bar');
+  assert(ma[48].value === null && ma[49].value !== null, 'moving averages are masked until the trend period is filled');
+  const rsi = IndicatorCalculator.getSeries<{ rsi: number }>(indicators, 'rsi') || [];
+  assert(rsi[14].value !== null && Math.abs((rsi[59].value?.rsi ?? 0) - (atBar.rsi ?? 0)) < 0.02, 'the RSI series matches the RSI at each bar');
+
+  // Two UTC sessions, taker volume and an anchor part-way through, so every built-in runs on its own series
+  const long = makeKlines(200).map((kline, i) => ({ ...kline, takerBuyBaseVolume: kline.volume * (0.3 + (i % 4) * 0.1) }));
+  const builtins = createDefaultIndicatorRegistry()
+    .resolve(DEFAULT_INDICATOR_SETTINGS, { indicatorParams: { anchoredVwap: { anchorTime: long[150].date } } });
+  assert(builtins.every(({ definition }) => definition.calculateSeries !== undefined), 'every built-in calculates its series in one pass');
+  const mismatched = builtins
+    .filter(({ definition, params }) => {
+      const series = definition.calculateSeries?.({ klines: long }, params) || [];
+      return long.some((_, i) => JSON.stringify(series[i]) !== JSON.stringify(definition.calculate({ klines: long.slice(0, i + 1) }, params)));
+    })
+    .map(({ definition }) => definition.id);
+  assert(mismatched.length === 0, `built-in series equal the indicator calculated on each prefix${mismatched.length > 0 ? ` (not ${mismatched.join(', ')})` : ''}`);
+
+  // EMA seeded with the average of the first period instead of the first value
+  const ema = MACDCalculator.calculateEMA([1, 2, 3, 4, 5], 3);
+  assert(Number.isNaN(ema[1]) && ema[2] === 2 && ema[4] === 4, 'EMA is seeded with a simple average after a full period');
+  assert(MACDCalculator.calculate([1, 2, 3], 2, 3, 2).every(result => result === null), 'MACD has no value before the warm-up');
+
+  // Fifteen rising closes, then a decline: the early zero average loss no longer pins RSI at 100
+  const prices = [...Array.from({ length: 15 }, (_, i) => 100 + i), ...Array.from({ length: 10 }, (_, i) => 113 - i * 2)];
+  assert(BasicIndicators.calculateRSI(prices, 14) < 70, 'RSI keeps smoothing after a loss-free first period');
+}
+
+/**
+ * Price columns from a path of highs; lows are 2 below, closes 1 below
+ */
+function pricePath(highs: number[]) {
+  return {
+    highs,
+    lows: highs.map(high => high - 2),
+    closes: highs.map(high => high - 1),
+    volumes: highs.map(() => 100)
+  };
+}
+
+function testDivergence() {
+  console.log('\nTest 8: Swing points and divergence');
+
+  // Peaks at 3 (15) and 12 (16), trough at 8
+  const peaks = pricePath([10, 11, 12, 15, 12, 11, 10, 9, 8, 9, 10, 12, 16, 13, 11, 10, 11]);
+  const swings = DivergenceDetector.findSwingPoints(peaks.highs, peaks.lows, 3);
+  assert(swings.map(swing => `${swing.type}@${swing.index}`).join(',') === 'HIGH@3,LOW@8,HIGH@12',
+    'swing highs and lows need three lower / higher candles on each side');
+  assert(DivergenceDetector.findSwingPoints([1, 2, 3, 2, 9], [0, 1, 2, 1, 8], 2).length === 0,
+    'the latest candles are not swings until their right side is confirmed');
+
+  const values = peaks.highs.map(() => 50);
+  values[3] = 70;
+  values[12] = 60;
+  const [bearish] = DivergenceDetector.detect(peaks, values, 'RSI');
+  assert(bearish?.type === 'REGULAR_BEARISH' && bearish.bias === 'BEARISH' && bearish.barsAgo === 4,
+    'higher high in price with a lower indicator high is a regular bearish divergence');
+  assert(bearish.strength > 0 && bearish.strength <= 1, `strength is between 0 and 1 (${bearish.strength})`);
+
+  values[12] = 80;
+  assert(DivergenceDetector.detect(peaks, values, 'RSI').length === 0, 'an indicator confirming the new high is no divergence');
+
+  const lowerHigh = pricePath([10, 11, 12, 15, 12, 11, 10, 9, 8, 9, 10, 12, 14, 13, 11, 10, 11]);
+  assert(DivergenceDetector.detect(lowerHigh, values, 'MACD')[0]?.type === 'HIDDEN_BEARISH',
+    'lower high in price with a higher indicator high is a hidden bearish divergence');
+
+  // Troughs at 3 (13) and 12 (12), peak at 8
+  const troughs = pricePath([22, 21, 20, 15, 20, 21, 22, 23, 24, 23, 22, 20, 14, 19, 21, 22, 21]);
+  const lowValues = troughs.highs.map(() => 50);
+  lowValues[3] = 30;
+  lowValues[12] = 40;
+  assert(DivergenceDetector.detect(troughs, lowValues, 'OBV')[0]?.type === 'REGULAR_BULLISH',
+    'lower low in price with a higher indicator low is a regular bullish divergence');
+  lowValues[12] = 20;
+  troughs.highs[12] = 18;
+  troughs.lows[12] = 16;
+  assert(DivergenceDetector.detect(troughs, lowValues, 'OBV')[0]?.type === 'HIDDEN_BULLISH',
+    'higher low in price with a lower indicator low is a hidden bullish divergence');
+  assert(DivergenceDetector.detect(troughs, lowValues, 'OBV', { maxAge: 3 }).length === 0, 'swings older than maxAge are ignored');
+
+  const trending = pricePath(Array.from({ length: 120 }, (_, i) => 100 + i * 0.5));
+  assert(DivergenceDetector.findSwingPoints(trending.highs, trending.lows).length === 0
+    && DivergenceDetector.analyze(trending).length === 0, 'a steady trend without swings has no divergences');
+}
+
+function bar(open: number, high: number, low: number, close: number, i: number = 0): Kline {
+  return { date: 1700000000000 + i * INTERVAL_MS, open, high, low, close, volume: 1000 };
+}
+
+function patternNames(klines: Kline[]): string[] {
+  return CandlestickPatterns.detect(klines).map(pattern => `${pattern.pattern}@${pattern.index}`);
+}
+
+function testCandlestickPatterns() {
+  console.log('\nTest 9: Candlestick patterns');
+
+  const engulfing = patternNames([bar(10, 10.2, 8.9, 9, 0), bar(8.8, 10.6, 8.7, 10.5, 1)]);
+  assert(engulfing.includes('BULLISH_ENGULFING@1') && engulfing.includes('BULLISH_OUTSIDE_BAR@1'),
+    `a bullish body covering the previous bearish body is an engulfing outside bar (${engulfing.join(', ')})`);
+  assert(patternNames([bar(10, 12, 8, 11, 0), bar(10.5, 11.5, 9, 11, 1)]).includes('INSIDE_BAR@1'), 'a range inside the previous one is an inside bar');
+  assert(patternNames([bar(10, 11, 9, 10.05)]).includes('DOJI@0'), 'a body under 10% of the range is a doji');
+  assert(patternNames([bar(12, 12.1, 9.9, 10, 0), bar(9.8, 10, 9.6, 9.9, 1), bar(10, 11.6, 9.9, 11.5, 2)]).includes('MORNING_STAR@2'),
+    'long bearish, small, then bullish past the first midpoint is a morning star');
+  assert(patternNames([bar(10, 11.1, 9.9, 11, 0), bar(10.5, 12.1, 10.4, 12, 1), bar(11.5, 13.1, 11.4, 13, 2)]).includes('THREE_WHITE_SOLDIERS@2'),
+    'three rising bullish candles opening inside the previous body are three white soldiers');
+
+  // Flat range drifting lower for five candles, then a long lower wick through the lower band
+  const klines = Array.from({ length: 25 }, (_, i) => {
+    const close = i < 20 ? 100 + (i % 2) * 0.2 : 100 - (i - 19) * 0.2;
+    return bar(close + 0.1, close + 0.2, close - 0.1, close, i);
+  });
+  klines.push(bar(98.8, 99.05, 97.5, 99, 25));
+  const patterns = CandlestickPatterns.detect(klines).filter(pattern => pattern.index === 25);
+  const hammer = patterns.find(pattern => pattern.pattern === 'HAMMER');
+  assert(hammer?.bollinger === 'LOWER_BAND' && hammer.confirmed && hammer.barsAgo === 0,
+    'a hammer after a decline that tags the lower band is confirmed');
+  assert(patterns.some(pattern => pattern.pattern === 'BULLISH_PIN_BAR' && pattern.confirmed), 'its wick below the previous low is a bullish pin bar');
+  assert(!CandlestickPatterns.isConfirmed('BULLISH', 'REVERSAL', { bollinger: 'UPPER_BAND', movingAverage: 'ABOVE' }),
+    'a bullish reversal at the upper band is not confirmed');
+  assert(CandlestickPatterns.isConfirmed('BEARISH', 'CONTINUATION', { bollinger: 'INSIDE_BANDS', movingAverage: 'BELOW' }),
+    'a bearish continuation below the MA is confirmed');
+}
+
+function testSupportResistance() {
+  console.log('\nTest 10: Support and resistance levels');
+
+  // One full UTC day oscillating between 99.5 and 110.5 every 12 candles, then 7 candles of the next day
+  const midnight = 1700006400000;
+  const klines: Kline[] = Array.from({ length: 103 }, (_, i) => {
+    const close = 105 + 5 * Math.sin((2 * Math.PI * i) / 12);
+    return { date: midnight + i * INTERVAL_MS, open: close, high: close + 0.5, low: close - 0.5, close, volume: 1000 };
+  });
+
+  const days = SupportResistanceAnalyzer.aggregateKlines(klines, 24 * 60 * 60 * 1000);
+  assert(days.length === 2 && days[0].high === 110.5 && days[0].low === 99.5 && days[0].volume === 96000,
+    'klines aggregate into UTC days');
+
+  const levels = SupportResistanceAnalyzer.analyze(klines);
+  const { pivots } = levels;
+  const pivot = (110.5 + 99.5 + days[0].close) / 3;
+  assert(pivots?.time === midnight && Math.abs(pivots.classic.pivot - pivot) < 1e-6
+    && Math.abs(pivots.classic.r1 - (2 * pivot - 99.5)) < 1e-6 && Math.abs(pivots.camarilla.h4 - (days[0].close + 11 * 1.1 / 2)) < 1e-6,
+    'pivots come from the completed day');
+  assert(SupportResistanceAnalyzer.calculatePivotPoints(klines.slice(48)) === undefined, 'a partial day gives no pivots');
+
+  const [support] = levels.supports;
+  const resistance = levels.resistances.find(level => level.sources.includes('SWING_HIGH'));
+  assert(Math.abs(support.price - 99.5) < levels.tolerance && support.touches === 8
+    && support.sources.includes('SWING_LOW') && support.sources.includes('ROUND_NUMBER'),
+    `the repeatedly tested low merges with the 100 round number (${support.price}, ${support.touches} touches)`);
+  assert(resistance !== undefined && resistance.touches === 9 && resistance.strength > levels.resistances[0].strength,
+    'the tested high outranks the untouched pivot levels');
+  assert(levels.supports.every(level => level.price < 105) && levels.resistances.every(level => level.price > 105)
+    && levels.supports.every((level, i) => i === 0 || level.price < levels.supports[i - 1].price),
+    'levels are split by the current price and listed nearest first');
+  assert(SupportResistanceAnalyzer.roundNumbers(87231).join(',') === '80000,85000,90000,95000', 'round numbers step by half the order of magnitude');
+}
+
+function testVolumeProfile() {
+  console.log('\nTest 11: Volume profile');
+
+  // Candles spanning whole 1-point bins between 100 and 110, after 20 older candles outside the lookback
+  const spans: [number, number, number][] = [[200, 210, 20], [100, 101, 10], [103, 104, 15], [104, 106, 40], [106, 107, 10], [109, 110, 5]];
+  const klines = spans.flatMap(([low, high, count]) => Array.from({ length: count }, () => ({ low, high })))
+    .map(({ low, high }, i) => ({ date: 1700000000000 + i * INTERVAL_MS, open: low, high, low, close: (low + high) / 2, volume: 1000 }));
+
+  const profile = VolumeAnalyzer.calculateVolumeProfile(
+    klines.map(k => k.high), klines.map(k => k.low), klines.map(k => k.close), klines.map(k => k.volume), 80, 10
+  );
+  assert(profile.candles === 80 && profile.bins[0].low === 100 && profile.bins[9].high === 110, 'only the lookback is profiled');
+  assert(profile.bins[4].volume === 20000 && profile.bins[5].volume === 20000 && profile.bins[3].volume === 15000,
+    'each candle\'s volume is spread over the bins its range covers');
+  assert(profile.poc === 104.5, 'the point of control is the heaviest bin');
+  assert(profile.valueAreaLow === 103 && profile.valueAreaHigh === 107 && profile.valueAreaPercent === 81.25,
+    `the value area grows from the POC towards the heavier side (${profile.valueAreaLow} - ${profile.valueAreaHigh})`);
+  assert(profile.highVolumeNodes.length === 1 && profile.highVolumeNodes[0].low === 103 && profile.highVolumeNodes[0].high === 106,
+    'adjacent heavy bins merge into one high volume node');
+  assert(JSON.stringify(profile.lowVolumeNodes.map(node => [node.low, node.high])) === '[[101,103],[107,109]]',
+    'empty interior bins are low volume nodes');
+  assert(profile.position === 'ABOVE_VALUE', 'the latest close above the value area is reported');
+
+  const indicators = IndicatorCalculator.calculateAllIndicators(makeKlines(120));
+  assert(indicators.volumeProfile?.candles === 100 && indicators.volumeProfile.position === 'ABOVE_VALUE',
+    'the registry profiles the last 100 candles by default');
+}
+
+function testFunding() {
+  console.log('\nTest 12: Funding rates');
+
+  const HOUR_MS = 60 * 60 * 1000;
+  const premiumIndex = (fundingRate: number, markPrice: number = 101, indexPrice: number = 100): MarkPriceData => ({
+    symbol: 'BTCUSDT', markPrice, indexPrice, estimatedSettlePrice: markPrice, fundingRate, nextFundingTime: 1700000000000, timestamp: 1700000000000
+  });
+  const settled = (rates: number[], times: number[]): FundingRateData[] =>
+    rates.map((fundingRate, i) => ({ symbol: 'BTCUSDT', fundingRate, fundingTime: 1700000000000 + times[i] }));
+
+  const eightHourly = settled([0.0001, 0.0002, 0.0003, 0.0004], [0, 8, 16, 24].map(h => h * HOUR_MS));
+  const metrics = FundingAnalyzer.analyze(premiumIndex(0.0005), eightHourly);
+  assert(metrics.currentFundingRate === 0.0004 && metrics.predictedFundingRate === 0.0005, 'the last settlement is the current rate');
+  assert(metrics.averageFundingRate === 0.00025, 'the average covers the settled history');
+  assert(metrics.annualizedFundingPercent === 54.75, `an 8h contract settles 1095 times a year (${metrics.annualizedFundingPercent}%)`);
+  assert(metrics.basisPercent === 1, 'basis is the mark premium over the index');
+  assert(metrics.fundingTrend === 'RISING', 'steadily higher rates are rising');
+
+  const fourHourly = settled([0.0001, 0.0002, 0.0003, 0.0004], [0, 4, 8, 12].map(h => h * HOUR_MS));
+  assert(FundingAnalyzer.analyze(premiumIndex(0.0005), fourHourly).annualizedFundingPercent === 109.5,
+    'the interval comes from the settlement spacing');
+  const skipped = settled([0.0001, 0.0002, 0.0003, 0.0004], [0, 8, 16, 32].map(h => h * HOUR_MS));
+  assert(FundingAnalyzer.analyze(premiumIndex(0.0005), skipped).annualizedFundingPercent === 54.75,
+    'a missing settlement does not change the median interval');
+
+  // Extreme negative funding on an hourly contract, as during a short squeeze
+  const hourly = settled([-0.0005, -0.001, -0.002], [0, 1, 2].map(h => h * HOUR_MS));
+  const squeeze = FundingAnalyzer.analyze(premiumIndex(-0.003, 99, 100), hourly);
+  assert(squeeze.annualizedFundingPercent === -2628 && squeeze.basisPercent === -1,
+    `extreme negative hourly funding annualizes to ${squeeze.annualizedFundingPercent}%`);
+  assert(squeeze.fundingTrend === 'FALLING', 'deepening negative rates are falling');
+
+  const extremeLong = FundingAnalyzer.analyze(premiumIndex(0.0075), eightHourly);
+  assert(extremeLong.annualizedFundingPercent === 821.25 && extremeLong.fundingTrend === 'RISING',
+    'a capped 0.75% rate annualizes to 821.25%');
+
+  const flat = FundingAnalyzer.analyze(premiumIndex(0.0001), settled([0.0001, 0.0001, 0.0001], [0, 8, 16].map(h => h * HOUR_MS)));
+  assert(flat.fundingTrend === 'FLAT', 'unchanged rates are flat');
+
+  const fresh = FundingAnalyzer.analyze(premiumIndex(0.0005, 100, 0), []);
+  assert(fresh.currentFundingRate === 0.0005 && fresh.averageFundingRate === 0.0005,
+    'without history the predicted rate stands in for the settled ones');
+  assert(fresh.annualizedFundingPercent === 54.75 && fresh.fundingTrend === 'FLAT', 'without history the interval defaults to 8h');
+  assert(fresh.basisPercent === 0, 'a missing index price gives no basis');
+}
+
+function testPositioning() {
+  console.log('\nTest 13: Positioning');
+
+  const ratios = (values: number[]): LongShortRatioData[] => values.map((longShortRatio, i) => ({
+    symbol: 'BTCUSDT', longShortRatio, longShare: longShortRatio / (1 + longShortRatio), shortShare: 1 / (1 + longShortRatio),
+    timestamp: 1700000000000 + i * INTERVAL_MS
+  }));
+  const taker = (volumes: [number, number][]): TakerVolumeData[] => volumes.map(([buyVolume, sellVolume], i) => ({
+    buySellRatio: buyVolume / sellVolume, buyVolume, sellVolume, timestamp: 1700000000000 + i * INTERVAL_MS
+  }));
+  const repeat = (volume: [number, number], count: number) => Array.from({ length: count }, () => volume);
+
+  const buyers = PositioningAnalyzer.analyze(ratios([1.5, 2, 3]), ratios([2, 3]), taker([...repeat([100, 100], 4), ...repeat([150, 100], 4)]));
+  assert(buyers.globalLongShortRatio === 3 && buyers.longAccountPercent === 75, 'the latest global ratio and long share are reported');
+  assert(buyers.longShortRatioChange === 100, `the ratio trend runs from the first to the last period (${buyers.longShortRatioChange}%)`);
+  assert(buyers.crowdingScore === 1 && buyers.crowding === 'CROWDED_LONG', '3:1 on both ratios is fully crowded long');
+  assert(buyers.takerBuySellRatio === 1.3333 && buyers.takerAggression === 'BUYERS',
+    `only the recent periods count towards taker aggression (${buyers.takerBuySellRatio})`);
+  assert(buyers.takerRatioChange === 50, 'the taker ratio change compares the later half with the earlier half');
+
+  const sellers = PositioningAnalyzer.analyze(ratios([1, 1 / 3]), ratios([0.5]), taker([...repeat([100, 100], 4), ...repeat([100, 150], 4)]));
+  assert(sellers.longShortRatioChange === -66.67 && sellers.crowdingScore === -0.8155 && sellers.crowding === 'CROWDED_SHORT',
+    `ratios falling to 1:3 (top traders 1:2) are crowded short (${sellers.crowdingScore})`);
+  assert(sellers.takerBuySellRatio === 0.75 && sellers.takerAggression === 'SELLERS' && sellers.takerRatioChange === -33.33,
+    'heavier taker selling is reported as sellers');
+
+  const clamped = PositioningAnalyzer.analyze(ratios([9]), ratios([1]), taker(repeat([105, 100], 6)));
+  assert(clamped.crowdingScore === 0.5 && clamped.crowding === 'CROWDED_LONG', 'ratios beyond 3:1 are clamped before averaging');
+  assert(clamped.takerBuySellRatio === 1.05 && clamped.takerAggression === 'NEUTRAL' && clamped.takerRatioChange === 0,
+    'a small taker imbalance is neutral');
+
+  const weighted = PositioningAnalyzer.analyze(ratios([1.2]), [], taker([[100, 1000], [20, 10]]));
+  assert(weighted.topTraderLongShortRatio === 1.2 && weighted.crowding === 'BALANCED',
+    'without top trader data the global ratio stands in');
+  assert(weighted.takerBuySellRatio === 0.1188 && weighted.takerAggression === 'SELLERS',
+    'taker periods are weighted by volume, not averaged');
+
+  const empty = PositioningAnalyzer.analyze([], [], []);
+  assert(empty.globalLongShortRatio === 1 && empty.longAccountPercent === 50 && empty.takerAggression === 'NEUTRAL'
+    && empty.longShortRatioChange === 0, 'missing data is neutral');
+}
+
+function testOrderBook() {
+  console.log('\nTest 14: Order book');
+
+  const book = (bids: [number, number][], asks: [number, number][]): OrderBookDepth => ({
+    symbol: 'BTCUSDT', lastUpdateId: 1, timestamp: 1700000000000,
+    bids: bids.map(([price, quantity]) => ({ price, quantity })),
+    asks: asks.map(([price, quantity]) => ({ price, quantity }))
+  });
+
+  // Mid price 100 with a bid wall at 99.9 and a deep ask level 3% away
+  const depth = book(
+    [[99.95, 20], [99.9, 200], [99.5, 10], [99, 10], [98, 10]],
+    [[100.05, 20], [100.1, 20], [100.5, 10], [101, 10], [103, 500]]
+  );
+  const metrics = OrderBookAnalyzer.analyze(depth)!;
+  assert(metrics.midPrice === 100 && metrics.spreadBps === 10, `the spread is measured against the mid price (${metrics.spreadBps}bps)`);
+  assert(JSON.stringify(metrics.imbalances.map(band => band.bandPercent)) === '[0.1,0.5,1,2]', 'imbalance is reported for the default bands');
+  const [nearest, , , widest] = metrics.imbalances;
+  assert(nearest.bidNotional === 21979 && nearest.askNotional === 4003 && nearest.imbalance === 0.6919,
+    `the 0.1% band only counts levels within 0.1% of the mid (${nearest.imbalance})`);
+  assert(widest.bidNotional === 24944 && widest.askNotional === 6018 && widest.imbalance === 0.6113,
+    'levels beyond the widest band are left out');
+
+  assert(metrics.walls.length === 1, 'only levels far above the median size are walls');
+  const [wall] = metrics.walls;
+  assert(wall.side === 'BID' && wall.price === 99.9 && wall.notional === 19980 && wall.distancePercent === 0.1 && wall.sizeMultiple === 20.08,
+    `the wall is sized against the median nearby level (${wall.sizeMultiple}x)`);
+
+  assert(metrics.referenceNotional === 10000 && metrics.sellSlippageBps === 9 && metrics.buySlippageBps === 135.8,
+    `a 10000 USDT market order walks the book (buy ${metrics.buySlippageBps}bps, sell ${metrics.sellSlippageBps}bps)`);
+  assert(metrics.isThinBook && JSON.stringify(metrics.thinBookReasons) === '["buy slippage 135.8bps > 20bps"]',
+    'high slippage on one side flags a thin book');
+
+  const small = OrderBookAnalyzer.analyze(depth, { referenceNotional: 4000 })!;
+  assert(small.buySlippageBps === 7.5 && small.sellSlippageBps === 7.5 && !small.isThinBook,
+    'a smaller reference order fills near the mid price');
+
+  const shallow = OrderBookAnalyzer.analyze(depth, { referenceNotional: 100000, maxSpreadBps: 5 })!;
+  assert(shallow.buySlippageBps === null && shallow.sellSlippageBps === null, 'orders larger than the snapshot have no slippage estimate');
+  assert(JSON.stringify(shallow.thinBookReasons)
+    === '["spread 10.0bps > 5bps","buy side cannot fill 100000 USDT","sell side cannot fill 100000 USDT"]',
+    'a wide spread and an unfillable order are thin book reasons');
+
+  const stacked = OrderBookAnalyzer.analyze(book(
+    [[99.99, 1], [99.98, 1], [99.97, 60], [99.96, 1], [99.95, 80], [99.94, 1], [99.93, 70], [99.92, 1], [99.91, 50], [99.9, 1]],
+    [[100.01, 1], [100.02, 1], [100.03, 1], [100.04, 1], [100.05, 90]]
+  ))!;
+  assert(stacked.walls.length === 4 && stacked.walls.filter(w => w.side === 'BID').length === 3,
+    'at most three walls are reported per side');
+  assert(JSON.stringify(stacked.walls.map(w => w.price)) === '[100.05,99.95,99.93,99.97]', 'walls are listed largest first');
+
+  assert(OrderBookAnalyzer.analyze(book([], [[100, 1]])) === undefined, 'a one-sided book is not analyzed');
+}
+
+async function testIndicators() {
+  console.log('🧪 Testing indicators...\n');
+
+  try {
+    testRegistry();
+    testCustomIndicator();
+    testVolatility();
+    testTrendStrength();
+    testOscillators();
+    testVolumeFlow();
+    testSeries();
+    testDivergence();
+    testCandlestickPatterns();
+    testSupportResistance();
+    testVolumeProfile();
+    testFunding();
+    testPositioning();
+    testOrderBook();
+    console.log('\n✅ All indicator tests completed!');
+  } catch (error) {
+    console.error('❌ Indicator test failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+if (require.main === module) {
+  testIndicators();
+}
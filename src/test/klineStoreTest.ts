@@ -0,0 +1,136 @@
+// src/test/klineStoreTest.ts
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { KlineStore } from '../storage/klineStore';
+import { BinanceClient } from '../binance/client';
+import { Kline } from '../binance/types';
+import { InMemoryTransport } from '../transport/fakeTransport';
+import { assert, INTERVAL_MS, makeKline } from './helpers';
+
+/**
+ * Store that counts merges, each of which rewrites the whole series file
+ */
+class CountingKlineStore extends KlineStore {
+  merges = 0;
+
+  merge(symbol: string, interval: string, klines: Kline[]): Kline[] {
+    this.merges++;
+    return super.merge(symbol, interval, klines);
+  }
+}
+
+async function testKlineStore() {
+  console.log('🧪 Testing Kline Store...\n');
+
+  const baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kline-store-'));
+
+  try {
+    // Test 1: merge deduplicates by open time and persists to disk
+    console.log('Test 1: Merge and persistence');
+    const store = new KlineStore({ baseDir, maxCandlesPerSeries: 3 });
+    store.merge('BTCUSDT', '15m', [makeKline(1000, 1), makeKline(2000, 2)]);
+    store.merge('BTCUSDT', '15m', [makeKline(2000, 20), makeKline(3000, 3), makeKline(4000, 4)]);
+
+    const reloaded = new KlineStore({ baseDir }).load('BTCUSDT', '15m');
+    assert(reloaded.length === 3, 'series is trimmed to maxCandlesPerSeries');
+    assert(reloaded[0].close === 20, 'newer candle overrides stored candle with the same open time');
+    assert(reloaded[2].date === 4000, 'candles are sorted by open time');
+
+    // Test 2: getKlines only requests candles after the last stored close time
+    console.log('\nTest 2: Incremental fetching');
+    const now = Date.now();
+    const lastOpen = Math.floor(now / INTERVAL_MS) * INTERVAL_MS - 3 * INTERVAL_MS;
+    const clientStore = new KlineStore({ baseDir });
+    clientStore.merge('ETHUSDT', '15m', Array.from({ length: 10 }, (_, i) => makeKline(lastOpen - (9 - i) * INTERVAL_MS, i)));
+
+    let apiAvailable = true;
+    const transport = new InMemoryTransport().on('GET', '/fapi/v1/klines', request => {
+      if (!apiAvailable) {
+        return { status: 503, body: { msg: 'Service Unavailable' } };
+      }
+      const startTime = Number(new URL(request.url).searchParams.get('startTime'));
+      const rows = [0, 1, 2].map(i => {
+        const open = startTime + i * INTERVAL_MS;
+        return [open, '3', '3', '3', '3', '1'];
+      });
+      return { body: rows };
+    });
+
+    const client = new BinanceClient({ klineStore: clientStore, transport });
+    const klines = await client.getKlines('ETHUSDT', '15m', 10);
+    const startTime = Number(new URL(transport.requests[0].url).searchParams.get('startTime'));
+
+    assert(startTime === lastOpen + INTERVAL_MS, 'startTime is the first candle after the last stored close');
+    assert(klines.length === 10 && klines[9].date === lastOpen + 3 * INTERVAL_MS, 'stored and fetched candles are combined');
+    assert(clientStore.load('ETHUSDT', '15m').length === 12, 'only closed candles are persisted');
+
+    // Test 3: stored candles are served when the API is unavailable
+    console.log('\nTest 3: API outage fallback');
+    apiAvailable = false;
+
+    const fallback = await client.getKlines('ETHUSDT', '15m', 10);
+    assert(fallback.length === 10 && fallback[9].date === lastOpen + 2 * INTERVAL_MS, 'stored candles are returned when fetching fails');
+
+    // Test 4: history requests page past the 1500-candle limit
+    console.log('\nTest 4: Paginated history');
+    const historyTransport = new InMemoryTransport().on('GET', '/fapi/v1/klines', request => {
+      const params = new URL(request.url).searchParams;
+      const start = Number(params.get('startTime'));
+      const end = Number(params.get('endTime'));
+      const limit = Number(params.get('limit'));
+      const rows = [];
+      for (let open = start; open <= end && rows.length < limit; open += INTERVAL_MS) {
+        rows.push([open, '3', '4', '2', '3', '10', open + INTERVAL_MS - 1, '30', 7, '6', '18', '0']);
+      }
+      return { body: rows };
+    });
+
+    const historyStart = 1600000000000;
+    const historyEnd = historyStart + 3499 * INTERVAL_MS;
+    const history = await new BinanceClient({ transport: historyTransport }).getKlineHistory({
+      symbol: 'BTCUSDT', interval: '15m', startTime: historyStart, endTime: historyEnd
+    });
+
+    assert(historyTransport.requests.length === 3, 'history is fetched in pages of 1500 candles');
+    assert(history.length === 3500 && history[3499].date === historyEnd, 'pages cover the whole range without gaps');
+    assert(new Set(history.map(k => k.date)).size === history.length, 'pages do not overlap');
+    assert(history[0].takerBuyBaseVolume === 6 && history[0].trades === 7 && history[0].quoteVolume === 30,
+      'quote volume, trade count and taker buy volume are parsed');
+
+    // Test 5: short stores and long gaps are filled page by page
+    console.log('\nTest 5: Backfilling the store');
+    const isContiguous = (series: Kline[]) => series.every((k, i) => i === 0 || k.date - series[i - 1].date === INTERVAL_MS);
+    const currentOpen = Math.floor(Date.now() / INTERVAL_MS) * INTERVAL_MS;
+    const backfillStore = new CountingKlineStore({ baseDir });
+    const backfillClient = new BinanceClient({ klineStore: backfillStore, transport: historyTransport });
+
+    backfillStore.merge('SOLUSDT', '15m', [makeKline(currentOpen - 2 * INTERVAL_MS, 1), makeKline(currentOpen - INTERVAL_MS, 2)]);
+    const mergesBefore = backfillStore.merges;
+    const backfilled = await backfillClient.getKlines('SOLUSDT', '15m', 10);
+    assert(backfillStore.merges - mergesBefore === 1, 'the backfilled series is written once');
+    assert(backfilled.length === 10 && backfilled[9].date === currentOpen && isContiguous(backfilled),
+      'a store with fewer than limit candles is backfilled to limit');
+    assert(backfillStore.load('SOLUSDT', '15m').length === 9, 'backfilled closed candles are persisted');
+
+    const staleOpen = currentOpen - 2000 * INTERVAL_MS;
+    backfillStore.merge('XRPUSDT', '15m', Array.from({ length: 20 }, (_, i) => makeKline(staleOpen - (19 - i) * INTERVAL_MS, 1)));
+    const requestsBefore = historyTransport.requests.length;
+    const caughtUp = await backfillClient.getKlines('XRPUSDT', '15m', 10);
+    const gapFilled = backfillStore.load('XRPUSDT', '15m');
+    assert(historyTransport.requests.length - requestsBefore === 2, 'a gap longer than one page is fetched in pages');
+    assert(gapFilled.length === 2019 && isContiguous(gapFilled) && caughtUp[9].date === currentOpen,
+      'the store has no hole after a long gap');
+
+    console.log('\n✅ All kline store tests completed!');
+  } catch (error) {
+    console.error('❌ Kline store test failed:', error);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  }
+}
+
+if (require.main === module) {
+  testKlineStore();
+}
@@ -0,0 +1,226 @@
+// src/test/marketStreamTest.ts
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { BinanceMarketStream, KlineEvent, MarketStreamRestClient } from '../binance/marketStream';
+import { BinanceClient } from '../binance/client';
+import { PriceData } from '../binance/types';
+import { DEFAULT_INDICATOR_SETTINGS } from '../indicators/indicatorSettings';
+import { PredictionScheduler } from '../scheduler/predictionScheduler';
+import { InMemoryTransport } from '../transport/fakeTransport';
+import { assert, INTERVAL_MS, makeKline } from './helpers';
+
+async function waitFor(predicate: () => boolean, timeoutMs: number = 3000): Promise<void> {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+function klineMessage(openTime: number, isClosed: boolean, symbol: string = 'BTCUSDT'): string {
+  return JSON.stringify({
+    stream: `${symbol.toLowerCase()}@kline_15m`,
+    data: {
+      e: 'kline',
+      E: openTime + INTERVAL_MS,
+      s: symbol,
+      k: { t: openTime, T: openTime + INTERVAL_MS - 1, i: '15m', o: '1', h: '2', l: '0.5', c: '1.5', v: '10', q: '12.5', n: 42, V: '6', Q: '7.5', x: isClosed }
+    }
+  });
+}
+
+/**
+ * A local port with nothing listening on it
+ */
+async function closedPort(): Promise<number> {
+  const probe = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+  await new Promise<void>(resolve => probe.once('listening', () => resolve()));
+  const { port } = probe.address() as AddressInfo;
+  await new Promise<void>(resolve => probe.close(() => resolve()));
+  return port;
+}
+
+async function testMarketStream() {
+  console.log('🧪 Testing Market Stream against a local WebSocket server...\n');
+
+  const server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+  await new Promise<void>(resolve => server.once('listening', () => resolve()));
+  const { port } = server.address() as AddressInfo;
+
+  const connections: WebSocket[] = [];
+  const subscribeRequests: string[][] = [];
+  server.on('connection', socket => {
+    connections.push(socket);
+    socket.on('message', raw => {
+      const request = JSON.parse(raw.toString());
+      if (request.method === 'SUBSCRIBE') {
+        subscribeRequests.push(request.params);
+      }
+      socket.send(JSON.stringify({ result: null, id: request.id }));
+    });
+  });
+
+  const lastClosedOpenTime = Math.floor(Date.now() / INTERVAL_MS) * INTERVAL_MS - 3 * INTERVAL_MS;
+  const restClient: MarketStreamRestClient = {
+    getKlines: async () => [0, 1, 2, 3].map(i => makeKline(lastClosedOpenTime + i * INTERVAL_MS, 2)),
+    getKlineHistory: async () => [],
+    getAll24hrTickers: async (): Promise<PriceData[]> => [
+      { symbol: 'BTCUSDT', price: 2, priceChangePercent: 1, quoteVolume: 100, timestamp: Date.now() }
+    ]
+  };
+
+  const stream = new BinanceMarketStream({ baseURL: `ws://127.0.0.1:${port}`, restClient, reconnectDelay: 50 });
+  const klineCloses: KlineEvent[] = [];
+  const tickerBatches: PriceData[][] = [];
+  stream.on('klineClose', event => klineCloses.push(event));
+  stream.on('ticker', tickers => tickerBatches.push(tickers));
+
+  try {
+    // Test 1: subscriptions and typed events
+    console.log('Test 1: Subscribe and receive events');
+    stream.subscribeKlines('BTCUSDT', '15m');
+    stream.subscribeTickers();
+    await stream.connect();
+    await waitFor(() => subscribeRequests.length === 1);
+    assert(subscribeRequests[0].length === 2, 'all streams are subscribed on connect');
+
+    connections[0].send(klineMessage(lastClosedOpenTime, true));
+    connections[0].send(JSON.stringify({
+      stream: '!ticker@arr',
+      data: [{ e: '24hrTicker', E: 1, s: 'ETHUSDT', c: '3000.5', P: '5.2', q: '123456' }]
+    }));
+    await waitFor(() => klineCloses.length === 1 && tickerBatches.length === 1);
+    assert(klineCloses[0].kline.close === 1.5 && !klineCloses[0].backfilled, 'closed kline is parsed into a Kline');
+    assert(tickerBatches[0][0].price === 3000.5, 'ticker array is parsed into PriceData');
+
+    // Test 2: reconnect, resubscribe and backfill the gap via REST
+    console.log('\nTest 2: Reconnect with resubscription and gap backfill');
+    connections[0].terminate();
+    await waitFor(() => subscribeRequests.length === 2);
+    assert(connections.length === 2, 'client reconnects after the connection drops');
+    assert(subscribeRequests[1].length === 2, 'streams are resubscribed on the new connection');
+
+    await waitFor(() => klineCloses.length === 3 && tickerBatches.length === 2);
+    assert(klineCloses.slice(1).every(event => event.backfilled), 'missed closed candles are backfilled');
+    assert(klineCloses[2].kline.date === lastClosedOpenTime + 2 * INTERVAL_MS, 'the in-progress candle is not emitted as closed');
+    stream.disconnect();
+
+    // Test 3: connection rotation keeps the stream alive without a gap
+    console.log('\nTest 3: Connection rotation');
+    const rotating = new BinanceMarketStream({ baseURL: `ws://127.0.0.1:${port}`, rotationInterval: 100 });
+    rotating.subscribeMarkPrice();
+    const before = connections.length;
+    await rotating.connect();
+    await waitFor(() => connections.length === before + 2 && subscribeRequests.length === 4);
+    await waitFor(() => connections[before].readyState === WebSocket.CLOSED);
+    assert(rotating.isConnected(), 'the replacement connection is in use');
+    rotating.disconnect();
+
+    // Test 4: a failed first connection is retried with backoff
+    console.log('\nTest 4: Initial connection failure');
+    const latePort = await closedPort();
+    const late = new BinanceMarketStream({ baseURL: `ws://127.0.0.1:${latePort}`, reconnectDelay: 50 });
+    const connectErrors: Error[] = [];
+    let reconnectAttempts = 0;
+    late.on('error', error => connectErrors.push(error));
+    late.on('reconnect', attempt => { reconnectAttempts = attempt; });
+    const connecting = late.connect();
+    await waitFor(() => reconnectAttempts >= 1);
+
+    const lateServer = new WebSocketServer({ port: latePort, host: '127.0.0.1' });
+    try {
+      await connecting;
+      assert(connectErrors.length >= 1 && late.isConnected(), 'connect() resolves once a retry succeeds');
+    } finally {
+      late.disconnect();
+      lateServer.clients.forEach(socket => socket.terminate());
+      lateServer.close();
+    }
+
+    // Test 5: the scheduler is rolled back when the stream closes before connecting
+    console.log('\nTest 5: Scheduler rollback');
+    const scheduler = new PredictionScheduler(new BinanceClient({ transport: new InMemoryTransport() }), {
+      ...DEFAULT_INDICATOR_SETTINGS, minVolumeThreshold: 0, minPriceChangePercent: 0, klineInterval: '15m', klineLimit: 200, deepSeekEnabled: false
+    });
+    const deadPort = await closedPort();
+    const failing = new BinanceMarketStream({ baseURL: `ws://127.0.0.1:${deadPort}`, reconnectDelay: 50 });
+    const starting = scheduler.startOnCandleClose(failing);
+    const startResult = starting.then(() => 'started', () => 'rejected');
+    scheduler.stop();
+    assert(await startResult === 'rejected' && failing.listenerCount('klineClose') === 0 && failing.listenerCount('kline') === 0,
+      'stopping before the stream connects rejects the start and removes the listeners');
+
+    const retry = new BinanceMarketStream({ baseURL: `ws://127.0.0.1:${deadPort}`, reconnectDelay: 50 });
+    const retryResult = scheduler.startOnCandleClose(retry).then(() => 'started', () => 'rejected');
+    assert(retry.listenerCount('klineClose') === 2 && retry.listenerCount('kline') === 1,
+      'the scheduler can be started again, with the streaming indicators attached');
+    retry.disconnect();
+    assert(await retryResult === 'rejected' && retry.listenerCount('klineClose') === 0 && retry.listenerCount('kline') === 0,
+      'a stream closed from outside also rolls the scheduler back');
+
+    // Test 6: one failed backfill request does not stop the others; long gaps are paged
+    console.log('\nTest 6: Backfill failures and long gaps');
+    const longGapOpenTime = lastClosedOpenTime - 2000 * INTERVAL_MS;
+    const historyRequests: { symbol: string; startTime: number }[] = [];
+    const flaky = new BinanceMarketStream({
+      baseURL: `ws://127.0.0.1:${port}`,
+      reconnectDelay: 50,
+      restClient: {
+        getKlines: async symbol => {
+          if (symbol === 'ETHUSDT') throw new Error('HTTP 503');
+          return [0, 1, 2, 3].map(i => makeKline(lastClosedOpenTime + i * INTERVAL_MS, 2));
+        },
+        getKlineHistory: async ({ symbol, startTime }) => {
+          historyRequests.push({ symbol, startTime });
+          return [makeKline(startTime, 3)];
+        },
+        getAll24hrTickers: async () => { throw new Error('HTTP 429'); }
+      }
+    });
+    const backfillErrors: Error[] = [];
+    const backfilled: KlineEvent[] = [];
+    flaky.on('error', error => backfillErrors.push(error));
+    flaky.on('klineClose', event => backfilled.push(event));
+    ['ETHUSDT', 'BTCUSDT', 'SOLUSDT'].forEach(symbol => flaky.subscribeKlines(symbol, '15m'));
+    flaky.subscribeTickers();
+
+    const flakyConnections = connections.length;
+    try {
+      await flaky.connect();
+      await waitFor(() => connections.length === flakyConnections + 1);
+      const socket = connections[flakyConnections];
+      socket.send(klineMessage(lastClosedOpenTime, true, 'ETHUSDT'));
+      socket.send(klineMessage(lastClosedOpenTime, true, 'BTCUSDT'));
+      socket.send(klineMessage(longGapOpenTime, true, 'SOLUSDT'));
+      await waitFor(() => backfilled.length === 3);
+
+      socket.terminate();
+      await waitFor(() => backfilled.length === 6 && backfillErrors.length === 2);
+      assert(backfillErrors.some(error => error.message.includes('Ticker backfill failed'))
+        && backfillErrors.some(error => error.message.includes('ETHUSDT')), 'each failed request is reported on its own');
+      assert(backfilled.slice(3).filter(event => event.symbol === 'BTCUSDT').length === 2,
+        'the other subscriptions are still backfilled');
+      assert(historyRequests.length === 1 && historyRequests[0].symbol === 'SOLUSDT'
+        && historyRequests[0].startTime === longGapOpenTime + INTERVAL_MS
+        && backfilled.some(event => event.symbol === 'SOLUSDT' && event.backfilled),
+        'gaps longer than one request are paged from the first missing candle');
+    } finally {
+      flaky.disconnect();
+    }
+
+    console.log('\n✅ All market stream tests completed!');
+  } catch (error) {
+    console.error('❌ Market stream test failed:', error);
+    process.exitCode = 1;
+  } finally {
+    stream.disconnect();
+    connections.forEach(socket => socket.terminate());
+    server.close();
+  }
+}
+
+if (require.main === module) {
+  testMarketStream();
+}
@@ -0,0 +1,128 @@
+// src/test/rateLimiterTest.ts
+import { BinanceClient } from '../binance/client';
+import { getEndpointWeight, RequestWeightLimiter } from '../binance/rateLimiter';
+import { InMemoryTransport } from '../transport/fakeTransport';
+import { assert } from './helpers';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Fake time: sleeping advances the clock instead of waiting
+ */
+class FakeClock {
+  readonly sleeps: number[] = [];
+
+  constructor(public time: number) {}
+
+  now = () => this.time;
+
+  sleep = async (ms: number) => {
+    this.sleeps.push(ms);
+    this.time += ms;
+  };
+}
+
+function usedWeightHeader(weight: string) {
+  return { get: (name: string) => (name === 'x-mbx-used-weight-1m' ? weight : null) };
+}
+
+function testEndpointWeights() {
+  console.log('Test 1: Endpoint weights');
+  const base = 'https://fapi.binance.com/fapi/v1';
+  assert([50, 200, 1000, 1500].map(limit => getEndpointWeight(`${base}/klines?symbol=BTCUSDT&limit=${limit}`)).join(',') === '1,2,5,10',
+    'kline weight grows with the limit');
+  assert(getEndpointWeight(`${base}/klines?symbol=BTCUSDT`) === 5, 'klines default to the weight of limit=500');
+  assert(getEndpointWeight(`${base}/ticker/24hr`) === 40 && getEndpointWeight(`${base}/ticker/24hr?symbol=BTCUSDT`) === 1,
+    'all-symbol tickers weigh 40, a single symbol 1');
+  assert(getEndpointWeight(`${base}/depth?symbol=BTCUSDT&limit=1000`) === 20, 'depth weight follows the limit');
+  assert(getEndpointWeight('https://dapi.binance.com/dapi/v1/klines?symbol=BTCUSD_PERP&limit=1500') === 10
+    && getEndpointWeight('https://dapi.binance.com/dapi/v1/ticker/24hr') === 40, 'COIN-M endpoints use the USDⓈ-M weights');
+  assert(getEndpointWeight(`${base}/unknownEndpoint`) === 1, 'unknown endpoints weigh 1');
+}
+
+async function testWindowAndQueue() {
+  console.log('\nTest 2: Per-minute window and queuing');
+  const windowStart = 28333333 * MINUTE_MS;
+  const clock = new FakeClock(windowStart + 10000);
+  const limiter = new RequestWeightLimiter({ weightLimit: 100, now: clock.now, sleep: clock.sleep });
+
+  await limiter.acquire(40);
+  await limiter.acquire(40);
+  assert(limiter.getUsage().usedWeight === 80 && limiter.getUsage().budget === 90, 'weight is reserved within the 90% budget');
+
+  const third = limiter.acquire(40);
+  const fourth = limiter.acquire(1);
+  assert(limiter.getUsage().queued === 2, 'requests over budget are queued, in order');
+  await Promise.all([third, fourth]);
+  assert(clock.time === windowStart + MINUTE_MS && clock.sleeps.length === 1, 'the queue waits for the next minute');
+  assert(limiter.getUsage().usedWeight === 41 && limiter.getUsage().queued === 0, 'the window rolls over and the queue drains');
+
+  clock.time += MINUTE_MS;
+  assert(limiter.getUsage().usedWeight === 0, 'usage resets at the start of every minute');
+}
+
+async function testHeaderSync() {
+  console.log('\nTest 3: Server-reported weight');
+  const clock = new FakeClock(28333333 * MINUTE_MS);
+  const limiter = new RequestWeightLimiter({ weightLimit: 100, now: clock.now, sleep: clock.sleep });
+
+  await limiter.acquire(5);
+  limiter.updateFromHeaders(usedWeightHeader('85'));
+  assert(limiter.getUsage().usedWeight === 85, 'X-MBX-USED-WEIGHT-1M raises the local estimate');
+  limiter.updateFromHeaders(usedWeightHeader('10'));
+  assert(limiter.getUsage().usedWeight === 85, 'a lower report does not drop in-flight weight');
+
+  await limiter.acquire(10);
+  assert(clock.sleeps.length === 1 && limiter.getUsage().usedWeight === 10, 'the synced weight delays requests to the next minute');
+}
+
+async function testRateLimitResponses() {
+  console.log('\nTest 4: 429 and 418 responses');
+  const clock = new FakeClock(28333333 * MINUTE_MS);
+  const rateLimiter = new RequestWeightLimiter({ now: clock.now, sleep: clock.sleep });
+  let tickerCalls = 0;
+  const transport = new InMemoryTransport()
+    .on('GET', '/fapi/v1/ticker/24hr', () => {
+      tickerCalls++;
+      return tickerCalls === 1
+        ? { status: 429, headers: { 'Retry-After': '3', 'X-MBX-USED-WEIGHT-1M': '2400' }, body: { code: -1003 } }
+        : { body: { symbol: 'BTCUSDT', lastPrice: '1', priceChangePercent: '0', quoteVolume: '1', closeTime: clock.time } };
+    })
+    .on('GET', '/fapi/v1/exchangeInfo', { status: 418, headers: { 'Retry-After': '120' }, body: { code: -1003 } });
+  const client = new BinanceClient({ transport, rateLimiter });
+
+  const ticker = await client.get24hrTicker('BTCUSDT');
+  assert(ticker.symbol === 'BTCUSDT' && tickerCalls === 2 && clock.sleeps[0] === 3000, '429 pauses for Retry-After, then retries');
+
+  let banError: Error | null = null;
+  try {
+    await client.getExchangeInfo();
+  } catch (error) {
+    banError = error as Error;
+  }
+  const pausedUntil = client.getRateLimitUsage().pausedUntil;
+  assert(banError?.message.includes('418') === true && transport.requests.length === 3, '418 is not retried');
+  assert(pausedUntil === clock.time + 120000, 'requests are paused for the ban duration');
+
+  await client.get24hrTicker('BTCUSDT');
+  assert(clock.time === pausedUntil, 'the next request waits until the ban ends');
+}
+
+async function testRateLimiter() {
+  console.log('🧪 Testing request weight limiter...\n');
+
+  try {
+    testEndpointWeights();
+    await testWindowAndQueue();
+    await testHeaderSync();
+    await testRateLimitResponses();
+    console.log('\n✅ All rate limiter tests completed!');
+  } catch (error) {
+    console.error('❌ Rate limiter test failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+if (require.main === module) {
+  testRateLimiter();
+}
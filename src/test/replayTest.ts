@@ -0,0 +1,233 @@
+// src/test/replayTest.ts
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BinanceClient } from '../binance/client';
+import { BinanceMarketStream } from '../binance/marketStream';
+import { MarketPredictor } from '../prediction/marketPredictor';
+import { PredictedSymbol, PredictionConfig } from '../prediction/types';
+import { InMemoryTransport } from '../transport/fakeTransport';
+import { RecordingTransport, ReplayTransport } from '../transport/recordReplay';
+import { HttpTransport } from '../transport/types';
+import { assert } from './helpers';
+
+// The stand-in returns the same 7 OI periods whatever limit is requested
+const OPEN_INTEREST_CONTRACTS = [1000, 1010, 1025, 1040, 1060, 1075, 1090];
+
+const DEPTH = {
+  bids: [['1.2500', '12000'], ['1.2495', '3000'], ['1.2490', '40000'], ['1.2480', '2500']],
+  asks: [['1.2505', '9000'], ['1.2510', '2800'], ['1.2515', '3100'], ['1.2530', '2600']]
+};
+
+// A 40bps spread with about 1,250 USDT on each side: too thin for the 10,000 USDT reference order
+const THIN_DEPTH = {
+  bids: [['1.2475', '500'], ['1.2450', '500']],
+  asks: [['1.2525', '500'], ['1.2550', '500']]
+};
+
+const config: PredictionConfig = {
+  minVolumeThreshold: 50 * 1000000,
+  minPriceChangePercent: 5,
+  klineInterval: '15m',
+  klineLimit: 200,
+  rsiPeriod: 14,
+  macdFastPeriod: 12,
+  macdSlowPeriod: 26,
+  macdSignalPeriod: 9,
+  bbPeriod: 20,
+  bbMultiplier: 2,
+  maPeriods: { short: 7, medium: 14, long: 25, trend: 50 },
+  openInterestLookback: 3,
+  deepSeekEnabled: true
+};
+
+/**
+ * Canned exchange and LLM responses standing in for a live scan
+ */
+function createLiveStandIn(depth: { bids: string[][]; asks: string[][] } = DEPTH): InMemoryTransport {
+  const tickers = [
+    { symbol: 'AAAUSDT', lastPrice: '1.25', priceChangePercent: '12.5', volume: '1000000', quoteVolume: '90000000', closeTime: 1700000000000 },
+    { symbol: 'BBBUSDT', lastPrice: '40.10', priceChangePercent: '8.2', volume: '50000', quoteVolume: '120000000', closeTime: 1700000000000 },
+    { symbol: 'CCCUSDT', lastPrice: '3.00', priceChangePercent: '1.0', volume: '10000', quoteVolume: '5000000', closeTime: 1700000000000 },
+    { symbol: 'DDDUSDT', lastPrice: '2.00', priceChangePercent: '20.0', volume: '10000', quoteVolume: '90000000', closeTime: 1700000000000 },
+    { symbol: 'AAAUSDT_240329', lastPrice: '1.30', priceChangePercent: '15.0', volume: '10000', quoteVolume: '90000000', closeTime: 1700000000000 }
+  ];
+  const contract = (symbol: string, status: string, contractType: string, onboardDate: number, tickSize: string) => ({
+    symbol, pair: symbol.split('_')[0], contractType, status, baseAsset: symbol.slice(0, 3), quoteAsset: 'USDT', marginAsset: 'USDT',
+    pricePrecision: 4, quantityPrecision: 0, onboardDate, deliveryDate: 4133404800000,
+    filters: [
+      { filterType: 'PRICE_FILTER', tickSize, minPrice: '0.0001', maxPrice: '200000' },
+      { filterType: 'LOT_SIZE', stepSize: '1', minQty: '1', maxQty: '1000000' },
+      { filterType: 'MIN_NOTIONAL', notional: '5' }
+    ]
+  });
+
+  return new InMemoryTransport()
+    .on('GET', '/fapi/v1/ticker/24hr', { body: tickers })
+    .on('GET', '/fapi/v1/exchangeInfo', {
+      body: {
+        serverTime: 1700000000000,
+        symbols: [
+          contract('AAAUSDT', 'TRADING', 'PERPETUAL', 1690000000000, '0.0001'),
+          contract('BBBUSDT', 'TRADING', 'PERPETUAL', Date.now() - 3 * 24 * 60 * 60 * 1000, '0.01'),
+          contract('CCCUSDT', 'TRADING', 'PERPETUAL', 1690000000000, '0.001'),
+          contract('DDDUSDT', 'SETTLING', 'PERPETUAL', 1690000000000, '0.001'),
+          contract('AAAUSDT_240329', 'TRADING', 'CURRENT_QUARTER', 1690000000000, '0.0001')
+        ]
+      }
+    })
+    .on('GET', '/futures/data/openInterestHist', request => {
+      const symbol = new URL(request.url).searchParams.get('symbol');
+      return {
+        body: OPEN_INTEREST_CONTRACTS.map((sumOpenInterest, i) => ({
+          symbol, sumOpenInterest: String(sumOpenInterest), sumOpenInterestValue: String(sumOpenInterest * 70000 + 5000000),
+          timestamp: 1700000000000 + (193 + i) * 900000
+        }))
+      };
+    })
+    .on('GET', '/fapi/v1/klines', request => {
+      const symbol = new URL(request.url).searchParams.get('symbol') || '';
+      const base = symbol === 'AAAUSDT' ? 1 : 40;
+      const rows = Array.from({ length: 200 }, (_, i) => {
+        const close = base * (1 + 0.05 * Math.sin(i / 9) + i * 0.0005);
+        const open = base * (1 + 0.05 * Math.sin((i - 1) / 9) + (i - 1) * 0.0005);
+        const volume = 1000 + (i % 7) * 150;
+        return [1700000000000 + i * 900000, String(open), String(Math.max(open, close) * 1.002),
+          String(Math.min(open, close) * 0.998), String(close), String(volume),
+          1700000000000 + (i + 1) * 900000 - 1, String(volume * close), 300 + i,
+          String(volume * 0.52), String(volume * 0.52 * close), '0'];
+      });
+      return { body: rows };
+    })
+    .on('GET', '/fapi/v1/premiumIndex', request => {
+      const symbol = new URL(request.url).searchParams.get('symbol');
+      return {
+        body: { symbol, markPrice: '1.2510', indexPrice: '1.2500', estimatedSettlePrice: '1.2505', lastFundingRate: '0.00062', nextFundingTime: 1700006400000, time: 1700000000000 }
+      };
+    })
+    .on('GET', '/fapi/v1/fundingRate', request => {
+      const symbol = new URL(request.url).searchParams.get('symbol');
+      const rates = ['0.0001', '0.0002', '0.0003', '0.0004', '0.0005'];
+      return { body: rates.map((fundingRate, i) => ({ symbol, fundingRate, fundingTime: 1699856000000 + i * 28800000 })) };
+    })
+    .on('GET', /futures\/data\/(globalLongShortAccountRatio|topLongShortPositionRatio)/, request => {
+      const symbol = new URL(request.url).searchParams.get('symbol');
+      const ratios = ['1.8', '2.1', '2.6'];
+      return {
+        body: ratios.map((longShortRatio, i) => ({
+          symbol, longShortRatio, longAccount: '0.72', shortAccount: '0.28', timestamp: 1700000000000 + i * 900000
+        }))
+      };
+    })
+    .on('GET', '/futures/data/takerlongshortRatio', {
+      body: [
+        { buySellRatio: '0.95', buyVol: '950', sellVol: '1000', timestamp: 1700000000000 },
+        { buySellRatio: '0.80', buyVol: '800', sellVol: '1000', timestamp: 1700000900000 }
+      ]
+    })
+    .on('GET', '/fapi/v1/depth', {
+      body: {
+        lastUpdateId: 1027024, E: 1700000000010, T: 1700000000005,
+        ...depth
+      }
+    })
+    .on('POST', '/chat/completions', {
+      body: { choices: [{ message: { content: '操作建议：买入\n置信度: 72%' } }] }
+    });
+}
+
+async function runScan(transport: HttpTransport, now: number): Promise<PredictedSymbol[]> {
+  const predictor = new MarketPredictor(
+    new BinanceClient({ transport }),
+    config,
+    'test-api-key',
+    { deepSeek: { transport }, now: () => now }
+  );
+  return predictor.predictMarket();
+}
+
+async function testRecordReplay() {
+  console.log('🧪 Testing record/replay of a full scan...\n');
+
+  const fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scan-fixture-'));
+
+  try {
+    // Record a scan against the stand-in
+    const recording = new RecordingTransport(createLiveStandIn(), fixtureDir);
+    const recorded = await runScan(recording, recording.session.recordedAt);
+
+    // Replay it twice with no network
+    const replay = new ReplayTransport(fixtureDir);
+    const firstReplay = await runScan(replay, replay.session.recordedAt);
+    const secondReplay = await runScan(new ReplayTransport(fixtureDir), replay.session.recordedAt);
+
+    console.log('\nResults:');
+    assert(recorded.length === 2, 'recorded scan produced predictions for the filtered symbols');
+    assert(recorded.every(p => p.symbol === 'AAAUSDT' || p.symbol === 'BBBUSDT'), 'settling and delivery contracts are not screened');
+    assert(recorded.find(p => p.symbol === 'BBBUSDT')?.contract?.isNewListing === true, 'recently onboarded contracts are flagged');
+    assert(recorded.every(p => p.indicatorSettings?.maPeriods.short === 7 && p.indicatorSettings.volumePeriod === 20),
+      'indicator settings from the config are recorded with each prediction');
+    assert(recorded[0].technicalIndicators.ma?.periods.long === 25, 'moving averages use the configured periods');
+    const oiWindow = OPEN_INTEREST_CONTRACTS.slice(-(config.openInterestLookback! + 1));
+    const expectedOiChange = Number(((oiWindow[oiWindow.length - 1] - oiWindow[0]) / oiWindow[0] * 100).toFixed(2));
+    assert(recorded.every(p => p.openInterest?.oiChangePercent === expectedOiChange),
+      `OI change covers the configured ${config.openInterestLookback}-period window (${expectedOiChange}%)`);
+    assert(JSON.stringify(firstReplay) === JSON.stringify(recorded), 'replay reproduces the recorded PredictedSymbol[]');
+    assert(JSON.stringify(secondReplay) === JSON.stringify(firstReplay), 'replays are identical to each other');
+
+    // A thin book caps the LLM's 72% confidence
+    const thinScan = await runScan(createLiveStandIn(THIN_DEPTH), recording.session.recordedAt);
+    assert(recorded.every(p => p.confidence === 72 && p.orderBook?.isThinBook === false), 'liquid books keep the signal confidence');
+    assert(thinScan.length === 2 && thinScan.every(p => p.orderBook?.isThinBook === true && p.confidence === 60),
+      'thin books cap the confidence at 60%');
+
+    // Candle-close mode: scanned symbols are subscribed and their price comes from the streaming indicators
+    const stream = new BinanceMarketStream();
+    const streamingPredictor = new MarketPredictor(new BinanceClient({ transport: createLiveStandIn() }), { ...config, deepSeekEnabled: false });
+    streamingPredictor.attachMarketStream(stream);
+    const seeded = await streamingPredictor.predictMarket();
+    assert(JSON.stringify(stream.getSubscriptions().sort()) === JSON.stringify(['aaausdt@kline_15m', 'bbbusdt@kline_15m'])
+      && seeded.every(p => p.currentPrice === p.technicalIndicators.currentPrice), 'scanned symbols are seeded from their klines and subscribed');
+    const openCandle = { date: 1700000000000 + 200 * 900000, open: 1.2, high: 1.4, low: 1.2, close: 1.3456, volume: 500 };
+    stream.emit('kline', { symbol: 'AAAUSDT', interval: '15m', kline: openCandle, isClosed: false, backfilled: false });
+    const streamed = await streamingPredictor.predictMarket();
+    const seededAaa = seeded.find(p => p.symbol === 'AAAUSDT')!;
+    const streamedAaa = streamed.find(p => p.symbol === 'AAAUSDT')!;
+    assert(streamedAaa.currentPrice === 1.3456 && streamedAaa.technicalIndicators.currentPrice === 1.3456,
+      'later scans read the live price of the open candle');
+    assert(streamedAaa.technicalIndicators.ma?.short !== seededAaa.technicalIndicators.ma?.short
+      && streamedAaa.technicalIndicators.results?.find(r => r.id === 'ma')?.value === streamedAaa.technicalIndicators.ma,
+      'moving averages include the open candle from the stream');
+
+    let missingError: Error | null = null;
+    try {
+      await replay.request({ url: 'https://fapi.binance.com/fapi/v1/klines?symbol=ZZZUSDT' });
+    } catch (error) {
+      missingError = error as Error;
+    }
+    assert(missingError !== null, 'unrecorded requests fail instead of reaching the network');
+
+    let settingsError: Error | null = null;
+    try {
+      new MarketPredictor(new BinanceClient({ transport: replay }), { ...config, macdFastPeriod: 30, bbPeriod: 0 });
+    } catch (error) {
+      settingsError = error as Error;
+    }
+    assert(settingsError?.message.includes('macdFastPeriod') === true && settingsError.message.includes('bbPeriod'),
+      'invalid indicator settings are rejected before scanning');
+
+    const fixture = fs.readdirSync(fixtureDir).map(file => fs.readFileSync(path.join(fixtureDir, file), 'utf-8')).join('\n');
+    assert(!fixture.includes('test-api-key'), 'API keys are not written to fixtures');
+
+    console.log('\n✅ All record/replay tests completed!');
+  } catch (error) {
+    console.error('❌ Record/replay test failed:', error);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(fixtureDir, { recursive: true, force: true });
+  }
+}
+
+if (require.main === module) {
+  testRecordReplay();
+}
@@ -0,0 +1,184 @@
+// src/test/streamingIndicatorsTest.ts
+import { BinanceMarketStream, KlineEvent } from '../binance/marketStream';
+import { Kline } from '../binance/types';
+import { BasicIndicators } from '../indicators/basicIndicators';
+import { MACDCalculator } from '../indicators/macd';
+import { VolumeAnalyzer } from '../indicators/volume';
+import { DEFAULT_INDICATOR_SETTINGS } from '../indicators/indicatorSettings';
+import {
+  StreamingBollingerBands,
+  StreamingEMA,
+  StreamingIndicatorEngine,
+  StreamingMACD,
+  StreamingRSI,
+  StreamingSMA,
+  StreamingVolumeStats
+} from '../indicators/streaming';
+import { assert, makeKlineSeries } from './helpers';
+
+// A slow uptrend with overlapping waves and uneven volume
+function makeKlines(count: number): Kline[] {
+  return makeKlineSeries(count, i => 30000 + i * 3 + Math.sin(i / 3) * 120 + Math.cos(i * 1.7) * 15, {
+    body: 5,
+    range: 20,
+    volume: i => 500 + (i % 7) * 40 + Math.sin(i) * 30
+  });
+}
+
+function close(a: number | undefined, b: number | undefined, tolerance: number = 1e-9): boolean {
+  if (a === undefined || b === undefined) return false;
+  return Math.abs(a - b) <= tolerance * Math.max(1, Math.abs(b));
+}
+
+async function testStreamingIndicators() {
+  console.log('🧪 Testing streaming indicators...\n');
+
+  try {
+    const klines = makeKlines(200);
+    const closes = klines.map(k => k.close);
+    const volumes = klines.map(k => k.volume);
+
+    // Test 1: every bar matches the batch functions over the same prefix
+    console.log('Test 1: Streaming values match the batch calculations');
+    const ema = new StreamingEMA(12);
+    const macd = new StreamingMACD(12, 26, 9);
+    const rsi = new StreamingRSI(14);
+    const sma = new StreamingSMA(20);
+    const bands = new StreamingBollingerBands(20, 2);
+    const volume = new StreamingVolumeStats(20);
+    const batchEma = MACDCalculator.calculateEMA(closes, 12);
+    const batchMacd = MACDCalculator.calculate(closes, 12, 26, 9);
+
+    let emaMatches = true;
+    let macdMatches = true;
+    let rsiMatches = true;
+    let smaMatches = true;
+    let bandsMatch = true;
+    let volumeMatches = true;
+    for (let i = 0; i < klines.length; i++) {
+      const prefix = closes.slice(0, i + 1);
+      const streamedEma = ema.add(closes[i]);
+      emaMatches = emaMatches && (Number.isNaN(batchEma[i]) ? streamedEma === null : streamedEma === batchEma[i]);
+
+      const streamedMacd = macd.add(closes[i]);
+      macdMatches = macdMatches && JSON.stringify(streamedMacd) === JSON.stringify(batchMacd[i]);
+
+      const streamedRsi = rsi.add(closes[i]);
+      rsiMatches = rsiMatches && (i < 14 ? streamedRsi === null : streamedRsi === BasicIndicators.calculateRSI(prefix, 14));
+
+      const streamedSma = sma.add(closes[i]);
+      const batchSma = prefix.slice(-20).reduce((sum, price) => sum + price, 0) / 20;
+      smaMatches = smaMatches && (i < 19 ? streamedSma === null : close(streamedSma ?? undefined, batchSma));
+
+      const streamedBands = bands.add(closes[i]);
+      const batchBands = BasicIndicators.calculateBollingerBands(prefix, 20, 2);
+      bandsMatch = bandsMatch && (i < 19 ? streamedBands === null
+        : close(streamedBands?.upper, batchBands.upper) && close(streamedBands?.lower, batchBands.lower)
+          && streamedBands?.position === batchBands.position);
+
+      const streamedVolume = volume.add(volumes[i]);
+      const batchVolume = VolumeAnalyzer.calculateVolumeStats(volumes.slice(0, i + 1), prefix, 20);
+      volumeMatches = volumeMatches && close(streamedVolume?.volumeRatio, batchVolume.volumeRatio)
+        && close(streamedVolume?.volumeTrend, batchVolume.volumeTrend, 1e-7);
+    }
+    assert(emaMatches, 'EMA is identical to MACDCalculator.calculateEMA, including the warm-up');
+    assert(macdMatches, 'MACD is identical to MACDCalculator.calculate');
+    assert(rsiMatches, 'RSI is identical to BasicIndicators.calculateRSI');
+    assert(smaMatches, 'running-sum SMA matches the window average');
+    assert(bandsMatch, 'Bollinger Bands match BasicIndicators.calculateBollingerBands');
+    assert(volumeMatches, 'volume ratio and normalized trend match VolumeAnalyzer.calculateVolumeStats');
+
+    // Test 2: revising the open candle is the same as having seen only its final version
+    console.log('\nTest 2: Updates to the open candle');
+    const revised = new StreamingMACD();
+    const revisedRsi = new StreamingRSI();
+    const revisedBands = new StreamingBollingerBands();
+    const revisedVolume = new StreamingVolumeStats();
+    const feed = (method: 'add' | 'updateLast', price: number, quantity: number) => {
+      revised[method](price);
+      revisedRsi[method](price);
+      revisedBands[method](price);
+      revisedVolume[method](quantity);
+    };
+    for (let i = 0; i < klines.length; i++) {
+      // Two intermediate ticks before the final close of every candle
+      feed('add', closes[i] + 50, volumes[i] / 3);
+      feed('updateLast', closes[i] - 30, volumes[i] / 2);
+      feed('updateLast', closes[i], volumes[i]);
+    }
+    assert(JSON.stringify(revised.value) === JSON.stringify(macd.value), 'MACD after revisions equals MACD of the final closes');
+    assert(revisedRsi.value === rsi.value, 'RSI after revisions equals RSI of the final closes');
+    assert(close(revisedBands.value?.middle, bands.value?.middle) && close(revisedBands.value?.upper, bands.value?.upper),
+      'Bollinger Bands after revisions equal those of the final closes');
+    assert(close(revisedVolume.value?.volumeTrend, volume.value?.volumeTrend, 1e-7), 'volume trend after revisions equals that of the final volumes');
+
+    // Test 3: the engine keys state by symbol and candle open time
+    console.log('\nTest 3: Engine');
+    const engine = new StreamingIndicatorEngine();
+    const seeded = engine.seed('BTCUSDT', klines.slice(0, -1));
+    assert(seeded?.time === klines[klines.length - 2].date && seeded.macd !== undefined, 'seeding replays the history');
+
+    const last = klines[klines.length - 1];
+    engine.update('BTCUSDT', { ...last, close: last.close + 500 });
+    const snapshot = engine.update('BTCUSDT', last);
+    const batchMa = BasicIndicators.calculateMovingAverages(closes, DEFAULT_INDICATOR_SETTINGS.maPeriods);
+    assert(JSON.stringify(snapshot.macd) === JSON.stringify(batchMacd[batchMacd.length - 1]), 'a kline with the same open time revises the latest candle');
+    assert(snapshot.rsi === BasicIndicators.calculateRSI(closes, 14), 'snapshot RSI matches the batch value');
+    assert(close(snapshot.ma?.short, batchMa.short) && close(snapshot.ma?.trend, batchMa.trend), 'snapshot moving averages match the batch values');
+    assert(engine.update('ETHUSDT', klines[0]).macd === undefined && engine.symbols().length === 2, 'symbols are independent and unwarmed values are omitted');
+
+    let outOfOrder: Error | null = null;
+    try {
+      engine.update('BTCUSDT', klines[10]);
+    } catch (error) {
+      outOfOrder = error as Error;
+    }
+    assert(outOfOrder !== null, 'klines older than the latest candle are rejected');
+
+    // Test 4: a market stream keeps the seeded symbols current
+    console.log('\nTest 4: Market stream updates');
+    const stream = new BinanceMarketStream();
+    stream.subscribeKlines('BTCUSDT', '15m');   // Opened by someone else, e.g. the scheduler's reference candle
+    const live = new StreamingIndicatorEngine();
+    const detach = live.attach(stream, '15m');
+    live.seed('BTCUSDT', klines.slice(0, -3));
+    live.seed('ETHUSDT', klines.slice(0, -3));
+    assert(stream.getSubscriptions().includes('ethusdt@kline_15m'), 'seeded symbols are subscribed');
+
+    const event = (symbol: string, kline: Kline, isClosed: boolean, backfilled: boolean = false): KlineEvent =>
+      ({ symbol, interval: '15m', kline, isClosed, backfilled });
+    const [missed, closing, latest] = klines.slice(-3);
+    stream.emit('klineClose', event('ETHUSDT', missed, true, true));
+    stream.emit('kline', event('ETHUSDT', { ...closing, close: closing.close - 300 }, false));
+    stream.emit('kline', event('ETHUSDT', closing, true));
+    stream.emit('klineClose', event('ETHUSDT', closing, true));
+    stream.emit('kline', event('ETHUSDT', klines[10], true));
+    stream.emit('kline', event('ETHUSDT', latest, false));
+    stream.emit('kline', { ...event('ETHUSDT', { ...latest, close: 1 }, false), interval: '1h' });
+    const streamed = live.get('ETHUSDT');
+    const full = new StreamingIndicatorEngine().seed('ETHUSDT', klines);
+    assert(streamed?.time === latest.date && streamed.currentPrice === latest.close && streamed.rsi === full?.rsi
+      && close(streamed.macd?.histogram, full?.macd?.histogram) && close(streamed.volume?.volumeTrend, full?.volume?.volumeTrend, 1e-7),
+    'backfilled and live candles continue the seeded history; stale candles and other intervals are ignored');
+
+    stream.emit('kline', event('SOLUSDT', latest, false));
+    assert(live.get('SOLUSDT') === undefined, 'symbols that were not seeded are ignored');
+
+    live.remove('ETHUSDT');
+    assert(!stream.getSubscriptions().includes('ethusdt@kline_15m'), 'removed symbols are unsubscribed');
+    detach();
+    stream.emit('kline', event('BTCUSDT', latest, false));
+    assert(live.get('BTCUSDT')?.time === klines[klines.length - 4].date && stream.listenerCount('kline') === 0,
+      'detaching stops the updates');
+    assert(stream.getSubscriptions().includes('btcusdt@kline_15m'), 'subscriptions the engine did not open are kept');
+
+    console.log('\n✅ All streaming indicator tests completed!');
+  } catch (error) {
+    console.error('❌ Streaming indicator test failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+if (require.main === module) {
+  testStreamingIndicators();
+}
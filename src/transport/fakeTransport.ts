@@ -0,0 +1,66 @@
+// src/transport/fakeTransport.ts
+import { HttpRequest, HttpResponse, HttpTransport } from './types';
+
+export interface FakeResponse {
+    status?: number;
+    headers?: Record<string, string>;
+    body: unknown;              // Serialized as JSON unless already a string
+}
+
+type FakeHandler = (request: HttpRequest) => FakeResponse | Promise<FakeResponse>;
+
+interface FakeRoute {
+    method: string;
+    pattern: string | RegExp;
+    handler: FakeHandler;
+}
+
+/**
+ * Build an HttpResponse from a status, headers and body text
+ */
+export function createHttpResponse(status: number, headers: Record<string, string>, body: string, statusText = ''): HttpResponse {
+    const normalizedHeaders = new Map(Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value]));
+    return {
+        ok: status >= 200 && status < 300,
+        status,
+        statusText,
+        headers: { get: (name: string) => normalizedHeaders.get(name.toLowerCase()) ?? null },
+        json: async () => JSON.parse(body),
+        text: async () => body
+    };
+}
+
+/**
+ * In-memory transport for tests: routes requests to handlers by URL and records every request
+ */
+export class InMemoryTransport implements HttpTransport {
+    readonly requests: HttpRequest[] = [];
+    private routes: FakeRoute[] = [];
+
+    /**
+     * Register a handler; a string pattern matches when the URL contains it
+     */
+    on(method: 'GET' | 'POST', pattern: string | RegExp, handler: FakeHandler | FakeResponse): this {
+        const routeHandler: FakeHandler = typeof handler === 'function' ? handler : () => handler;
+        this.routes.push({ method, pattern, handler: routeHandler });
+        return this;
+    }
+
+    async request(request: HttpRequest): Promise<HttpResponse> {
+        this.requests.push(request);
+
+        const method = request.method || 'GET';
+        const route = this.routes.find(r =>
+            r.method === method &&
+            (typeof r.pattern === 'string' ? request.url.includes(r.pattern) : r.pattern.test(request.url))
+        );
+
+        if (!route) {
+            return createHttpResponse(404, {}, JSON.stringify({ msg: `No fake route for ${method} ${request.url}` }), 'Not Found');
+        }
+
+        const response = await route.handler(request);
+        const body = typeof response.body === 'string' ? response.body : JSON.stringify(response.body);
+        return createHttpResponse(response.status ?? 200, response.headers || {}, body);
+    }
+}
@@ -0,0 +1,54 @@
+// src/transport/fetchTransport.ts
+import { fetch, Dispatcher, ProxyAgent } from 'undici';
+import { socksDispatcher } from 'fetch-socks';
+import { HttpRequest, HttpResponse, HttpTransport, ProxyConfig, TransportOptions } from './types';
+
+/**
+ * HTTP transport backed by undici fetch, with a per-instance proxy
+ * (the global dispatcher is left untouched)
+ */
+export class FetchTransport implements HttpTransport {
+    private readonly dispatcher?: Dispatcher;
+    private readonly timeoutMs: number;
+
+    constructor(options: TransportOptions = {}) {
+        this.dispatcher = this.createDispatcher(options.proxy || { type: 'none' });
+        this.timeoutMs = options.timeoutMs ?? 30000;
+    }
+
+    async request(request: HttpRequest): Promise<HttpResponse> {
+        try {
+            return await fetch(request.url, {
+                method: request.method || 'GET',
+                headers: request.headers,
+                body: request.body,
+                dispatcher: this.dispatcher,
+                signal: AbortSignal.timeout(this.timeoutMs)
+            });
+        } catch (error) {
+            if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+                throw new Error(`Request timed out after ${this.timeoutMs}ms: ${request.url}`);
+            }
+            throw error;
+        }
+    }
+
+    private createDispatcher(proxy: ProxyConfig): Dispatcher | undefined {
+        if (proxy.type === 'http') {
+            return new ProxyAgent(proxy.url);
+        }
+
+        if (proxy.type === 'socks') {
+            const parsed = new URL(proxy.url);
+            return socksDispatcher({
+                type: parsed.protocol.startsWith('socks4') ? 4 : 5,
+                host: parsed.hostname,
+                port: parseInt(parsed.port || '1080', 10),
+                userId: parsed.username ? decodeURIComponent(parsed.username) : undefined,
+                password: parsed.password ? decodeURIComponent(parsed.password) : undefined
+            });
+        }
+
+        return undefined;
+    }
+}
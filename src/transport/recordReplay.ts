@@ -0,0 +1,99 @@
+// src/transport/recordReplay.ts
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHttpResponse } from './fakeTransport';
+import { HttpRequest, HttpResponse, HttpTransport } from './types';
+
+// Response headers the clients read; everything else is dropped from fixtures
+const RECORDED_HEADERS = ['content-type', 'retry-after', 'x-mbx-used-weight-1m'];
+const SESSION_FILE = 'session.json';
+
+interface RecordedExchange {
+    request: { method: string; url: string; body?: string };   // Request headers (API keys) are never stored
+    response: { status: number; statusText: string; headers: Record<string, string>; body: string };
+}
+
+export interface RecordingSession {
+    recordedAt: number;          // Wall-clock time of the capture, used as "now" when replaying
+}
+
+/**
+ * Fixture file name of a request: method, URL and body identify it
+ */
+export function fixtureKey(request: HttpRequest): string {
+    const method = request.method || 'GET';
+    const hash = crypto.createHash('sha1')
+        .update(`${method} ${request.url}\n${request.body || ''}`)
+        .digest('hex')
+        .slice(0, 16);
+    return `${method.toLowerCase()}_${hash}`;
+}
+
+/**
+ * Passes requests to an inner transport and stores every response in a fixture directory
+ */
+export class RecordingTransport implements HttpTransport {
+    readonly session: RecordingSession;
+
+    constructor(private readonly inner: HttpTransport, private readonly fixtureDir: string) {
+        if (!fs.existsSync(fixtureDir)) {
+            fs.mkdirSync(fixtureDir, { recursive: true });
+        }
+
+        // Several transports may record into the same directory; the first one starts the session
+        const sessionPath = path.join(fixtureDir, SESSION_FILE);
+        if (fs.existsSync(sessionPath)) {
+            this.session = JSON.parse(fs.readFileSync(sessionPath, 'utf-8'));
+        } else {
+            this.session = { recordedAt: Date.now() };
+            fs.writeFileSync(sessionPath, JSON.stringify(this.session, null, 2), 'utf-8');
+        }
+    }
+
+    async request(request: HttpRequest): Promise<HttpResponse> {
+        const response = await this.inner.request(request);
+        const body = await response.text();
+
+        const headers: Record<string, string> = {};
+        for (const name of RECORDED_HEADERS) {
+            const value = response.headers.get(name);
+            if (value !== null) headers[name] = value;
+        }
+
+        const exchange: RecordedExchange = {
+            request: { method: request.method || 'GET', url: request.url, body: request.body },
+            response: { status: response.status, statusText: response.statusText, headers, body }
+        };
+        const filePath = path.join(this.fixtureDir, `${fixtureKey(request)}.json`);
+        fs.writeFileSync(filePath, JSON.stringify(exchange, null, 2), 'utf-8');
+
+        return createHttpResponse(response.status, headers, body, response.statusText);
+    }
+}
+
+/**
+ * Serves responses from a fixture directory written by RecordingTransport, without any network access
+ */
+export class ReplayTransport implements HttpTransport {
+    readonly session: RecordingSession;
+
+    constructor(private readonly fixtureDir: string) {
+        const sessionPath = path.join(fixtureDir, SESSION_FILE);
+        if (!fs.existsSync(sessionPath)) {
+            throw new Error(`No recorded session found in ${fixtureDir}`);
+        }
+        this.session = JSON.parse(fs.readFileSync(sessionPath, 'utf-8'));
+    }
+
+    async request(request: HttpRequest): Promise<HttpResponse> {
+        const filePath = path.join(this.fixtureDir, `${fixtureKey(request)}.json`);
+        if (!fs.existsSync(filePath)) {
+            throw new Error(`No recorded response for ${request.method || 'GET'} ${request.url}`);
+        }
+
+        const exchange: RecordedExchange = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        const { status, headers, body, statusText } = exchange.response;
+        return createHttpResponse(status, headers, body, statusText);
+    }
+}
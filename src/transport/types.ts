@@ -0,0 +1,34 @@
+// src/transport/types.ts
+
+export interface HttpRequest {
+    url: string;
+    method?: 'GET' | 'POST';
+    headers?: Record<string, string>;
+    body?: string;
+}
+
+/**
+ * Minimal response shape shared by fetch responses and fake transports
+ */
+export interface HttpResponse {
+    ok: boolean;
+    status: number;
+    statusText: string;
+    headers: { get(name: string): string | null };
+    json(): Promise<any>;
+    text(): Promise<string>;
+}
+
+export interface HttpTransport {
+    request(request: HttpRequest): Promise<HttpResponse>;
+}
+
+export type ProxyConfig =
+    | { type: 'none' }
+    | { type: 'http'; url: string }      // http:// or https:// proxy
+    | { type: 'socks'; url: string };    // socks4:// or socks5:// proxy
+
+export interface TransportOptions {
+    proxy?: ProxyConfig;
+    timeoutMs?: number;
+}